@@ -1,78 +1,379 @@
 
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Settings, Sampler, ColorSpace, LowPolyOutput } from './types';
-import { generateLowPolyData } from './services/lowpoly';
+import { Settings, LowPolyOutput, GenerationProgress, GenerationStage, RasterImage, Lighting } from './types';
+import { DEFAULT_SETTINGS } from './constants';
+import { startGeneration, loadSourceImage, SourceImage, GenerationTask, GenerationCancelledError } from './services/generator';
+import { decodeImage } from './services/decode';
+import { toJSONString, toSVGString, getRenderStyle, RenderStyle } from './services/export';
+import { rasterizeTriangles } from './services/raster';
+import { applyPalette } from './services/palette';
+import { applyLighting, removeLighting } from './services/lighting';
+import { retriangulate, getSourceRaster } from './services/lowpoly';
+import { parseSavedOutput, toIndexedJSONString, toIndexedBinary } from './services/indexed';
+import { maskFromImage } from './services/density';
+import { encodeSettingsHash, decodeSettingsHash } from './services/presets';
+import { History, createHistory, pushHistory, undo, redo } from './services/history';
+import { MeshOptions, buildMesh, toOBJ, toGLB, toSTL } from './services/mesh';
+import { createZip } from './services/zip';
+import { createBatchZip, getOutputBaseName } from './services/batch';
+import { EngineFormat, EngineExportOptions, toThreeJSON, toGodotTres, toUnityJSON } from './services/engine';
+import { RasterExportOptions, DEFAULT_RASTER_EXPORT_OPTIONS, renderPng, renderRaster, setJpegDpi } from './services/render';
+import { MeshFormat } from './components/MeshExportPanel';
+import { BatchItem } from './components/BatchQueue';
 import { ControlPanel } from './components/ControlPanel';
 import { Preview } from './components/Preview';
-import { SpinnerIcon } from './components/ui';
+import { SpinnerIcon, describeFaces } from './components/ui';
+
+const STAGE_LABELS: Record<GenerationStage, string> = {
+  [GenerationStage.SCALING]: 'Đang thu nhỏ ảnh',
+  [GenerationStage.PREPROCESSING]: 'Đang tiền xử lý ảnh',
+  [GenerationStage.EDGE_MAP]: 'Đang tạo bản đồ cạnh',
+  [GenerationStage.SAMPLING]: 'Đang lấy mẫu điểm',
+  [GenerationStage.TRIANGULATION]: 'Đang tam giác hóa',
+  [GenerationStage.COLORING]: 'Đang tô màu tam giác',
+  [GenerationStage.NEIGHBORS]: 'Đang tính tam giác lân cận',
+  [GenerationStage.PALETTE]: 'Đang lượng tử hóa bảng màu',
+  [GenerationStage.MERGING]: 'Đang gộp vùng cùng màu',
+};
+
+// One undo step: the settings together with the result shown at the time
+interface Snapshot {
+  settings: Settings;
+  lowPolyData: LowPolyOutput | null;
+  processingTime: number;
+  // Name of the JSON file the result was loaded from, if any
+  openedFileName: string | null;
+}
+
+// Text fields keep their own undo behavior
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLInputElement && ['text', 'number', 'search'].includes(target.type));
 
 const App: React.FC = () => {
-  const [settings, setSettings] = useState<Settings>({
-    maxSize: 1024,
-    points: 2000,
-    sampler: Sampler.EDGE_AWARE,
-    seed: 42,
-    edgeWeight: 0.8,
-    colorSpace: ColorSpace.LAB,
-    withNeighbors: true,
-    previewOutline: true,
-    showPointIds: false,
-  });
-
-  const [sourceImage, setSourceImage] = useState<HTMLImageElement | null>(null);
+  // Settings from a shared link win over the defaults
+  const [history, setHistory] = useState<History<Snapshot>>(() => createHistory({
+    settings: decodeSettingsHash(window.location.hash) ?? DEFAULT_SETTINGS,
+    lowPolyData: null,
+    processingTime: 0,
+    openedFileName: null,
+  }));
+  const { settings, lowPolyData, processingTime, openedFileName } = history.present;
+  const lighting = lowPolyData?.lighting;
+  const renderStyle = getRenderStyle(settings);
+
+  const [source, setSource] = useState<SourceImage | null>(null);
+  const sourceImage = source?.image ?? null;
   const [sourceFileName, setSourceFileName] = useState<string>('input.png');
-  const [lowPolyData, setLowPolyData] = useState<LowPolyOutput | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [processingTime, setProcessingTime] = useState<number>(0);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  // Grayscale heights for 3D export, white = high
+  const [depthMap, setDepthMap] = useState<RasterImage | null>(null);
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+
+  const taskRef = useRef<GenerationTask | null>(null);
+  const nextBatchIdRef = useRef(0);
+  // Pixels new triangles are colored from while editing vertices; reset whenever the result is replaced
+  const editRasterRef = useRef<RasterImage | null>(null);
+
+  // Records a new undo step. Steps with the same key in quick succession
+  // (dragging a slider or a vertex) collapse into one.
+  const commit = useCallback((update: (present: Snapshot) => Snapshot, key: string | null = null) => {
+    setHistory(prev => {
+      const next = update(prev.present);
+      return next === prev.present ? prev : pushHistory(prev, next, key);
+    });
+  }, []);
 
-  const svgRef = useRef<SVGSVGElement>(null);
+  // Keyed by the fields that changed, so moving one slider then another are separate steps
+  const setSettings = useCallback((action: React.SetStateAction<Settings>) => {
+    setHistory(prev => {
+      const current = prev.present.settings;
+      const next = typeof action === 'function' ? action(current) : action;
+      if (next === current) return prev;
+      const changed = (Object.keys(next) as (keyof Settings)[]).filter(key => next[key] !== current[key]);
+      return pushHistory(prev, { ...prev.present, settings: next }, `settings:${changed.join(',')}`);
+    });
+  }, []);
+
+  const setResult = (lowPolyData: LowPolyOutput | null, processingTime: number, openedFileName: string | null) => {
+    commit(present => ({ ...present, lowPolyData, processingTime, openedFileName }));
+    editRasterRef.current = null;
+  };
+
+  const handleUndo = useCallback(() => {
+    setHistory(undo);
+    editRasterRef.current = null;
+  }, []);
+
+  const handleRedo = useCallback(() => {
+    setHistory(redo);
+    editRasterRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextInput(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) handleUndo();
+      else if ((key === 'z' && event.shiftKey) || key === 'y') handleRedo();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
 
+  // The URL always carries the current settings, so it can be shared as is
+  useEffect(() => {
+    const { pathname, search } = window.location;
+    window.history.replaceState(null, '', pathname + search + encodeSettingsHash(settings));
+  }, [settings]);
+
+  // A link pasted into an open tab only changes the hash
+  useEffect(() => {
+    const handleHashChange = () => {
+      const shared = decodeSettingsHash(window.location.hash);
+      if (shared) setSettings(shared);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [setSettings]);
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .catch(() => setError("Không thể sao chép liên kết. Hãy sao chép trực tiếp từ thanh địa chỉ."));
+  };
+
+  // Several files go to the batch queue; the first also becomes the source image
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const files: File[] = event.target.files ? [...event.target.files] : [];
+    event.target.value = '';
+    if (files.length > 1) {
+      setBatch(prev => [...prev, ...files.map((file): BatchItem => ({
+        id: nextBatchIdRef.current++,
+        file,
+        status: 'pending',
+        progress: 0,
+        output: null,
+        processingTime: 0,
+        error: null,
+      }))]);
+    }
+    const file = files[0];
     if (file) {
       setSourceFileName(file.name);
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const img = new Image();
-        img.onload = () => {
-          setSourceImage(img);
-          setLowPolyData(null);
+      loadSourceImage(file)
+        .then((loaded) => {
+          setSource(loaded);
+          setResult(null, 0, null);
           setError(null);
-        };
-        img.onerror = () => {
-            setError("Không thể tải tệp hình ảnh. Vui lòng thử một tệp khác.");
-        }
-        img.src = e.target?.result as string;
-      };
-      reader.readAsDataURL(file);
+        })
+        .catch((e) => {
+          console.error(e);
+          setError("Không thể tải tệp hình ảnh. Vui lòng thử một tệp PNG hoặc JPEG khác.");
+        });
     }
   };
 
+  // Saved outputs render and export without their source image
+  const handleJsonFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again after fixing it reloads it
+    event.target.value = '';
+    if (!file) return;
+    file.arrayBuffer()
+      .then((buffer) => {
+        const data = parseSavedOutput(new Uint8Array(buffer));
+        taskRef.current?.cancel();
+        setResult(data, 0, file.name);
+        setError(null);
+      })
+      .catch((e) => {
+        console.error(e);
+        setError(`Không thể mở ${file.name}. ${e instanceof Error ? e.message : ''}`);
+      });
+  };
+
+  // A grayscale guide image replaces the painted density mask
+  const handleDensityGuideChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    loadSourceImage(file)
+      .then(({ pixels }) => setSettings(prev => ({ ...prev, densityMask: maskFromImage(pixels) })))
+      .catch((e) => {
+        console.error(e);
+        setError("Không thể tải ảnh hướng dẫn mật độ. Vui lòng thử một tệp PNG hoặc JPEG khác.");
+      });
+  };
+
+  const handleDepthMapChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    loadSourceImage(file)
+      .then(({ pixels }) => setDepthMap(pixels))
+      .catch((e) => {
+        console.error(e);
+        setError("Không thể tải bản đồ độ sâu. Vui lòng thử một tệp PNG hoặc JPEG khác.");
+      });
+  };
+
   const handleGenerate = useCallback(async () => {
-    if (!sourceImage) {
+    if (!source) {
       setError("Vui lòng tải lên một hình ảnh trước.");
       return;
     }
+    taskRef.current?.cancel();
     setIsLoading(true);
     setError(null);
-    setLowPolyData(null);
+    setProgress(null);
 
+    // The previous result stays on screen until the new one replaces it,
+    // so cancelling a run never loses it.
+    const task = startGeneration(source.pixels, sourceFileName, settings, setProgress);
+    taskRef.current = task;
     try {
         const startTime = performance.now();
-        const data = await generateLowPolyData(sourceImage, sourceFileName, settings);
+        const data = await task.promise;
         const endTime = performance.now();
-        setProcessingTime(endTime - startTime);
-        setLowPolyData(data);
+        // A new mesh keeps the light the previous one was shown with
+        const lit = lighting ? applyLighting(data, getSourceRaster(source.pixels, data), lighting) : data;
+        setResult(lit, endTime - startTime, null);
     } catch (e) {
+        if (e instanceof GenerationCancelledError) return;
         console.error(e);
         setError(e instanceof Error ? e.message : "Đã xảy ra lỗi không xác định trong quá trình tạo.");
     } finally {
-        setIsLoading(false);
+        if (taskRef.current === task) {
+          taskRef.current = null;
+          setIsLoading(false);
+          setProgress(null);
+        }
     }
-  }, [sourceImage, sourceFileName, settings]);
+  }, [source, sourceFileName, settings, lighting, commit]);
+
+  const handleCancel = useCallback(() => {
+    taskRef.current?.cancel();
+  }, []);
+
+  useEffect(() => () => taskRef.current?.cancel(), []);
+
+  const updateBatchItem = (id: number, update: Partial<BatchItem>) => {
+    setBatch(prev => prev.map(item => item.id === id ? { ...item, ...update } : item));
+  };
+
+  // Queued files run one at a time in their own worker, each with the settings
+  // current when it starts, so the main preview can keep generating meanwhile.
+  const runningBatchId = batch.find(item => item.status === 'running')?.id ?? null;
+
+  useEffect(() => {
+    if (runningBatchId !== null) return;
+    const next = batch.find(item => item.status === 'pending');
+    if (next) updateBatchItem(next.id, { status: 'running', progress: 0, error: null });
+  }, [batch]);
+
+  // The job stops once its item leaves the running state (finished, cleared) or
+  // the app unmounts, which also ends the first of StrictMode's two runs
+  useEffect(() => {
+    const item = batch.find(entry => entry.id === runningBatchId);
+    if (!item) return;
+    let cancelled = false;
+    let task: GenerationTask | null = null;
+    (async () => {
+      try {
+        const pixels = decodeImage(new Uint8Array(await item.file.arrayBuffer()));
+        if (cancelled) return;
+        task = startGeneration(pixels, item.file.name, settings, (p) => updateBatchItem(item.id, { progress: p.progress }));
+        const startTime = performance.now();
+        const output = await task.promise;
+        updateBatchItem(item.id, { status: 'done', output, processingTime: performance.now() - startTime });
+      } catch (e) {
+        if (e instanceof GenerationCancelledError || cancelled) return;
+        console.error(e);
+        updateBatchItem(item.id, { status: 'error', error: e instanceof Error ? e.message : String(e) });
+      }
+    })();
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [runningBatchId]);
+
+  const handleBatchRetry = (id: number) => {
+    updateBatchItem(id, { status: 'pending', progress: 0, error: null });
+  };
+
+  const handleBatchClear = () => {
+    setBatch([]);
+  };
+
+  // Shows a finished item together with its source image, as if it had been generated here
+  const handleBatchOpen = (id: number) => {
+    const item = batch.find(entry => entry.id === id);
+    if (!item?.output) return;
+    const { file, output, processingTime } = item;
+    loadSourceImage(file)
+      .then((loaded) => {
+        taskRef.current?.cancel();
+        setSource(loaded);
+        setSourceFileName(file.name);
+        setResult(output, processingTime, null);
+        setError(null);
+      })
+      .catch((e) => {
+        console.error(e);
+        setError(`Không thể mở ${file.name}.`);
+      });
+  };
   
+  // Palette edits only touch the output, so the mesh re-renders without regenerating
+  const handlePaletteChange = (palette: [number, number, number][]) => {
+    commit(present => present.lowPolyData ? { ...present, lowPolyData: { ...present.lowPolyData, palette } } : present, 'palette');
+  };
+
+  const handlePaletteRemap = (palette: [number, number, number][]) => {
+    commit(present => present.lowPolyData ? { ...present, lowPolyData: applyPalette(present.lowPolyData, palette) } : present);
+  };
+
+  // The source image at the mesh's resolution when it belongs to this result,
+  // filtered the way the result was generated,
+  // otherwise the mesh itself rendered flat (e.g. a JSON opened without its image)
+  const getEditRaster = (data: LowPolyOutput): RasterImage => {
+    if (!editRasterRef.current) {
+      const { width, height, source: name } = data.image;
+      const scaled = source && name === sourceFileName ? getSourceRaster(source.pixels, data) : null;
+      editRasterRef.current = scaled && scaled.width === width && scaled.height === height
+        ? scaled
+        : rasterizeTriangles(removeLighting(data));
+    }
+    return editRasterRef.current;
+  };
+
+  const handlePointsEdit = (points: [number, number][], locked: number[]) => {
+    if (!lowPolyData) return;
+    const { width, height } = lowPolyData.image;
+    const raster = getEditRaster(lowPolyData);
+    const retriangulated = retriangulate(lowPolyData, points, locked, raster);
+    const edited = lighting ? applyLighting(retriangulated, raster, lighting) : retriangulated;
+    const lockedPoints = locked.map((i): [number, number] => [points[i][0] / width, points[i][1] / height]);
+    commit(present => ({ ...present, lowPolyData: edited, settings: { ...present.settings, lockedPoints } }), 'points');
+  };
+
+  // Normals only depend on the height map, so moving the light just re-renders
+  const handleLightingChange = (next: Lighting | null) => {
+    if (!lowPolyData) return;
+    let lit: LowPolyOutput;
+    if (!next) lit = removeLighting(lowPolyData);
+    else if (!lighting || next.height_source !== lighting.height_source || next.relief !== lighting.relief) {
+      lit = applyLighting(lowPolyData, getEditRaster(lowPolyData), next);
+    } else lit = { ...lowPolyData, lighting: next };
+    commit(present => ({ ...present, lowPolyData: lit }), 'lighting');
+  };
+
   const triggerDownload = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -86,85 +387,202 @@ const App: React.FC = () => {
 
   const handleDownloadJSON = () => {
     if (!lowPolyData) return;
-    const jsonString = JSON.stringify(lowPolyData, null, 2);
+    const jsonString = toJSONString(lowPolyData);
     const blob = new Blob([jsonString], { type: 'application/json' });
-    triggerDownload(blob, 'output.json');
+    triggerDownload(blob, `${getOutputBaseName(lowPolyData.image.source)}.json`);
   };
   
+  const handleDownloadIndexed = (format: 'json' | 'binary') => {
+    if (!lowPolyData) return;
+    const baseName = getOutputBaseName(lowPolyData.image.source);
+    if (format === 'json') {
+      triggerDownload(new Blob([toIndexedJSONString(lowPolyData)], { type: 'application/json' }), `${baseName}.indexed.json`);
+    } else {
+      triggerDownload(new Blob([toIndexedBinary(lowPolyData)], { type: 'application/octet-stream' }), `${baseName}.lpix`);
+    }
+  };
+
+  const handleDownloadEngine = (format: EngineFormat, options: EngineExportOptions) => {
+    if (!lowPolyData) return;
+    const baseName = getOutputBaseName(lowPolyData.image.source);
+    if (format === 'three') {
+      triggerDownload(new Blob([toThreeJSON(lowPolyData, options)], { type: 'application/json' }), `${baseName}.three.json`);
+    } else if (format === 'godot') {
+      triggerDownload(new Blob([toGodotTres(lowPolyData, options)], { type: 'text/plain' }), `${baseName}.tres`);
+    } else {
+      triggerDownload(new Blob([toUnityJSON(lowPolyData, options)], { type: 'application/json' }), `${baseName}.unity.json`);
+    }
+  };
+
+  // Same markup as the SVG tab and the batch ZIP, without the preview's point labels
   const handleDownloadSVG = () => {
-    if (!svgRef.current) return;
-    const svgString = new XMLSerializer().serializeToString(svgRef.current);
-    const blob = new Blob([svgString], { type: 'image/svg+xml' });
-    triggerDownload(blob, 'preview.svg');
+    if (!lowPolyData) return;
+    const blob = new Blob([toSVGString(lowPolyData, renderStyle)], { type: 'image/svg+xml' });
+    triggerDownload(blob, `${getOutputBaseName(lowPolyData.image.source)}.svg`);
   };
 
-  const handleDownloadPNG = () => {
-    if (!svgRef.current || !lowPolyData) return;
-    const svgString = new XMLSerializer().serializeToString(svgRef.current);
-    const { width, height } = lowPolyData.image;
+  // Rendered from the same styled faces as the SVG, at the mesh's own size
+  const handleDownloadPNG = async () => {
+    if (!lowPolyData) return;
+    try {
+      const parts = await renderPng(lowPolyData, { ...DEFAULT_RASTER_EXPORT_OPTIONS, scale: 1, style: renderStyle });
+      triggerDownload(new Blob(parts, { type: 'image/png' }), `${getOutputBaseName(lowPolyData.image.source)}.png`);
+    } catch (e) {
+      console.error(e);
+      setError(`Không thể xuất ảnh. ${e instanceof Error ? e.message : ''}`);
+    }
+  };
 
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const img = new Image();
-    img.onload = () => {
-      ctx.drawImage(img, 0, 0);
-      canvas.toBlob((blob) => {
-        if(blob) triggerDownload(blob, 'preview.png');
-      }, 'image/png');
-    };
-    img.src = 'data:image/svg+xml;base64,' + btoa(unescape(encodeURIComponent(svgString)));
+  const handleDownloadMesh = (format: MeshFormat, options: MeshOptions) => {
+    if (!lowPolyData) return;
+    try {
+      const heightImage = options.heightSource === 'depth' ? depthMap : getEditRaster(lowPolyData);
+      const mesh = buildMesh(lowPolyData, options, heightImage);
+      const baseName = getOutputBaseName(lowPolyData.image.source);
+      if (format === 'obj') {
+        const { obj, mtl } = toOBJ(mesh, options.colors, `${baseName}.mtl`);
+        const encoder = new TextEncoder();
+        const zip = createZip([
+          { name: `${baseName}.obj`, data: encoder.encode(obj) },
+          { name: `${baseName}.mtl`, data: encoder.encode(mtl) },
+        ]);
+        triggerDownload(new Blob([zip], { type: 'application/zip' }), `${baseName}-obj.zip`);
+      } else if (format === 'glb') {
+        triggerDownload(new Blob([toGLB(mesh, options.colors)], { type: 'model/gltf-binary' }), `${baseName}.glb`);
+      } else {
+        triggerDownload(new Blob([toSTL(mesh, options.colors)], { type: 'model/stl' }), `${baseName}.stl`);
+      }
+    } catch (e) {
+      console.error(e);
+      setError(`Không thể xuất mô hình 3D. ${e instanceof Error ? e.message : ''}`);
+    }
+  };
+
+  const handleDownloadRaster = async (options: RasterExportOptions, onProgress: (progress: number) => void) => {
+    if (!lowPolyData) return;
+    // Suffixed so it doesn't replace the preview-sized PNG, like the CLI does
+    const baseName = `${getOutputBaseName(lowPolyData.image.source)}-render`;
+    try {
+      if (options.format === 'png') {
+        const parts = await renderPng(lowPolyData, options, onProgress);
+        triggerDownload(new Blob(parts, { type: 'image/png' }), `${baseName}.png`);
+        return;
+      }
+      const raster = await renderRaster(lowPolyData, options, onProgress);
+      const canvas = document.createElement('canvas');
+      canvas.width = raster.width;
+      canvas.height = raster.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Trình duyệt không tạo được canvas đủ lớn.');
+      ctx.putImageData(new ImageData(raster.data, raster.width, raster.height), 0, 0);
+      const type = `image/${options.format}`;
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, options.quality));
+      if (!blob) throw new Error('Trình duyệt không mã hóa được ảnh.');
+      const bytes = new Uint8Array(await blob.arrayBuffer());
+      const file = options.format === 'jpeg' ? setJpegDpi(bytes, options.dpi) : bytes;
+      triggerDownload(new Blob([file], { type }), `${baseName}.${options.format === 'jpeg' ? 'jpg' : 'webp'}`);
+    } catch (e) {
+      console.error(e);
+      setError(`Không thể xuất ảnh. ${e instanceof Error ? e.message : ''}`);
+    }
+  };
+
+  const handleDownloadBatch = async (onProgress: (progress: number) => void) => {
+    const results = batch.flatMap(item => item.output ? [{ fileName: item.file.name, output: item.output }] : []);
+    try {
+      const zip = await createBatchZip(results, renderStyle, onProgress);
+      triggerDownload(new Blob([zip], { type: 'application/zip' }), 'lowpoly-batch.zip');
+    } catch (e) {
+      console.error(e);
+      setError(`Không thể tạo tệp ZIP. ${e instanceof Error ? e.message : ''}`);
+    }
   };
 
   // Preload a sample image
     useEffect(() => {
-        const img = new Image();
-        img.crossOrigin = "anonymous";
-        img.onload = () => {
-            setSourceImage(img);
-        };
-        img.src = "https://picsum.photos/seed/lowpoly/1024/768";
-        setSourceFileName("sample.jpg");
+        fetch("https://picsum.photos/seed/lowpoly/1024/768")
+            .then((response) => response.blob())
+            .then(loadSourceImage)
+            .then((loaded) => {
+                setSource(loaded);
+                setSourceFileName("sample.jpg");
+            })
+            .catch((e) => console.error(e));
     }, []);
 
 
   return (
     <div className="min-h-screen flex flex-col md:flex-row bg-gray-800 font-sans">
-      {isLoading && (
-        <div className="fixed inset-0 bg-black bg-opacity-70 flex flex-col items-center justify-center z-50">
-            <SpinnerIcon className="w-16 h-16 animate-spin text-indigo-400" />
-            <p className="text-lg text-white mt-4">Đang tạo hình nghệ thuật Low Poly...</p>
-        </div>
-      )}
-
       <ControlPanel 
         settings={settings}
         setSettings={setSettings}
         onFileChange={handleFileChange}
+        batch={batch}
+        onBatchRetry={handleBatchRetry}
+        onBatchOpen={handleBatchOpen}
+        onBatchClear={handleBatchClear}
+        onDownloadBatch={handleDownloadBatch}
+        onJsonFileChange={handleJsonFileChange}
+        onDensityGuideChange={handleDensityGuideChange}
         onGenerate={handleGenerate}
+        onCancel={handleCancel}
         onDownloadJSON={handleDownloadJSON}
+        onDownloadIndexed={handleDownloadIndexed}
+        onDownloadEngine={handleDownloadEngine}
         onDownloadSVG={handleDownloadSVG}
         onDownloadPNG={handleDownloadPNG}
+        onDownloadMesh={handleDownloadMesh}
+        onDownloadRaster={handleDownloadRaster}
+        imageSize={lowPolyData ? [lowPolyData.image.width, lowPolyData.image.height] : null}
+        renderStyle={renderStyle}
+        onDepthMapChange={handleDepthMapChange}
+        depthMapLoaded={!!depthMap}
+        palette={lowPolyData?.palette ?? null}
+        onPaletteChange={handlePaletteChange}
+        onPaletteRemap={handlePaletteRemap}
         hasData={!!lowPolyData}
         isGenerating={isLoading}
         sourceImageLoaded={!!sourceImage}
         sourceImageSrc={sourceImage?.src || null}
+        canUndo={history.past.length > 0}
+        canRedo={history.future.length > 0}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onCopyLink={handleCopyLink}
       />
       
-      <main className="flex-1 p-4 md:p-8 flex flex-col items-center justify-center bg-gray-900 overflow-auto">
+      <main className="relative flex-1 p-4 md:p-8 flex flex-col items-center justify-center bg-gray-900 overflow-auto">
+        {isLoading && (
+          <div className="absolute inset-0 bg-black bg-opacity-70 flex flex-col items-center justify-center z-50">
+              <SpinnerIcon className="w-16 h-16 animate-spin text-indigo-400" />
+              <p className="text-lg text-white mt-4">
+                {progress ? `${STAGE_LABELS[progress.stage]}...` : 'Đang tạo hình nghệ thuật Low Poly...'}
+              </p>
+              <div className="w-64 h-2 mt-3 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-indigo-500 transition-all"
+                  style={{ width: `${Math.round((progress?.progress ?? 0) * 100)}%` }}
+                />
+              </div>
+          </div>
+        )}
         <Preview 
           sourceImage={sourceImage}
+          sourcePixels={source?.pixels ?? null}
           lowPolyData={lowPolyData}
           settings={settings}
-          svgRef={svgRef}
+          onRenderStyleChange={(style: RenderStyle) => setSettings(prev => ({ ...prev, ...style }))}
+          onPointsEdit={handlePointsEdit}
+          onDensityMaskChange={(densityMask) => setSettings(prev => ({ ...prev, densityMask }))}
+          onLightingChange={handleLightingChange}
+          onDownload={triggerDownload}
           error={error}
         />
         {lowPolyData && (
              <div className="mt-4 text-xs text-gray-400">
-                Đã tạo {lowPolyData.triangles.length} tam giác trong {Math.round(processingTime)}ms.
+                {openedFileName
+                  ? `Đã mở ${openedFileName}: ${describeFaces(lowPolyData)}.`
+                  : `Đã tạo ${describeFaces(lowPolyData)} trong ${Math.round(processingTime)}ms.`}
              </div>
         )}
       </main>
@@ -0,0 +1,411 @@
+import { parseArgs } from 'node:util';
+import { readFile, writeFile, readdir, stat, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { Settings, Sampler, ColorSpace, ColorEstimator, ShadingMode, PaletteMode, GeometryKind, StrokeMode, LowPolyOutput, RasterImage, Lighting, ImageFilter, ImageFilterType } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { generateLowPolyData, getSourceRaster } from '../services/lowpoly';
+import { decodeImage } from '../services/decode';
+import { maskFromImage } from '../services/density';
+import { toJSONString, toSVGString, getRenderStyle } from '../services/export';
+import { MeshOptions, HeightSource, MeshColorMode, DEFAULT_MESH_OPTIONS, buildMesh, toOBJ, toGLB, toSTL } from '../services/mesh';
+import { RasterExportOptions, DEFAULT_RASTER_EXPORT_OPTIONS, renderPng } from '../services/render';
+import { hexToRgb } from '../services/palette';
+import { toIndexedJSONString, toIndexedBinary } from '../services/indexed';
+import { EngineExportOptions, DEFAULT_ENGINE_EXPORT_OPTIONS, toThreeJSON, toGodotTres, toUnityJSON } from '../services/engine';
+import { generateSequence, toSequenceSVGString } from '../services/sequence';
+import { DEFAULT_LIGHTING, applyLighting } from '../services/lighting';
+import { DEFAULT_FILTERS, getFilterIssue } from '../services/preprocess';
+
+// Headless generator: decodes PNG/JPEG files and runs the same pipeline as the
+// web app, writing <name>.json and <name>.svg next to each other (plus 3D
+// meshes and high-resolution PNGs when asked for).
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg']);
+const FORMATS = ['json', 'indexed', 'lpix', 'svg', 'png', 'obj', 'glb', 'stl', 'three', 'godot', 'unity'];
+
+const USAGE = `Usage: npm run cli -- [options] <file-or-folder>...
+
+Generation (defaults match the web app):
+  --sampler <grid|poisson|edge-aware|adaptive>
+                                        Point sampler (${DEFAULT_SETTINGS.sampler})
+  --points <n>                          Number of sampled points, the budget for adaptive (${DEFAULT_SETTINGS.points})
+  --seed <n>                            Random seed (${DEFAULT_SETTINGS.seed})
+  --edge-weight <0..1>                  Edge weight for edge-aware sampling (${DEFAULT_SETTINGS.edgeWeight})
+  --edge-blur <sigma>                   Gaussian blur before Canny edge detection (${DEFAULT_SETTINGS.edgeBlur})
+  --canny-low <0..255>                  Canny low hysteresis threshold (${DEFAULT_SETTINGS.cannyLow})
+  --canny-high <0..255>                 Canny high hysteresis threshold (${DEFAULT_SETTINGS.cannyHigh})
+  --snap-contours                       Place vertices along traced edge contours
+  --density-mask <image>                Grayscale guide: bright areas get more points, dark fewer
+  --target-error <n>                    Mean color error where adaptive refinement stops (${DEFAULT_SETTINGS.targetError})
+  --color-space <rgb|lab>               Color averaging space (${DEFAULT_SETTINGS.colorSpace})
+  --color-estimator <mean|median|dominant|centroid|trimmed-mean>
+                                        How face colors are picked from their pixels (${DEFAULT_SETTINGS.colorEstimator})
+  --geometry <triangles|voronoi>        Delaunay triangles or clipped Voronoi cells (${DEFAULT_SETTINGS.geometry})
+  --shading <flat|gradient>             Flat triangle colors or per-vertex gradients (${DEFAULT_SETTINGS.shading})
+  --palette-mode <none|kmeans|custom>   Limit triangle colors to a palette (${DEFAULT_SETTINGS.paletteMode})
+  --palette-size <n>                    Number of k-means colors (${DEFAULT_SETTINGS.paletteSize})
+  --custom-palette <#hex,...>           Colors for --palette-mode custom
+  --merge-regions                       Merge adjacent similar-color triangles into polygons
+  --merge-tolerance <n>                 Largest CIELAB color difference within a region (${DEFAULT_SETTINGS.mergeTolerance})
+  --max-size <px>                       Longest image side after scaling (${DEFAULT_SETTINGS.maxSize})
+  --filters <type:value,...>            Pre-processing chain run on the scaled image, in order:
+                                        bilateral:<radius>:<range>, median:<radius>,
+                                        brightness|contrast|saturation|temperature:<-1..1>,
+                                        gamma:<n>, posterize:<levels>. Omitted values use
+                                        defaults, e.g. median:2,contrast:0.2,bilateral
+  --min-opacity <0..1>                  Drop faces more transparent than this; only affects
+                                        images with transparency (${DEFAULT_SETTINGS.minOpacity})
+  --with-neighbors / --no-neighbors     Include triangle adjacency (${DEFAULT_SETTINGS.withNeighbors ? 'on' : 'off'})
+
+Output:
+  --out-dir <dir>                       Output folder (next to each input by default)
+  --format <json,svg,...>               Comma separated list of outputs: ${FORMATS.join(', ')} (json,svg)
+                                        indexed writes <name>.indexed.json, lpix the binary <name>.lpix
+  --stroke <none|match|outline|gap>     How face edges are drawn in SVG and PNG output (${DEFAULT_SETTINGS.strokeMode}):
+                                        match strokes each face with its own color to hide
+                                        seams, gap shrinks faces toward their centroids
+  --stroke-color <color>                Outline color (${DEFAULT_SETTINGS.strokeColor})
+  --stroke-width <n>                    Outline width in mesh pixels (${DEFAULT_SETTINGS.strokeWidth})
+  --gap <n>                             Share of each face's size left open by --stroke gap (${DEFAULT_SETTINGS.gapSize})
+  --recursive                           Descend into sub-folders
+  --sequence                            Treat the inputs, in order, as frames of one clip: vertices
+                                        follow the image from frame to frame and triangles keep
+                                        their ids. Also writes an animated sequence.svg
+  --fps <n>                             Frame rate of sequence.svg (12)
+  -h, --help                            Show this help
+
+Faceted lighting (shades every export; the JSON keeps the measured colors):
+  --lighting <luminance|edges>          Raise vertices by brightness or edge strength and light the facets
+  --relief <n>                          Tallest relief as a fraction of the longest side (${DEFAULT_LIGHTING.relief})
+  --light-azimuth <deg>                 Direction the light comes from, 0 = top, 90 = right (${DEFAULT_LIGHTING.azimuth})
+  --light-elevation <deg>               Angle of the light above the image (${DEFAULT_LIGHTING.elevation})
+  --light-intensity <n>                 Strength of the directional light (${DEFAULT_LIGHTING.intensity})
+  --light-ambient <n>                   Light every face gets regardless of direction (${DEFAULT_LIGHTING.ambient})
+
+3D meshes (obj writes <name>.obj and <name>.mtl):
+  --mesh-height <flat|luminance|edges|depth>
+                                        Source of vertex heights (${DEFAULT_MESH_OPTIONS.heightSource})
+  --depth-map <image>                   Grayscale depth map for --mesh-height depth, white = high
+  --mesh-depth <n>                      Tallest relief as a fraction of the size (${DEFAULT_MESH_OPTIONS.depth})
+  --invert-height                       Make dark or flat areas high instead
+  --mesh-base <n>                       Base thickness as a fraction of the size, 0 for an open surface (${DEFAULT_MESH_OPTIONS.base})
+  --mesh-size <n>                       Longest side in output units (${DEFAULT_MESH_OPTIONS.size})
+  --mesh-colors <face|vertex>           Per-face materials or blended vertex colors (${DEFAULT_MESH_OPTIONS.colors})
+
+Game engine meshes (three, godot, unity write <name>.three.json, .tres, .unity.json):
+  --units <normalized|pixels>           Longest side 1, or one unit per pixel (${DEFAULT_ENGINE_EXPORT_OPTIONS.units})
+  --y-down                              Keep image rows, Y pointing down
+  Vertex colors follow --mesh-colors.
+
+PNG renders (png writes <name>-render.png at any size):
+  --scale <n>                           Output pixels per mesh pixel (${DEFAULT_RASTER_EXPORT_OPTIONS.scale})
+  --long-side <px>                      Longest output side, overrides --scale
+  --dpi <n>                             Print resolution stored in the file (${DEFAULT_RASTER_EXPORT_OPTIONS.dpi})
+  --background <color>                  Background color (transparent by default)
+  --samples <1..4>                      Antialiasing samples per axis (${DEFAULT_RASTER_EXPORT_OPTIONS.samples})
+  Faces are drawn with the --stroke style.
+`;
+
+class UsageError extends Error {}
+
+const parseNumber = (name: string, value: string | undefined, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new UsageError(`--${name} expects a number, got "${value}"`);
+  return number;
+};
+
+const parseEnum = <T extends string>(name: string, value: string | undefined, allowed: T[], fallback: T): T => {
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${allowed.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+};
+
+// Values of each filter type in the order --filters takes them
+const FILTER_PARAMS: Record<ImageFilterType, string[]> = {
+  bilateral: ['radius', 'range'],
+  median: ['radius'],
+  brightness: ['amount'],
+  contrast: ['amount'],
+  saturation: ['amount'],
+  temperature: ['amount'],
+  gamma: ['gamma'],
+  posterize: ['levels'],
+};
+
+const parseFilters = (value: string | undefined): ImageFilter[] => {
+  if (value === undefined) return DEFAULT_SETTINGS.filters;
+  return value.split(',').map(f => f.trim()).filter(Boolean).map(spec => {
+    const [type, ...values] = spec.split(':');
+    const params = FILTER_PARAMS[type as ImageFilterType];
+    if (!params) throw new UsageError(`--filters: unknown filter "${type}", expected one of ${Object.keys(FILTER_PARAMS).join(', ')}`);
+    if (values.length > params.length) throw new UsageError(`--filters: ${type} takes at most ${params.length} value(s), got "${spec}"`);
+    const filter: Record<string, unknown> = { ...DEFAULT_FILTERS[type as ImageFilterType] };
+    values.forEach((v, i) => filter[params[i]] = parseNumber('filters', v, 0));
+    const issue = getFilterIssue(filter);
+    if (issue) throw new UsageError(`--filters: ${type}: ${issue}`);
+    return filter as ImageFilter;
+  });
+};
+
+const collectInputs = async (entries: string[], recursive: boolean): Promise<string[]> => {
+  const files: string[] = [];
+  const visit = async (entry: string, explicit: boolean) => {
+    const info = await stat(entry);
+    if (info.isDirectory()) {
+      if (!explicit && !recursive) return;
+      const children = (await readdir(entry)).sort();
+      for (const child of children) {
+        await visit(path.join(entry, child), false);
+      }
+    } else if (explicit || IMAGE_EXTENSIONS.has(path.extname(entry).toLowerCase())) {
+      files.push(entry);
+    }
+  };
+  for (const entry of entries) {
+    await visit(entry, true);
+  }
+  return files;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'sampler': { type: 'string' },
+      'points': { type: 'string' },
+      'seed': { type: 'string' },
+      'edge-weight': { type: 'string' },
+      'target-error': { type: 'string' },
+      'density-mask': { type: 'string' },
+      'edge-blur': { type: 'string' },
+      'canny-low': { type: 'string' },
+      'canny-high': { type: 'string' },
+      'snap-contours': { type: 'boolean' },
+      'color-space': { type: 'string' },
+      'color-estimator': { type: 'string' },
+      'geometry': { type: 'string' },
+      'shading': { type: 'string' },
+      'palette-mode': { type: 'string' },
+      'palette-size': { type: 'string' },
+      'custom-palette': { type: 'string' },
+      'merge-regions': { type: 'boolean' },
+      'merge-tolerance': { type: 'string' },
+      'max-size': { type: 'string' },
+      'filters': { type: 'string' },
+      'min-opacity': { type: 'string' },
+      'with-neighbors': { type: 'boolean' },
+      'no-neighbors': { type: 'boolean' },
+      'out-dir': { type: 'string' },
+      'format': { type: 'string', default: 'json,svg' },
+      'stroke-color': { type: 'string' },
+      'stroke-width': { type: 'string' },
+      'stroke': { type: 'string' },
+      'gap': { type: 'string' },
+      'mesh-height': { type: 'string' },
+      'depth-map': { type: 'string' },
+      'mesh-depth': { type: 'string' },
+      'invert-height': { type: 'boolean' },
+      'mesh-base': { type: 'string' },
+      'mesh-size': { type: 'string' },
+      'mesh-colors': { type: 'string' },
+      'scale': { type: 'string' },
+      'long-side': { type: 'string' },
+      'dpi': { type: 'string' },
+      'background': { type: 'string' },
+      'samples': { type: 'string' },
+      'units': { type: 'string' },
+      'y-down': { type: 'boolean' },
+      'recursive': { type: 'boolean', default: false },
+      'sequence': { type: 'boolean', default: false },
+      'fps': { type: 'string' },
+      'lighting': { type: 'string' },
+      'relief': { type: 'string' },
+      'light-azimuth': { type: 'string' },
+      'light-elevation': { type: 'string' },
+      'light-intensity': { type: 'string' },
+      'light-ambient': { type: 'string' },
+      'help': { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help || positionals.length === 0) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const settings: Settings = {
+    ...DEFAULT_SETTINGS,
+    sampler: parseEnum('sampler', values['sampler'], Object.values(Sampler), DEFAULT_SETTINGS.sampler),
+    points: parseNumber('points', values['points'], DEFAULT_SETTINGS.points),
+    seed: parseNumber('seed', values['seed'], DEFAULT_SETTINGS.seed),
+    edgeWeight: parseNumber('edge-weight', values['edge-weight'], DEFAULT_SETTINGS.edgeWeight),
+    targetError: parseNumber('target-error', values['target-error'], DEFAULT_SETTINGS.targetError),
+    edgeBlur: parseNumber('edge-blur', values['edge-blur'], DEFAULT_SETTINGS.edgeBlur),
+    cannyLow: parseNumber('canny-low', values['canny-low'], DEFAULT_SETTINGS.cannyLow),
+    cannyHigh: parseNumber('canny-high', values['canny-high'], DEFAULT_SETTINGS.cannyHigh),
+    snapToContours: values['snap-contours'] ?? DEFAULT_SETTINGS.snapToContours,
+    colorSpace: parseEnum('color-space', values['color-space'], Object.values(ColorSpace), DEFAULT_SETTINGS.colorSpace),
+    colorEstimator: parseEnum('color-estimator', values['color-estimator'], Object.values(ColorEstimator), DEFAULT_SETTINGS.colorEstimator),
+    geometry: parseEnum('geometry', values['geometry'], [GeometryKind.TRIANGLES, GeometryKind.VORONOI], DEFAULT_SETTINGS.geometry),
+    shading: parseEnum('shading', values['shading'], Object.values(ShadingMode), DEFAULT_SETTINGS.shading),
+    paletteMode: parseEnum('palette-mode', values['palette-mode'], Object.values(PaletteMode), DEFAULT_SETTINGS.paletteMode),
+    paletteSize: parseNumber('palette-size', values['palette-size'], DEFAULT_SETTINGS.paletteSize),
+    customPalette: values['custom-palette']?.split(',').map(c => c.trim()) ?? DEFAULT_SETTINGS.customPalette,
+    mergeRegions: values['merge-regions'] ?? DEFAULT_SETTINGS.mergeRegions,
+    mergeTolerance: parseNumber('merge-tolerance', values['merge-tolerance'], DEFAULT_SETTINGS.mergeTolerance),
+    densityMask: values['density-mask']
+      ? maskFromImage(decodeImage(new Uint8Array(await readFile(values['density-mask']))))
+      : DEFAULT_SETTINGS.densityMask,
+    maxSize: parseNumber('max-size', values['max-size'], DEFAULT_SETTINGS.maxSize),
+    filters: parseFilters(values['filters']),
+    minOpacity: parseNumber('min-opacity', values['min-opacity'], DEFAULT_SETTINGS.minOpacity),
+    withNeighbors: values['no-neighbors'] ? false : values['with-neighbors'] ?? DEFAULT_SETTINGS.withNeighbors,
+    strokeMode: parseEnum('stroke', values['stroke'], Object.values(StrokeMode), DEFAULT_SETTINGS.strokeMode),
+    strokeColor: values['stroke-color'] ?? DEFAULT_SETTINGS.strokeColor,
+    strokeWidth: parseNumber('stroke-width', values['stroke-width'], DEFAULT_SETTINGS.strokeWidth),
+    gapSize: parseNumber('gap', values['gap'], DEFAULT_SETTINGS.gapSize),
+  };
+  if (!Number.isInteger(settings.points) || settings.points < 1) throw new UsageError('--points must be a positive whole number');
+  if (!Number.isInteger(settings.maxSize) || settings.maxSize < 1) throw new UsageError('--max-size must be a positive whole number of pixels');
+  if (!Number.isInteger(settings.paletteSize) || settings.paletteSize < 1) throw new UsageError('--palette-size must be a positive whole number');
+  if (settings.mergeTolerance < 0) throw new UsageError('--merge-tolerance must not be negative');
+  if (settings.gapSize < 0 || settings.gapSize > 0.5) throw new UsageError('--gap must be between 0 and 0.5');
+  if (settings.minOpacity < 0 || settings.minOpacity > 1) throw new UsageError('--min-opacity must be between 0 and 1');
+  if (!hexToRgb(settings.strokeColor)) throw new UsageError(`--stroke-color expects a hex color, got "${settings.strokeColor}"`);
+  const style = getRenderStyle(settings);
+  const formats = values.format!.split(',').map(f => f.trim()).filter(Boolean);
+  for (const format of formats) {
+    if (!FORMATS.includes(format)) throw new UsageError(`Unknown format "${format}"`);
+  }
+  const meshOptions: MeshOptions = {
+    heightSource: parseEnum<HeightSource>('mesh-height', values['mesh-height'], ['flat', 'luminance', 'edges', 'depth'], DEFAULT_MESH_OPTIONS.heightSource),
+    depth: parseNumber('mesh-depth', values['mesh-depth'], DEFAULT_MESH_OPTIONS.depth),
+    invertHeight: values['invert-height'] ?? DEFAULT_MESH_OPTIONS.invertHeight,
+    base: parseNumber('mesh-base', values['mesh-base'], DEFAULT_MESH_OPTIONS.base),
+    size: parseNumber('mesh-size', values['mesh-size'], DEFAULT_MESH_OPTIONS.size),
+    colors: parseEnum<MeshColorMode>('mesh-colors', values['mesh-colors'], ['face', 'vertex'], DEFAULT_MESH_OPTIONS.colors),
+  };
+  if (meshOptions.heightSource === 'depth' && !values['depth-map']) {
+    throw new UsageError('--mesh-height depth needs --depth-map');
+  }
+  const rasterOptions: RasterExportOptions = {
+    ...DEFAULT_RASTER_EXPORT_OPTIONS,
+    scale: parseNumber('scale', values['scale'], DEFAULT_RASTER_EXPORT_OPTIONS.scale),
+    dpi: parseNumber('dpi', values['dpi'], DEFAULT_RASTER_EXPORT_OPTIONS.dpi),
+    background: values['background'] ?? DEFAULT_RASTER_EXPORT_OPTIONS.background,
+    samples: parseNumber('samples', values['samples'], DEFAULT_RASTER_EXPORT_OPTIONS.samples),
+    style,
+  };
+  if (rasterOptions.scale <= 0) throw new UsageError('--scale must be positive');
+  if (rasterOptions.dpi <= 0) throw new UsageError('--dpi must be positive');
+  if (!Number.isInteger(rasterOptions.samples) || rasterOptions.samples < 1 || rasterOptions.samples > 4) {
+    throw new UsageError('--samples must be a whole number from 1 to 4');
+  }
+  if (rasterOptions.background && !hexToRgb(rasterOptions.background)) {
+    throw new UsageError(`--background expects a hex color, got "${rasterOptions.background}"`);
+  }
+  const engineOptions: EngineExportOptions = {
+    yUp: !values['y-down'],
+    units: parseEnum<EngineExportOptions['units']>('units', values['units'], ['normalized', 'pixels'], DEFAULT_ENGINE_EXPORT_OPTIONS.units),
+    colors: meshOptions.colors,
+  };
+  const longSide = values['long-side'] === undefined ? null : parseNumber('long-side', values['long-side'], 0);
+  if (longSide !== null && longSide <= 0) throw new UsageError('--long-side must be positive');
+  const depthMap = values['depth-map'] ? decodeImage(new Uint8Array(await readFile(values['depth-map']))) : null;
+  const fps = parseNumber('fps', values['fps'], 12);
+  if (fps <= 0) throw new UsageError('--fps must be positive');
+  const lighting: Lighting | null = values['lighting'] === undefined ? null : {
+    height_source: parseEnum<Lighting['height_source']>('lighting', values['lighting'], ['luminance', 'edges'], DEFAULT_LIGHTING.height_source),
+    relief: parseNumber('relief', values['relief'], DEFAULT_LIGHTING.relief),
+    azimuth: parseNumber('light-azimuth', values['light-azimuth'], DEFAULT_LIGHTING.azimuth),
+    elevation: parseNumber('light-elevation', values['light-elevation'], DEFAULT_LIGHTING.elevation),
+    intensity: parseNumber('light-intensity', values['light-intensity'], DEFAULT_LIGHTING.intensity),
+    ambient: parseNumber('light-ambient', values['light-ambient'], DEFAULT_LIGHTING.ambient),
+  };
+  if (lighting && (lighting.relief < 0 || lighting.intensity < 0 || lighting.ambient < 0)) {
+    throw new UsageError('--relief, --light-intensity and --light-ambient must not be negative');
+  }
+  const light = (output: LowPolyOutput, raster: RasterImage) => lighting ? applyLighting(output, raster, lighting) : output;
+
+  const inputs = await collectInputs(positionals, values.recursive!);
+  if (inputs.length === 0) throw new UsageError('No PNG or JPEG files found in the given inputs');
+  if (values['out-dir']) await mkdir(values['out-dir'], { recursive: true });
+
+  // `raster` is the image the output was colored from (getSourceRaster); mesh
+  // heights are read from it, as in the app
+  const writeOutputs = async (input: string, raster: RasterImage, output: LowPolyOutput) => {
+    const outDir = values['out-dir'] ?? path.dirname(input);
+    const baseName = path.join(outDir, path.parse(input).name);
+    if (formats.includes('json')) await writeFile(`${baseName}.json`, toJSONString(output));
+    if (formats.includes('indexed')) await writeFile(`${baseName}.indexed.json`, toIndexedJSONString(output));
+    if (formats.includes('lpix')) await writeFile(`${baseName}.lpix`, toIndexedBinary(output));
+    if (formats.includes('svg')) await writeFile(`${baseName}.svg`, toSVGString(output, style));
+    if (formats.includes('png')) {
+      const scale = longSide !== null ? longSide / Math.max(output.image.width, output.image.height) : rasterOptions.scale;
+      // Suffixed so PNG inputs aren't overwritten
+      await writeFile(`${baseName}-render.png`, Buffer.concat(await renderPng(output, { ...rasterOptions, scale })));
+    }
+    if (formats.some(f => f === 'obj' || f === 'glb' || f === 'stl')) {
+      const mesh = buildMesh(output, meshOptions, meshOptions.heightSource === 'depth' ? depthMap : raster);
+      if (formats.includes('obj')) {
+        const { obj, mtl } = toOBJ(mesh, meshOptions.colors, `${path.basename(baseName)}.mtl`);
+        await writeFile(`${baseName}.obj`, obj);
+        await writeFile(`${baseName}.mtl`, mtl);
+      }
+      if (formats.includes('glb')) await writeFile(`${baseName}.glb`, toGLB(mesh, meshOptions.colors));
+      if (formats.includes('stl')) await writeFile(`${baseName}.stl`, toSTL(mesh, meshOptions.colors));
+    }
+    if (formats.includes('three')) await writeFile(`${baseName}.three.json`, toThreeJSON(output, engineOptions));
+    if (formats.includes('godot')) await writeFile(`${baseName}.tres`, toGodotTres(output, engineOptions));
+    if (formats.includes('unity')) await writeFile(`${baseName}.unity.json`, toUnityJSON(output, engineOptions));
+  };
+
+  if (values.sequence) {
+    const startTime = performance.now();
+    const frames = await Promise.all(inputs.map(async input => decodeImage(new Uint8Array(await readFile(input)))));
+    const generated = generateSequence(frames, inputs.map(input => path.basename(input)), settings);
+    const rasters = generated.map((output, i) => getSourceRaster(frames[i], output));
+    const outputs = generated.map((output, i) => light(output, rasters[i]));
+    for (let i = 0; i < inputs.length; i++) await writeOutputs(inputs[i], rasters[i], outputs[i]);
+    const sequencePath = path.join(values['out-dir'] ?? path.dirname(inputs[0]), 'sequence.svg');
+    await writeFile(sequencePath, toSequenceSVGString(outputs, fps, style));
+    console.log(`${sequencePath}: ${outputs.length} frames in ${Math.round(performance.now() - startTime)}ms`);
+    return;
+  }
+
+  let failures = 0;
+  for (const input of inputs) {
+    const startTime = performance.now();
+    try {
+      const image = decodeImage(new Uint8Array(await readFile(input)));
+      const sourceFileName = path.basename(input);
+      const generated = generateLowPolyData(image, sourceFileName, settings);
+      const raster = getSourceRaster(image, generated);
+      const output = light(generated, raster);
+      await writeOutputs(input, raster, output);
+
+      const elapsed = Math.round(performance.now() - startTime);
+      const faces = output.merge
+        ? `${output.merge.regions} regions from ${output.merge.triangles} triangles (${Math.round(output.merge.reduction * 100)}% fewer vertices)`
+        : output.cells ? `${output.cells.length} cells` : `${output.triangles.length} triangles`;
+      console.log(`${input}: ${faces} in ${elapsed}ms`);
+    } catch (e) {
+      failures++;
+      console.error(`${input}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (failures > 0) process.exitCode = 1;
+};
+
+main().catch((e) => {
+  if (e instanceof UsageError || (e as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+    console.error(`Error: ${e.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else {
+    console.error(e);
+    process.exitCode = 1;
+  }
+});
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { LowPolyOutput } from '../types';
+import { Button, SpinnerIcon, describeFaces } from './ui';
+
+export type BatchStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface BatchItem {
+  id: number;
+  file: File;
+  status: BatchStatus;
+  // 0..1 while running
+  progress: number;
+  output: LowPolyOutput | null;
+  processingTime: number;
+  error: string | null;
+}
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  onRetry: (id: number) => void;
+  onOpen: (id: number) => void;
+  onClear: () => void;
+  onDownloadZip: (onProgress: (progress: number) => void) => Promise<void>;
+}
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  pending: 'Đang chờ',
+  running: 'Đang xử lý',
+  done: 'Xong',
+  error: 'Lỗi',
+};
+
+const STATUS_COLORS: Record<BatchStatus, string> = {
+  pending: 'text-gray-400',
+  running: 'text-indigo-300',
+  done: 'text-green-400',
+  error: 'text-red-400',
+};
+
+const describeItem = (item: BatchItem) => {
+  if (item.status === 'running') return `${STATUS_LABELS.running} ${Math.round(item.progress * 100)}%`;
+  if (item.status === 'done' && item.output) {
+    return `${describeFaces(item.output)} · ${Math.round(item.processingTime)}ms`;
+  }
+  return STATUS_LABELS[item.status];
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onRetry, onOpen, onClear, onDownloadZip }) => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const finished = items.filter(item => item.status === 'done').length;
+
+  const handleDownload = async () => {
+    setProgress(0);
+    try {
+      await onDownloadZip(setProgress);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium text-gray-300 block">Hàng đợi ({finished}/{items.length} xong)</span>
+      <ul className="space-y-1 max-h-64 overflow-y-auto">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center gap-2 bg-gray-700 rounded-md px-2 py-1 text-xs">
+            {item.status === 'running' && <SpinnerIcon className="w-3 h-3 animate-spin text-indigo-300 shrink-0" />}
+            <div className="flex-1 min-w-0">
+              <span className="block truncate text-gray-200" title={item.file.name}>{item.file.name}</span>
+              <span className={`block truncate ${STATUS_COLORS[item.status]}`} title={item.error ?? undefined}>
+                {describeItem(item)}{item.error ? `: ${item.error}` : ''}
+              </span>
+            </div>
+            {item.status === 'done' && (
+              <button className="text-indigo-300 hover:text-indigo-200" onClick={() => onOpen(item.id)}>Xem</button>
+            )}
+            {item.status === 'error' && (
+              <button className="text-indigo-300 hover:text-indigo-200" onClick={() => onRetry(item.id)}>Thử lại</button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="secondary" onClick={handleDownload} disabled={finished === 0 || progress !== null}>
+          {progress === null ? 'Tải ZIP' : `Đang nén... ${Math.round(progress * 100)}%`}
+        </Button>
+        <Button variant="secondary" onClick={onClear} disabled={progress !== null}>
+          Xóa hàng đợi
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,41 +1,104 @@
 
 
 import React from 'react';
-import { Settings, Sampler, ColorSpace } from '../types';
+import { Settings, Sampler, ColorSpace, ColorEstimator, ShadingMode, PaletteMode, GeometryKind } from '../types';
 import { Slider, Select, Checkbox, FileInput, Button, Section } from './ui';
-import { GithubIcon, DownloadIcon, PlayIcon, JsonIcon, SvgIcon, PngIcon, WandIcon } from './ui';
+import { PaletteEditor } from './PaletteEditor';
+import { PresetPicker } from './PresetPicker';
+import { FilterChainEditor } from './FilterChainEditor';
+import { MeshExportPanel, MeshFormat } from './MeshExportPanel';
+import { MeshOptions } from '../services/mesh';
+import { RasterExportPanel } from './RasterExportPanel';
+import { EngineExportPanel } from './EngineExportPanel';
+import { BatchQueue, BatchItem } from './BatchQueue';
+import { EngineFormat, EngineExportOptions } from '../services/engine';
+import { RasterExportOptions } from '../services/render';
+import { RenderStyle } from '../services/export';
+import { hexToRgb, rgbToHex } from '../services/palette';
+import { GithubIcon, DownloadIcon, PlayIcon, StopIcon, JsonIcon, SvgIcon, PngIcon, WandIcon } from './ui';
 
 interface ControlPanelProps {
   settings: Settings;
   setSettings: React.Dispatch<React.SetStateAction<Settings>>;
   onFileChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  batch: BatchItem[];
+  onBatchRetry: (id: number) => void;
+  onBatchOpen: (id: number) => void;
+  onBatchClear: () => void;
+  onDownloadBatch: (onProgress: (progress: number) => void) => Promise<void>;
+  onJsonFileChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onDensityGuideChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
   onGenerate: () => void;
+  onCancel: () => void;
   onDownloadJSON: () => void;
+  onDownloadIndexed: (format: 'json' | 'binary') => void;
+  onDownloadEngine: (format: EngineFormat, options: EngineExportOptions) => void;
   onDownloadSVG: () => void;
   onDownloadPNG: () => void;
+  onDownloadMesh: (format: MeshFormat, options: MeshOptions) => void;
+  onDownloadRaster: (options: RasterExportOptions, onProgress: (progress: number) => void) => Promise<void>;
+  imageSize: [number, number] | null;
+  renderStyle: RenderStyle;
+  onDepthMapChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  depthMapLoaded: boolean;
+  palette: [number, number, number][] | null;
+  onPaletteChange: (palette: [number, number, number][]) => void;
+  onPaletteRemap: (palette: [number, number, number][]) => void;
   hasData: boolean;
   isGenerating: boolean;
   sourceImageLoaded: boolean;
   sourceImageSrc: string | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onCopyLink: () => void;
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   settings,
   setSettings,
   onFileChange,
+  batch,
+  onBatchRetry,
+  onBatchOpen,
+  onBatchClear,
+  onDownloadBatch,
+  onJsonFileChange,
+  onDensityGuideChange,
   onGenerate,
+  onCancel,
   onDownloadJSON,
+  onDownloadIndexed,
+  onDownloadEngine,
   onDownloadSVG,
   onDownloadPNG,
+  onDownloadMesh,
+  onDownloadRaster,
+  imageSize,
+  renderStyle,
+  onDepthMapChange,
+  depthMapLoaded,
+  palette,
+  onPaletteChange,
+  onPaletteRemap,
   hasData,
   isGenerating,
   sourceImageLoaded,
   sourceImageSrc,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onCopyLink,
 }) => {
   const handleSettingChange = <K extends keyof Settings,>(key: K, value: Settings[K]) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
   
+  const toRgbList = (colors: string[]) =>
+    colors.map(hexToRgb).filter((c): c is [number, number, number] => c !== null);
+
   const randomizeSeed = () => {
     handleSettingChange('seed', Math.floor(Math.random() * 100000));
   };
@@ -52,9 +115,36 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         </a>
       </header>
 
+      <div className="flex gap-2">
+        <Button variant="secondary" className="flex-1" onClick={onUndo} disabled={!canUndo} title="Hoàn tác (Ctrl+Z)">
+          ↶ Hoàn tác
+        </Button>
+        <Button variant="secondary" className="flex-1" onClick={onRedo} disabled={!canRedo} title="Làm lại (Ctrl+Shift+Z)">
+          ↷ Làm lại
+        </Button>
+        <Button variant="secondary" onClick={onCopyLink} title="Sao chép liên kết chứa toàn bộ cài đặt">
+          Sao chép liên kết
+        </Button>
+      </div>
+
       <Section title="1. Hình ảnh đầu vào" defaultOpen>
         <div className="space-y-4">
-          <FileInput onChange={onFileChange} />
+          <FileInput onChange={onFileChange} label="Chọn một hoặc nhiều hình ảnh..." multiple />
+          <FileInput
+            id="json-upload"
+            label="Mở tệp đã lưu (JSON hoặc .lpix)..."
+            accept="application/json, .json, .lpix"
+            onChange={onJsonFileChange}
+          />
+          {batch.length > 0 && (
+            <BatchQueue
+              items={batch}
+              onRetry={onBatchRetry}
+              onOpen={onBatchOpen}
+              onClear={onBatchClear}
+              onDownloadZip={onDownloadBatch}
+            />
+          )}
           {sourceImageSrc && (
             <div>
               <span className="text-xs text-gray-400 block mb-2">Xem trước:</span>
@@ -70,6 +160,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
 
       <Section title="2. Cài đặt tạo hình" defaultOpen>
         <div className="space-y-4">
+          <PresetPicker settings={settings} onApply={setSettings} />
           <Slider
             label="Kích thước ảnh tối đa"
             min={256}
@@ -79,6 +170,22 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             onChange={(v) => handleSettingChange('maxSize', v)}
             unit="px"
           />
+          <div className="space-y-2">
+            <span className="text-sm font-medium text-gray-300 block">Tiền xử lý ảnh</span>
+            <p className="text-xs text-gray-400">Chạy trên ảnh đã thu nhỏ, trước khi dò cạnh và lấy màu. Xem trước ở thẻ “Tiền xử lý”.</p>
+            <FilterChainEditor filters={settings.filters} onChange={(filters) => handleSettingChange('filters', filters)} />
+          </div>
+          <div>
+            <Slider
+              label="Độ mờ đục tối thiểu"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.minOpacity}
+              onChange={(v) => handleSettingChange('minOpacity', v)}
+            />
+            <p className="text-xs text-gray-400 mt-1">Với ảnh PNG có nền trong suốt: bỏ các tam giác trong suốt hơn mức này.</p>
+          </div>
           <Slider
             label="Số lượng điểm"
             min={100}
@@ -95,6 +202,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               { value: Sampler.EDGE_AWARE, label: 'Nhận biết cạnh' },
               { value: Sampler.POISSON, label: 'Đĩa Poisson' },
               { value: Sampler.GRID, label: 'Lưới' },
+              { value: Sampler.ADAPTIVE, label: 'Tinh chỉnh thích ứng' },
             ]}
           />
           {settings.sampler === Sampler.EDGE_AWARE && (
@@ -107,6 +215,49 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               onChange={(v) => handleSettingChange('edgeWeight', v)}
             />
           )}
+          <Checkbox
+            label="Bám đỉnh theo đường viền"
+            checked={settings.snapToContours}
+            onChange={(c) => handleSettingChange('snapToContours', c)}
+          />
+          {(settings.sampler === Sampler.EDGE_AWARE || settings.snapToContours) && (
+            <div className="space-y-4 pl-3 border-l-2 border-gray-700">
+              <Slider
+                label="Làm mờ Gaussian (sigma)"
+                min={0}
+                max={4}
+                step={0.2}
+                value={settings.edgeBlur}
+                onChange={(v) => handleSettingChange('edgeBlur', v)}
+              />
+              <Slider
+                label="Ngưỡng cạnh thấp"
+                min={0}
+                max={255}
+                step={1}
+                value={settings.cannyLow}
+                onChange={(v) => handleSettingChange('cannyLow', Math.min(v, settings.cannyHigh))}
+              />
+              <Slider
+                label="Ngưỡng cạnh cao"
+                min={0}
+                max={255}
+                step={1}
+                value={settings.cannyHigh}
+                onChange={(v) => handleSettingChange('cannyHigh', Math.max(v, settings.cannyLow))}
+              />
+            </div>
+          )}
+          {settings.sampler === Sampler.ADAPTIVE && (
+            <Slider
+              label="Sai số màu mục tiêu"
+              min={0}
+              max={40}
+              step={1}
+              value={settings.targetError}
+              onChange={(v) => handleSettingChange('targetError', v)}
+            />
+          )}
           <div className="flex items-center space-x-2">
             <label className="block text-sm font-medium text-gray-300 w-full">
               Seed ngẫu nhiên
@@ -121,6 +272,37 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               <WandIcon className="w-5 h-5" />
             </button>
           </div>
+          <div className="space-y-2">
+            <FileInput
+              id="density-upload"
+              label="Ảnh hướng dẫn mật độ..."
+              onChange={onDensityGuideChange}
+            />
+            {settings.densityMask ? (
+              <div className="flex items-center justify-between text-sm text-gray-300">
+                <span>Đang dùng mặt nạ mật độ</span>
+                <button
+                  onClick={() => handleSettingChange('densityMask', null)}
+                  className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md text-xs"
+                >
+                  Xóa mặt nạ
+                </button>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400">Sáng: thêm chi tiết, tối: bớt chi tiết. Cũng có thể vẽ trong khung xem trước.</p>
+            )}
+          </div>
+          {settings.lockedPoints.length > 0 && (
+            <div className="flex items-center justify-between text-sm text-gray-300">
+              <span>{settings.lockedPoints.length} đỉnh khóa được giữ khi tạo lại</span>
+              <button
+                onClick={() => handleSettingChange('lockedPoints', [])}
+                className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md text-xs"
+              >
+                Bỏ khóa
+              </button>
+            </div>
+          )}
            <Select
             label="Không gian màu"
             value={settings.colorSpace}
@@ -130,10 +312,86 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               { value: ColorSpace.RGB, label: 'RGB (Trực tiếp)' },
             ]}
           />
+          <Select
+            label="Cách lấy màu"
+            value={settings.colorEstimator}
+            onChange={(v) => handleSettingChange('colorEstimator', v as ColorEstimator)}
+            options={[
+              { value: ColorEstimator.MEAN, label: 'Trung bình' },
+              { value: ColorEstimator.MEDIAN, label: 'Trung vị' },
+              { value: ColorEstimator.DOMINANT, label: 'Màu chiếm ưu thế' },
+              { value: ColorEstimator.CENTROID, label: 'Điểm tại trọng tâm' },
+              { value: ColorEstimator.TRIMMED_MEAN, label: 'Trung bình cắt tỉa' },
+            ]}
+          />
+          <Select
+            label="Dạng hình học"
+            value={settings.geometry}
+            onChange={(v) => handleSettingChange('geometry', v as GeometryKind)}
+            options={[
+              { value: GeometryKind.TRIANGLES, label: 'Tam giác Delaunay' },
+              { value: GeometryKind.VORONOI, label: 'Ô Voronoi' },
+            ]}
+          />
+          {settings.geometry === GeometryKind.TRIANGLES && (
+            <Select
+              label="Kiểu tô màu"
+              value={settings.shading}
+              onChange={(v) => handleSettingChange('shading', v as ShadingMode)}
+              options={[
+                { value: ShadingMode.FLAT, label: 'Phẳng (màu trung bình)' },
+                { value: ShadingMode.GRADIENT, label: 'Chuyển sắc theo đỉnh' },
+              ]}
+            />
+          )}
+          <Select
+            label="Bảng màu"
+            value={settings.paletteMode}
+            onChange={(v) => handleSettingChange('paletteMode', v as PaletteMode)}
+            options={[
+              { value: PaletteMode.NONE, label: 'Không giới hạn' },
+              { value: PaletteMode.KMEANS, label: 'K-means (CIELAB)' },
+              { value: PaletteMode.CUSTOM, label: 'Bảng màu tùy chỉnh' },
+            ]}
+          />
+          {settings.paletteMode === PaletteMode.KMEANS && (
+            <Slider
+              label="Số màu"
+              min={2}
+              max={32}
+              step={1}
+              value={settings.paletteSize}
+              onChange={(v) => handleSettingChange('paletteSize', v)}
+            />
+          )}
+          {settings.paletteMode === PaletteMode.CUSTOM && (
+            <PaletteEditor
+              colors={settings.customPalette}
+              onChange={(colors) => handleSettingChange('customPalette', colors)}
+              editableSize
+            />
+          )}
+          {settings.geometry === GeometryKind.TRIANGLES && (
+            <Checkbox
+              label="Gộp tam giác cùng màu thành vùng"
+              checked={settings.mergeRegions}
+              onChange={(c) => handleSettingChange('mergeRegions', c)}
+            />
+          )}
+          {settings.geometry === GeometryKind.TRIANGLES && settings.mergeRegions && (
+            <Slider
+              label="Ngưỡng sai khác màu (ΔE)"
+              min={1}
+              max={30}
+              step={1}
+              value={settings.mergeTolerance}
+              onChange={(v) => handleSettingChange('mergeTolerance', v)}
+            />
+          )}
         </div>
       </Section>
       
-      <div className="pt-4">
+      <div className="pt-4 flex gap-2">
         <Button 
           onClick={onGenerate} 
           disabled={isGenerating || !sourceImageLoaded} 
@@ -142,6 +400,12 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           <PlayIcon className="w-5 h-5 mr-2" />
           {isGenerating ? 'Đang tạo...' : 'Tạo hình'}
         </Button>
+        {isGenerating && (
+          <Button variant="secondary" onClick={onCancel}>
+            <StopIcon className="w-5 h-5 mr-2" />
+            Hủy
+          </Button>
+        )}
       </div>
 
       <Section title="3. Đầu ra & Xem trước" defaultOpen>
@@ -151,16 +415,28 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 checked={settings.withNeighbors}
                 onChange={(c) => handleSettingChange('withNeighbors', c)}
                 />
-            <Checkbox
-                label="Hiển thị viền xem trước"
-                checked={settings.previewOutline}
-                onChange={(c) => handleSettingChange('previewOutline', c)}
-                />
             <Checkbox
                 label="Hiển thị ID tam giác"
                 checked={settings.showPointIds}
                 onChange={(c) => handleSettingChange('showPointIds', c)}
             />
+            {palette && (
+              <div className="pt-2 space-y-2">
+                <span className="text-sm font-medium text-gray-300 block">Bảng màu của kết quả</span>
+                <PaletteEditor
+                  colors={palette.map(rgbToHex)}
+                  onChange={(colors) => onPaletteChange(toRgbList(colors))}
+                />
+                <Button
+                  variant="secondary"
+                  className="w-full"
+                  onClick={() => onPaletteRemap(toRgbList(settings.customPalette))}
+                  disabled={toRgbList(settings.customPalette).length === 0}
+                >
+                  Đổi sang bảng màu tùy chỉnh
+                </Button>
+              </div>
+            )}
             <div className="pt-4 space-y-2">
                  <h3 className="text-lg font-semibold flex items-center gap-2">
                     <DownloadIcon className="w-5 h-5" />
@@ -180,9 +456,39 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                         PNG
                      </Button>
                  </div>
+                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                     <Button variant="secondary" onClick={() => onDownloadIndexed('json')} disabled={!hasData || isGenerating} title="Đỉnh dùng chung, mảng chỉ mục, không thụt lề">
+                        <JsonIcon className="w-4 h-4 mr-2" />
+                        JSON gọn
+                     </Button>
+                     <Button variant="secondary" onClick={() => onDownloadIndexed('binary')} disabled={!hasData || isGenerating} title="Mảng nhị phân đọc trực tiếp thành typed array">
+                        Nhị phân (.lpix)
+                     </Button>
+                 </div>
+                 <div className="pt-2">
+                     <EngineExportPanel onExport={onDownloadEngine} disabled={!hasData || isGenerating} />
+                 </div>
             </div>
         </div>
       </Section>
+
+      <Section title="4. Ảnh độ phân giải cao">
+        <RasterExportPanel
+          imageSize={imageSize}
+          renderStyle={renderStyle}
+          onExport={onDownloadRaster}
+          disabled={!hasData || isGenerating}
+        />
+      </Section>
+
+      <Section title="5. Mô hình 3D">
+        <MeshExportPanel
+          onExport={onDownloadMesh}
+          onDepthMapChange={onDepthMapChange}
+          depthMapLoaded={depthMapLoaded}
+          disabled={!hasData || isGenerating}
+        />
+      </Section>
     </aside>
   );
 };
\ No newline at end of file
@@ -0,0 +1,86 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { DensityMask } from '../types';
+import { createMask, decodeMaskCells, getMaskSize, paintMask, NEUTRAL_DENSITY } from '../services/density';
+
+export type DensityBrush = 'add' | 'remove';
+
+interface DensityPainterProps {
+  image: HTMLImageElement;
+  mask: DensityMask | null;
+  brush: DensityBrush;
+  // Brush radius as a fraction of the image's longest side
+  brushSize: number;
+  onChange: (mask: DensityMask) => void;
+}
+
+// How far one dab moves a cell at the brush center
+const BRUSH_STRENGTH = 24;
+
+// Shows the source image with the mask tinted on top: red where detail is added,
+// blue where it is removed. Strokes are painted locally and committed on release.
+export const DensityPainter: React.FC<DensityPainterProps> = ({ image, mask, brush, brushSize, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const paintingRef = useRef(false);
+
+  const [width, height] = mask ? [mask.width, mask.height] : getMaskSize(image.naturalWidth, image.naturalHeight);
+  // A working copy; the settings only change when a stroke ends
+  const cells = useMemo(
+    () => (mask ? decodeMaskCells(mask) : new Uint8Array(width * height).fill(NEUTRAL_DENSITY)),
+    [mask, width, height]
+  );
+
+  const draw = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const tint = ctx.createImageData(width, height);
+    cells.forEach((value, i) => {
+      const amount = (value - NEUTRAL_DENSITY) / (value > NEUTRAL_DENSITY ? 127 : 128);
+      tint.data.set(amount > 0 ? [239, 68, 68] : [59, 130, 246], i * 4);
+      tint.data[i * 4 + 3] = Math.round(Math.abs(amount) * 150);
+    });
+    ctx.putImageData(tint, 0, 0);
+  };
+
+  useEffect(draw, [cells]);
+
+  const paintAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const u = (event.clientX - rect.left) / rect.width;
+    const v = (event.clientY - rect.top) / rect.height;
+    paintMask(cells, width, height, u, v, brushSize, brush === 'add' ? BRUSH_STRENGTH : -BRUSH_STRENGTH);
+    draw();
+  };
+
+  const handleDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    paintingRef.current = true;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    paintAt(event);
+  };
+
+  const handleMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (paintingRef.current) paintAt(event);
+  };
+
+  const handleUp = () => {
+    if (!paintingRef.current) return;
+    paintingRef.current = false;
+    onChange(createMask(width, height, cells));
+  };
+
+  return (
+    <div className="relative inline-block max-w-full">
+      <img src={image.src} alt="Source" className="block max-w-full max-h-[70vh] rounded-lg" />
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="absolute inset-0 w-full h-full rounded-lg cursor-crosshair"
+        style={{ touchAction: 'none' }}
+        onPointerDown={handleDown}
+        onPointerMove={handleMove}
+        onPointerUp={handleUp}
+        onPointerCancel={handleUp}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { Select, Checkbox, Button } from './ui';
+import { EngineFormat, EngineExportOptions, DEFAULT_ENGINE_EXPORT_OPTIONS } from '../services/engine';
+import { MeshColorMode } from '../services/mesh';
+
+interface EngineExportPanelProps {
+  onExport: (format: EngineFormat, options: EngineExportOptions) => void;
+  disabled: boolean;
+}
+
+export const EngineExportPanel: React.FC<EngineExportPanelProps> = ({ onExport, disabled }) => {
+  const [options, setOptions] = useState<EngineExportOptions>(DEFAULT_ENGINE_EXPORT_OPTIONS);
+  const update = <K extends keyof EngineExportOptions,>(key: K, value: EngineExportOptions[K]) => setOptions(prev => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium text-gray-300 block">Lưới cho game engine</span>
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          label="Đơn vị"
+          value={options.units}
+          onChange={(v) => update('units', v as EngineExportOptions['units'])}
+          options={[
+            { value: 'normalized', label: 'Chuẩn hóa (cạnh dài = 1)' },
+            { value: 'pixels', label: 'Điểm ảnh' },
+          ]}
+        />
+        <Select
+          label="Màu đỉnh"
+          value={options.colors}
+          onChange={(v) => update('colors', v as MeshColorMode)}
+          options={[
+            { value: 'face', label: 'Theo mặt' },
+            { value: 'vertex', label: 'Pha trộn' },
+          ]}
+        />
+      </div>
+      <Checkbox label="Trục Y hướng lên" checked={options.yUp} onChange={(c) => update('yUp', c)} />
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <Button variant="secondary" onClick={() => onExport('three', options)} disabled={disabled}>Three.js</Button>
+        <Button variant="secondary" onClick={() => onExport('godot', options)} disabled={disabled}>Godot</Button>
+        <Button variant="secondary" onClick={() => onExport('unity', options)} disabled={disabled}>Unity</Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { ImageFilter, ImageFilterType } from '../types';
+import { DEFAULT_FILTERS, MAX_FILTER_RADIUS } from '../services/preprocess';
+import { Slider } from './ui';
+
+interface FilterChainEditorProps {
+  filters: ImageFilter[];
+  onChange: (filters: ImageFilter[]) => void;
+}
+
+interface ParamSlider {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const amount = (label: string): ParamSlider[] => [{ key: 'amount', label, min: -1, max: 1, step: 0.05 }];
+
+const FILTERS: Record<ImageFilterType, { label: string; params: ParamSlider[] }> = {
+  bilateral: {
+    label: 'Làm mịn giữ cạnh',
+    params: [
+      { key: 'radius', label: 'Bán kính', min: 1, max: MAX_FILTER_RADIUS, step: 1 },
+      { key: 'range', label: 'Ngưỡng khác biệt màu', min: 5, max: 100, step: 5 },
+    ],
+  },
+  median: { label: 'Lọc trung vị', params: [{ key: 'radius', label: 'Bán kính', min: 1, max: MAX_FILTER_RADIUS, step: 1 }] },
+  brightness: { label: 'Độ sáng', params: amount('Mức') },
+  contrast: { label: 'Độ tương phản', params: amount('Mức') },
+  saturation: { label: 'Độ bão hòa', params: amount('Mức') },
+  temperature: { label: 'Nhiệt độ màu', params: amount('Lạnh ← → Ấm') },
+  gamma: { label: 'Gamma', params: [{ key: 'gamma', label: 'Gamma', min: 0.2, max: 3, step: 0.05 }] },
+  posterize: { label: 'Giảm số mức màu', params: [{ key: 'levels', label: 'Số mức mỗi kênh', min: 2, max: 32, step: 1 }] },
+};
+
+// Ordered list of pre-processing filters; each runs on the previous one's result
+export const FilterChainEditor: React.FC<FilterChainEditorProps> = ({ filters, onChange }) => {
+  const update = (index: number, filter: ImageFilter) => onChange(filters.map((f, i) => (i === index ? filter : f)));
+  const move = (index: number, offset: number) => {
+    const next = [...filters];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {filters.map((filter, index) => (
+        <div key={index} className="bg-gray-700/50 rounded-md p-2 space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="flex-1 font-medium text-gray-200">{index + 1}. {FILTERS[filter.type].label}</span>
+            <button className="text-gray-400 hover:text-white disabled:opacity-30" onClick={() => move(index, -1)} disabled={index === 0} title="Chạy sớm hơn">↑</button>
+            <button className="text-gray-400 hover:text-white disabled:opacity-30" onClick={() => move(index, 1)} disabled={index === filters.length - 1} title="Chạy muộn hơn">↓</button>
+            <button className="text-gray-400 hover:text-red-400" onClick={() => onChange(filters.filter((_, i) => i !== index))} title="Xóa bộ lọc">×</button>
+          </div>
+          {FILTERS[filter.type].params.map(param => (
+            <Slider
+              key={param.key}
+              label={param.label}
+              min={param.min}
+              max={param.max}
+              step={param.step}
+              value={(filter as unknown as Record<string, number>)[param.key]}
+              onChange={(v) => update(index, { ...filter, [param.key]: v })}
+            />
+          ))}
+        </div>
+      ))}
+      <select
+        value=""
+        onChange={(e) => e.target.value && onChange([...filters, DEFAULT_FILTERS[e.target.value as ImageFilterType]])}
+        className="block w-full pl-3 pr-10 py-2 text-sm bg-gray-700 border-gray-600 rounded-md text-white"
+      >
+        <option value="">Thêm bộ lọc...</option>
+        {(Object.keys(FILTERS) as ImageFilterType[]).map(type => (
+          <option key={type} value={type}>{FILTERS[type].label}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
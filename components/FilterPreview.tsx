@@ -0,0 +1,58 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageFilter, RasterImage } from '../types';
+import { scaleImageData } from '../services/lowpoly';
+import { applyFilters } from '../services/preprocess';
+
+interface FilterPreviewProps {
+  source: RasterImage;
+  filters: ImageFilter[];
+  // The size the generator scales to; smoothing radii are in those pixels
+  maxSize: number;
+}
+
+// Filtering runs on the main thread, so slider drags are only followed once they pause
+const UPDATE_DELAY_MS = 150;
+
+// The scaled source with the filter chain applied, compared side by side with
+// the unfiltered image by dragging the divider
+export const FilterPreview: React.FC<FilterPreviewProps> = ({ source, filters, maxSize }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [split, setSplit] = useState(0.5);
+  const [images, setImages] = useState<{ before: RasterImage; after: RasterImage } | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const before = scaleImageData(source, maxSize);
+      setImages({ before, after: applyFilters(before, filters) });
+    }, UPDATE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [source, filters, maxSize]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !images) return;
+    const { width, height } = images.before;
+    canvas.width = width;
+    canvas.height = height;
+    const splitX = Math.round(width * split);
+    ctx.putImageData(new ImageData(images.before.data, width, height), 0, 0);
+    ctx.putImageData(new ImageData(images.after.data, width, height), 0, 0, splitX, 0, width - splitX, height);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(splitX - 1, 0, 2, height);
+  }, [images, split]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <canvas ref={canvasRef} className="max-w-full max-h-[60vh] rounded-lg shadow-lg self-start" />
+      <div className="flex gap-3 items-center text-sm text-gray-300">
+        <span>Trước</span>
+        <input type="range" min={0} max={1} step={0.01} value={split} onChange={e => setSplit(Number(e.target.value))} className="flex-1" />
+        <span>Sau</span>
+      </div>
+      {filters.length === 0 && (
+        <p className="text-sm text-gray-400">Chưa có bộ lọc nào. Thêm bộ lọc trong mục “Tiền xử lý ảnh” để làm mịn nhiễu hoặc chỉnh màu trước khi tạo hình.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Lighting } from '../types';
+import { DEFAULT_LIGHTING } from '../services/lighting';
+
+interface LightingPanelProps {
+  // null while the result is unlit
+  lighting: Lighting | null;
+  onChange: (lighting: Lighting | null) => void;
+}
+
+const SLIDERS: { key: 'relief' | 'azimuth' | 'elevation' | 'intensity' | 'ambient'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'relief', label: 'Độ nổi', min: 0, max: 0.3, step: 0.01 },
+  { key: 'azimuth', label: 'Hướng sáng', min: 0, max: 360, step: 5 },
+  { key: 'elevation', label: 'Độ cao', min: 5, max: 90, step: 1 },
+  { key: 'intensity', label: 'Cường độ', min: 0, max: 2, step: 0.05 },
+  { key: 'ambient', label: 'Ánh sáng nền', min: 0, max: 1, step: 0.05 },
+];
+
+export const LightingPanel: React.FC<LightingPanelProps> = ({ lighting, onChange }) => (
+  <div className="flex flex-wrap gap-4 items-center mb-2 text-sm text-gray-300">
+    <label className="flex items-center gap-2">
+      <input
+        type="checkbox"
+        checked={lighting !== null}
+        onChange={e => onChange(e.target.checked ? DEFAULT_LIGHTING : null)}
+      />
+      Ánh sáng
+    </label>
+    {lighting && (
+      <>
+        <label className="flex items-center gap-2">
+          Độ cao theo
+          <select
+            value={lighting.height_source}
+            onChange={e => onChange({ ...lighting, height_source: e.target.value as Lighting['height_source'] })}
+            className="bg-gray-700 rounded px-2 py-1"
+          >
+            <option value="luminance">Độ sáng</option>
+            <option value="edges">Độ mạnh cạnh</option>
+          </select>
+        </label>
+        {SLIDERS.map(slider => (
+          <label key={slider.key} className="flex items-center gap-2">
+            {slider.label}
+            <input
+              type="range"
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              value={lighting[slider.key]}
+              onChange={e => onChange({ ...lighting, [slider.key]: Number(e.target.value) })}
+              className="w-24"
+            />
+            <span className="w-10 text-center">{lighting[slider.key]}</span>
+          </label>
+        ))}
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Slider, Select, Checkbox, FileInput, Button } from './ui';
+import { MeshOptions, HeightSource, MeshColorMode, DEFAULT_MESH_OPTIONS } from '../services/mesh';
+
+export type MeshFormat = 'obj' | 'glb' | 'stl';
+
+interface MeshExportPanelProps {
+  onExport: (format: MeshFormat, options: MeshOptions) => void;
+  onDepthMapChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  depthMapLoaded: boolean;
+  disabled: boolean;
+}
+
+export const MeshExportPanel: React.FC<MeshExportPanelProps> = ({ onExport, onDepthMapChange, depthMapLoaded, disabled }) => {
+  const [options, setOptions] = useState<MeshOptions>(DEFAULT_MESH_OPTIONS);
+  const update = <K extends keyof MeshOptions,>(key: K, value: MeshOptions[K]) => setOptions(prev => ({ ...prev, [key]: value }));
+  const missingDepthMap = options.heightSource === 'depth' && !depthMapLoaded;
+
+  return (
+    <div className="space-y-4">
+      <Select
+        label="Độ cao đỉnh theo"
+        value={options.heightSource}
+        onChange={(v) => update('heightSource', v as HeightSource)}
+        options={[
+          { value: 'flat', label: 'Phẳng (không nâng)' },
+          { value: 'luminance', label: 'Độ sáng ảnh' },
+          { value: 'edges', label: 'Độ mạnh cạnh' },
+          { value: 'depth', label: 'Bản đồ độ sâu' },
+        ]}
+      />
+      {options.heightSource === 'depth' && (
+        <FileInput id="depth-upload" label={depthMapLoaded ? 'Đổi bản đồ độ sâu...' : 'Tải bản đồ độ sâu...'} onChange={onDepthMapChange} />
+      )}
+      {options.heightSource !== 'flat' && (
+        <>
+          <Slider
+            label="Độ cao tối đa (% kích thước)"
+            min={1}
+            max={30}
+            step={1}
+            value={Math.round(options.depth * 100)}
+            onChange={(v) => update('depth', v / 100)}
+            unit="%"
+          />
+          <Checkbox label="Đảo chiều độ cao" checked={options.invertHeight} onChange={(c) => update('invertHeight', c)} />
+        </>
+      )}
+      <Slider
+        label="Độ dày đế (% kích thước, 0 = bề mặt hở)"
+        min={0}
+        max={10}
+        step={1}
+        value={Math.round(options.base * 100)}
+        onChange={(v) => update('base', v / 100)}
+        unit="%"
+      />
+      <label className="block text-sm font-medium text-gray-300">
+        Cạnh dài nhất (mm với STL/OBJ, m với glTF)
+        <input
+          type="number"
+          min={1}
+          value={options.size}
+          onChange={(e) => update('size', Math.max(1, Number(e.target.value) || 1))}
+          className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-white"
+        />
+      </label>
+      <Select
+        label="Màu"
+        value={options.colors}
+        onChange={(v) => update('colors', v as MeshColorMode)}
+        options={[
+          { value: 'face', label: 'Theo mặt (vật liệu)' },
+          { value: 'vertex', label: 'Theo đỉnh (pha trộn)' },
+        ]}
+      />
+      <div className="grid grid-cols-3 gap-2">
+        <Button variant="secondary" onClick={() => onExport('obj', options)} disabled={disabled || missingDepthMap}>OBJ</Button>
+        <Button variant="secondary" onClick={() => onExport('glb', options)} disabled={disabled || missingDepthMap}>GLB</Button>
+        <Button variant="secondary" onClick={() => onExport('stl', options)} disabled={disabled || missingDepthMap}>STL</Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LowPolyOutput } from '../types';
+import { RenderStyle, toRGB, styleFaces, getFaceStroke } from '../services/export';
+import {
+  MorphOptions,
+  MorphEasing,
+  DEFAULT_MORPH_OPTIONS,
+  buildMorph,
+  getMorphFaces,
+  getMorphProgress,
+  toAnimatedSVGString,
+  toMorphFramesZip,
+} from '../services/morph';
+import { getOutputBaseName } from '../services/batch';
+
+interface MorphPlayerProps {
+  start: LowPolyOutput;
+  end: LowPolyOutput;
+  renderStyle: RenderStyle;
+  onDownload: (blob: Blob, filename: string) => void;
+}
+
+const EASINGS: { key: MorphEasing; label: string }[] = [
+  { key: 'ease-in-out', label: 'Chậm - nhanh - chậm' },
+  { key: 'linear', label: 'Đều' },
+];
+
+export const MorphPlayer: React.FC<MorphPlayerProps> = ({ start, end, renderStyle, onDownload }) => {
+  const [options, setOptions] = useState<MorphOptions>(DEFAULT_MORPH_OPTIONS);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const frameRef = useRef<number | null>(null);
+
+  const morph = useMemo(() => buildMorph(start, end), [start, end]);
+  const baseName = `${getOutputBaseName(start.image.source)}-${getOutputBaseName(end.image.source)}-morph`;
+  const period = options.pingPong ? 2 * options.duration : options.duration;
+  const progress = getMorphProgress({ ...options, loop: false }, time);
+  const faces = styleFaces(getMorphFaces(morph, progress), renderStyle);
+
+  // Playback advances the scrubber; it wraps around when looping, otherwise stops at the end
+  useEffect(() => {
+    if (!playing) return;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const elapsed = (now - last) / 1000;
+      last = now;
+      setTime(prev => {
+        const next = prev + elapsed;
+        if (next < period) return next;
+        return options.loop ? next % period : period;
+      });
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, [playing, period, options.loop]);
+
+  useEffect(() => {
+    if (playing && !options.loop && time >= period) setPlaying(false);
+  }, [playing, time, period, options.loop]);
+
+  const updateOptions = (changes: Partial<MorphOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+    setTime(0);
+  };
+
+  const handlePlay = () => {
+    if (!playing && time >= period) setTime(0);
+    setPlaying(!playing);
+  };
+
+  const handleDownloadSVG = () => {
+    onDownload(new Blob([toAnimatedSVGString(morph, options, renderStyle)], { type: 'image/svg+xml' }), `${baseName}.svg`);
+  };
+
+  // Encoding runs on the main thread; the timeout lets the button show its busy state first
+  const handleDownloadFrames = () => {
+    setExporting(true);
+    setTimeout(() => {
+      try {
+        onDownload(new Blob([toMorphFramesZip(morph, options, renderStyle)], { type: 'application/zip' }), `${baseName}-frames.zip`);
+      } finally {
+        setExporting(false);
+      }
+    }, 0);
+  };
+
+  const buttonClasses = 'px-3 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        viewBox={`0 0 ${morph.width} ${morph.height}`}
+        className="max-w-full max-h-[60vh] rounded-lg shadow-lg bg-gray-900"
+      >
+        {faces.map(face => {
+          const stroke = getFaceStroke(renderStyle, face.color);
+          return (
+            <polygon
+              key={face.id}
+              points={face.points.map(p => p.join(',')).join(' ')}
+              fill={toRGB(face.color)}
+              stroke={stroke?.color}
+              strokeWidth={stroke?.width}
+              strokeLinejoin="round"
+            />
+          );
+        })}
+      </svg>
+      <div className="flex gap-3 items-center text-sm text-gray-300">
+        <button className={buttonClasses} onClick={handlePlay}>{playing ? 'Tạm dừng' : 'Phát'}</button>
+        <input
+          type="range"
+          min={0}
+          max={period}
+          step={0.01}
+          value={Math.min(time, period)}
+          onChange={e => {
+            setPlaying(false);
+            setTime(Number(e.target.value));
+          }}
+          className="flex-1"
+        />
+        <span className="w-20 text-right">{Math.min(time, period).toFixed(2)}s · {Math.round(progress * 100)}%</span>
+      </div>
+      <div className="flex flex-wrap gap-4 items-center text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          Thời lượng
+          <input
+            type="range"
+            min={0.5}
+            max={10}
+            step={0.5}
+            value={options.duration}
+            onChange={e => updateOptions({ duration: Number(e.target.value) })}
+            className="w-24"
+          />
+          <span>{options.duration}s</span>
+        </label>
+        <label className="flex items-center gap-2">
+          Khung hình/giây
+          <input
+            type="number"
+            min={1}
+            max={60}
+            value={options.fps}
+            onChange={e => updateOptions({ fps: Math.min(60, Math.max(1, Number(e.target.value) || 1)) })}
+            className="w-16 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white"
+          />
+        </label>
+        <select
+          value={options.easing}
+          onChange={e => updateOptions({ easing: e.target.value as MorphEasing })}
+          className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white"
+        >
+          {EASINGS.map(easing => <option key={easing.key} value={easing.key}>{easing.label}</option>)}
+        </select>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={options.pingPong} onChange={e => updateOptions({ pingPong: e.target.checked })} />
+          Chạy ngược lại
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={options.loop} onChange={e => updateOptions({ loop: e.target.checked })} />
+          Lặp lại
+        </label>
+      </div>
+      <div className="flex gap-2">
+        <button className={buttonClasses} onClick={handleDownloadSVG}>Tải SVG động</button>
+        <button className={buttonClasses} onClick={handleDownloadFrames} disabled={exporting}>
+          {exporting ? 'Đang xuất khung hình...' : 'Tải chuỗi PNG (ZIP)'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+
+interface PaletteEditorProps {
+  // Hex colors, e.g. '#ff6b6b'
+  colors: string[];
+  onChange: (colors: string[]) => void;
+  // Allows adding and removing entries; otherwise only recoloring and swapping
+  editableSize?: boolean;
+}
+
+export const PaletteEditor: React.FC<PaletteEditorProps> = ({ colors, onChange, editableSize = false }) => {
+  const [selected, setSelected] = React.useState<number | null>(null);
+
+  const setColor = (index: number, color: string) => {
+    onChange(colors.map((c, i) => (i === index ? color : c)));
+  };
+
+  // Clicking two swatches in a row exchanges their colors
+  const handleSwapClick = (index: number) => {
+    if (selected === null) {
+      setSelected(index);
+      return;
+    }
+    if (selected !== index) {
+      const next = [...colors];
+      [next[selected], next[index]] = [next[index], next[selected]];
+      onChange(next);
+    }
+    setSelected(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {colors.map((color, index) => (
+          <div key={index} className={`flex flex-col items-center gap-1 p-1 rounded ${selected === index ? 'ring-2 ring-indigo-400' : ''}`}>
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => setColor(index, e.target.value)}
+              className="w-8 h-8 p-0 border-none bg-transparent cursor-pointer"
+              title={color}
+            />
+            <div className="flex gap-1">
+              <button
+                onClick={() => handleSwapClick(index)}
+                className="text-xs text-gray-400 hover:text-white"
+                title="Hoán đổi với ô màu khác"
+              >⇄</button>
+              {editableSize && colors.length > 1 && (
+                <button
+                  onClick={() => onChange(colors.filter((_, i) => i !== index))}
+                  className="text-xs text-gray-400 hover:text-red-400"
+                  title="Xóa màu"
+                >×</button>
+              )}
+            </div>
+          </div>
+        ))}
+        {editableSize && (
+          <button
+            onClick={() => onChange([...colors, colors[colors.length - 1] ?? '#ffffff'])}
+            className="w-8 h-8 mt-1 rounded border border-dashed border-gray-500 text-gray-400 hover:text-white"
+            title="Thêm màu"
+          >+</button>
+        )}
+      </div>
+    </div>
+  );
+};
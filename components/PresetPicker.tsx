@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Settings } from '../types';
+import { Preset, BUILT_IN_PRESETS, applyPreset, toPreset, loadUserPresets, saveUserPresets } from '../services/presets';
+
+interface PresetPickerProps {
+  settings: Settings;
+  onApply: (settings: Settings) => void;
+}
+
+// Built-in presets followed by the ones saved in this browser
+export const PresetPicker: React.FC<PresetPickerProps> = ({ settings, onApply }) => {
+  const [userPresets, setUserPresets] = useState<Preset[]>(loadUserPresets);
+  const [selected, setSelected] = useState(BUILT_IN_PRESETS[0].name);
+  const [name, setName] = useState('');
+
+  const presets = [...BUILT_IN_PRESETS, ...userPresets];
+  const current = presets.find(p => p.name === selected);
+
+  const updateUserPresets = (next: Preset[]) => {
+    setUserPresets(next);
+    saveUserPresets(next);
+  };
+
+  // Saving under an existing user preset's name overwrites it
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed || BUILT_IN_PRESETS.some(p => p.name === trimmed)) return;
+    updateUserPresets([...userPresets.filter(p => p.name !== trimmed), toPreset(trimmed, settings)]);
+    setSelected(trimmed);
+    setName('');
+  };
+
+  const handleDelete = () => {
+    if (!current || current.builtIn) return;
+    updateUserPresets(userPresets.filter(p => p.name !== current.name));
+    setSelected(BUILT_IN_PRESETS[0].name);
+  };
+
+  const inputClasses = 'bg-gray-700 border border-gray-600 rounded-md py-1.5 px-2 text-sm text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+  const buttonClasses = 'px-2 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-md text-xs disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-300">Cấu hình mẫu</label>
+      <div className="flex gap-2">
+        <select value={selected} onChange={(e) => setSelected(e.target.value)} className={`flex-1 ${inputClasses}`}>
+          {presets.map(p => (
+            <option key={p.name} value={p.name}>{p.builtIn ? p.name : `${p.name} (của bạn)`}</option>
+          ))}
+        </select>
+        <button onClick={() => current && onApply(applyPreset(settings, current))} className={buttonClasses}>
+          Áp dụng
+        </button>
+        <button onClick={handleDelete} disabled={!current || current.builtIn} className={buttonClasses} title="Xóa cấu hình đã lưu">
+          Xóa
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          placeholder="Tên cấu hình mới"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          className={`flex-1 ${inputClasses}`}
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim() || BUILT_IN_PRESETS.some(p => p.name === name.trim())}
+          className={buttonClasses}
+        >
+          Lưu cài đặt hiện tại
+        </button>
+      </div>
+    </div>
+  );
+};
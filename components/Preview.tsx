@@ -1,51 +1,107 @@
 
 
 import React, { useState } from 'react';
-import { Settings, LowPolyOutput } from '../types';
+import { Settings, LowPolyOutput, DensityMask, Lighting, StrokeMode, RasterImage } from '../types';
 import { UploadIcon } from './ui';
+import { toSVGString, toRGB, getVertexGradients, getStyledFaces, getFaceStroke, getRenderStyle, RenderStyle } from '../services/export';
+import { getMeshPoints } from '../services/lowpoly';
+import { getOutputBaseName } from '../services/batch';
+import { VertexEditor, EditTool } from './VertexEditor';
+import { DensityPainter, DensityBrush } from './DensityPainter';
+import { MorphPlayer } from './MorphPlayer';
+import { SequencePlayer } from './SequencePlayer';
+import { LightingPanel } from './LightingPanel';
+import { FilterPreview } from './FilterPreview';
 
 interface PreviewProps {
   sourceImage: HTMLImageElement | null;
+  sourcePixels: RasterImage | null;
   lowPolyData: LowPolyOutput | null;
   settings: Settings;
-  svgRef: React.RefObject<SVGSVGElement>;
+  onRenderStyleChange: (style: RenderStyle) => void;
+  onPointsEdit: (points: [number, number][], locked: number[]) => void;
+  onDensityMaskChange: (mask: DensityMask) => void;
+  onLightingChange: (lighting: Lighting | null) => void;
+  onDownload: (blob: Blob, filename: string) => void;
   error: string | null;
 }
 
+const EDIT_TOOLS: { key: EditTool | null; label: string }[] = [
+  { key: null, label: 'Xem' },
+  { key: 'move', label: 'Kéo đỉnh' },
+  { key: 'add', label: 'Thêm đỉnh' },
+  { key: 'delete', label: 'Xóa đỉnh' },
+  { key: 'lock', label: 'Khóa đỉnh' },
+];
+
+const STROKE_MODES: { key: StrokeMode; label: string }[] = [
+  { key: StrokeMode.NONE, label: 'Không viền' },
+  { key: StrokeMode.MATCH, label: 'Viền cùng màu' },
+  { key: StrokeMode.OUTLINE, label: 'Viền màu' },
+  { key: StrokeMode.GAP, label: 'Khe hở' },
+];
+
+const DENSITY_BRUSHES: { key: DensityBrush | null; label: string }[] = [
+  { key: null, label: 'Tắt' },
+  { key: 'add', label: 'Thêm chi tiết' },
+  { key: 'remove', label: 'Bớt chi tiết' },
+];
+
 export const Preview: React.FC<PreviewProps> = ({
   sourceImage,
+  sourcePixels,
   lowPolyData,
   settings,
-  svgRef,
+  onRenderStyleChange,
+  onPointsEdit,
+  onDensityMaskChange,
+  onLightingChange,
+  onDownload,
   error
 }) => {
-  const [viewMode, setViewMode] = useState<'image' | 'svg' | 'json'>('image');
-  const [strokeWidth, setStrokeWidth] = useState(4);
-  const [strokeColor, setStrokeColor] = useState('#111111');
+  const [viewMode, setViewMode] = useState<'image' | 'svg' | 'json' | 'morph' | 'sequence' | 'filters'>('image');
+  // First keyframe of the morph; the current result is always the last
+  const [morphStart, setMorphStart] = useState<LowPolyOutput | null>(null);
+  const [editTool, setEditTool] = useState<EditTool | null>(null);
+  const [densityBrush, setDensityBrush] = useState<DensityBrush | null>(null);
+  const [brushSize, setBrushSize] = useState(0.06);
+  const renderStyle = getRenderStyle(settings);
+  const updateRenderStyle = (update: Partial<RenderStyle>) => onRenderStyleChange({ ...renderStyle, ...update });
 
   // Tạo SVG string từ lowPolyData
+  const faces = lowPolyData ? getStyledFaces(lowPolyData, renderStyle) : [];
+  // Only plain triangle meshes can be edited; regions and cells are derived shapes
+  const editable = !!lowPolyData && lowPolyData.triangles.length > 0 && !lowPolyData.regions;
+  const activeTool = editable && viewMode === 'image' ? editTool : null;
+  const activeBrush = sourceImage && viewMode === 'image' ? densityBrush : null;
+
+  const selectEditTool = (tool: EditTool | null) => {
+    setEditTool(tool);
+    if (tool) setDensityBrush(null);
+  };
+  const selectBrush = (brush: DensityBrush | null) => {
+    setDensityBrush(brush);
+    if (brush) setEditTool(null);
+  };
+
   const getSVGString = () => {
     if (!lowPolyData) return '';
-    const { width, height, triangles } = lowPolyData.image;
-    let svg = `<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 ${width} ${height}'>`;
-    svg += '<g>';
-    lowPolyData.triangles.forEach(tri => {
-      svg += `<polygon points='${tri.vertices.map(p => p.join(',')).join(' ')}' fill='rgb(${tri.avg_color.join(',')})' stroke='${strokeColor}' stroke-width='${strokeWidth}' />`;
-    });
-    svg += '</g></svg>';
-    return svg;
+    return toSVGString(lowPolyData, renderStyle);
   };
 
   const renderContent = () => {
     if (error) {
-      return <div className="text-red-400 bg-red-900/50 p-4 rounded-md">{error}</div>;
+      return <div className="text-red-400 bg-red-900/50 p-4 rounded-md whitespace-pre-line">{error}</div>;
     }
 
     // Tabs chuyển chế độ xem
     const tabs = [
       { key: 'image', label: 'Ảnh' },
       { key: 'svg', label: 'SVG' },
-      { key: 'json', label: 'JSON' }
+      { key: 'json', label: 'JSON' },
+      { key: 'morph', label: 'Chuyển hình' },
+      { key: 'sequence', label: 'Chuỗi khung hình' },
+      { key: 'filters', label: 'Tiền xử lý' }
     ];
 
     return (
@@ -61,58 +117,176 @@ export const Preview: React.FC<PreviewProps> = ({
             </button>
           ))}
         </div>
-        {/* Stroke controls */}
+        {/* Render style, shared with every export */}
         <div className="flex gap-4 items-center mb-2">
-          <label className="flex items-center gap-2 text-sm text-gray-300">
-            Độ dày viền
-            <input
-              type="range"
-              min={1}
-              max={16}
-              value={strokeWidth}
-              onChange={e => setStrokeWidth(Number(e.target.value))}
-              className="w-32"
-            />
-            <span className="w-8 text-center">{strokeWidth}</span>
-          </label>
-          <label className="flex items-center gap-2 text-sm text-gray-300">
-            Màu viền
-            <input
-              type="color"
-              value={strokeColor}
-              onChange={e => setStrokeColor(e.target.value)}
-              className="w-8 h-8 p-0 border-none bg-transparent"
-            />
-            <span className="ml-1">{strokeColor}</span>
-          </label>
+          <div className="flex gap-2 text-sm">
+            {STROKE_MODES.map(mode => (
+              <button
+                key={mode.key}
+                className={`px-3 py-1 rounded ${renderStyle.strokeMode === mode.key ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300'}`}
+                onClick={() => updateRenderStyle({ strokeMode: mode.key })}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          {renderStyle.strokeMode === StrokeMode.OUTLINE && (
+            <>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                Độ dày viền
+                <input
+                  type="range"
+                  min={1}
+                  max={16}
+                  value={renderStyle.strokeWidth}
+                  onChange={e => updateRenderStyle({ strokeWidth: Number(e.target.value) })}
+                  className="w-32"
+                />
+                <span className="w-8 text-center">{renderStyle.strokeWidth}</span>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                Màu viền
+                <input
+                  type="color"
+                  value={renderStyle.strokeColor}
+                  onChange={e => updateRenderStyle({ strokeColor: e.target.value })}
+                  className="w-8 h-8 p-0 border-none bg-transparent"
+                />
+                <span className="ml-1">{renderStyle.strokeColor}</span>
+              </label>
+            </>
+          )}
+          {renderStyle.strokeMode === StrokeMode.GAP && (
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              Độ rộng khe
+              <input
+                type="range"
+                min={0.02}
+                max={0.5}
+                step={0.02}
+                value={renderStyle.gapSize}
+                onChange={e => updateRenderStyle({ gapSize: Number(e.target.value) })}
+                className="w-32"
+              />
+              <span className="w-8 text-center">{Math.round(renderStyle.gapSize * 100)}%</span>
+            </label>
+          )}
         </div>
+        {/* Relighting is instant, so the controls apply to the result on screen */}
+        {lowPolyData && viewMode === 'image' && (
+          <LightingPanel lighting={lowPolyData.lighting ?? null} onChange={onLightingChange} />
+        )}
+        {editable && viewMode === 'image' && (
+          <div className="flex gap-2 items-center mb-2 text-sm">
+            {EDIT_TOOLS.map(tool => (
+              <button
+                key={tool.label}
+                className={`px-3 py-1 rounded ${editTool === tool.key ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300'}`}
+                onClick={() => selectEditTool(tool.key)}
+              >
+                {tool.label}
+              </button>
+            ))}
+            {activeTool && (
+              <span className="text-xs text-gray-400">Đỉnh khóa (màu vàng) được giữ lại khi tạo lại.</span>
+            )}
+          </div>
+        )}
+        {sourceImage && viewMode === 'image' && (
+          <div className="flex gap-2 items-center mb-2 text-sm text-gray-300">
+            <span>Mặt nạ mật độ</span>
+            {DENSITY_BRUSHES.map(brush => (
+              <button
+                key={brush.label}
+                className={`px-3 py-1 rounded ${densityBrush === brush.key ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300'}`}
+                onClick={() => selectBrush(brush.key)}
+              >
+                {brush.label}
+              </button>
+            ))}
+            {activeBrush && (
+              <label className="flex items-center gap-2">
+                Cỡ cọ
+                <input
+                  type="range"
+                  min={0.01}
+                  max={0.2}
+                  step={0.01}
+                  value={brushSize}
+                  onChange={e => setBrushSize(Number(e.target.value))}
+                  className="w-24"
+                />
+              </label>
+            )}
+          </div>
+        )}
         <div className="flex-1 w-full h-full overflow-auto bg-gray-900 rounded-lg p-2">
           {viewMode === 'image' && (
-            lowPolyData ? (
+            activeBrush && sourceImage ? (
+              <DensityPainter
+                image={sourceImage}
+                mask={settings.densityMask}
+                brush={activeBrush}
+                brushSize={brushSize}
+                onChange={onDensityMaskChange}
+              />
+            ) : lowPolyData ? (
               <svg
-                ref={svgRef}
                 xmlns="http://www.w3.org/2000/svg"
                 viewBox={`0 0 ${lowPolyData.image.width} ${lowPolyData.image.height}`}
                 className="max-w-full max-h-full rounded-lg shadow-lg bg-gray-900"
+                style={activeTool ? { touchAction: 'none' } : undefined}
               >
                 <g>
-                  {lowPolyData.triangles.map((tri) => (
-                    <polygon
-                      key={tri.id}
-                      points={tri.vertices.map(p => p.join(',')).join(' ')}
-                      fill={`rgb(${tri.avg_color.join(',')})`}
-                      stroke={strokeColor}
-                      strokeWidth={strokeWidth}
-                    />
-                  ))}
+                  {faces.map((face) => {
+                    const points = face.points.map(p => p.join(',')).join(' ');
+                    const gradients = getVertexGradients(face);
+                    const stroke = getFaceStroke(renderStyle, face.color);
+                    if (gradients.length === 0) {
+                      return (
+                        <polygon
+                          key={face.id}
+                          points={points}
+                          fill={toRGB(face.color)}
+                          stroke={stroke?.color}
+                          strokeWidth={stroke?.width}
+                          strokeLinejoin="round"
+                          opacity={face.opacity}
+                        />
+                      );
+                    }
+                    return (
+                      <g key={face.id} opacity={face.opacity}>
+                        <defs>
+                          {gradients.map(g => (
+                            <linearGradient key={g.id} id={g.id} gradientUnits="userSpaceOnUse" x1={g.x1} y1={g.y1} x2={g.x2} y2={g.y2}>
+                              <stop offset="0" stopColor={g.color} />
+                              <stop offset="1" stopColor="#000" />
+                            </linearGradient>
+                          ))}
+                        </defs>
+                        <g style={{ isolation: 'isolate' }}>
+                          {gradients.map((g, k) => (
+                            <polygon
+                              key={g.id}
+                              points={points}
+                              fill={`url(#${g.id})`}
+                              style={k > 0 ? { mixBlendMode: 'plus-lighter' } : undefined}
+                            />
+                          ))}
+                        </g>
+                        {stroke && <polygon points={points} fill="none" stroke={stroke.color} strokeWidth={stroke.width} strokeLinejoin="round" />}
+                      </g>
+                    );
+                  })}
                 </g>
                 {settings.showPointIds && (
                   <g>
-                    {lowPolyData.triangles.map((tri) => (
+                    {faces.map((face) => (
                       <text
-                        key={tri.id}
-                        x={tri.centroid[0]}
-                        y={tri.centroid[1]}
+                        key={face.id}
+                        x={face.centroid[0]}
+                        y={face.centroid[1]}
                         fontSize="8"
                         fill="white"
                         textAnchor="middle"
@@ -120,11 +294,21 @@ export const Preview: React.FC<PreviewProps> = ({
                         className="pointer-events-none"
                         style={{mixBlendMode: 'difference'}}
                       >
-                        {tri.id}
+                        {face.id}
                       </text>
                     ))}
                   </g>
                 )}
+                {activeTool && (
+                  <VertexEditor
+                    width={lowPolyData.image.width}
+                    height={lowPolyData.image.height}
+                    points={getMeshPoints(lowPolyData)}
+                    locked={lowPolyData.locked_points ?? []}
+                    tool={activeTool}
+                    onChange={onPointsEdit}
+                  />
+                )}
               </svg>
             ) : sourceImage ? (
               <img
@@ -144,18 +328,7 @@ export const Preview: React.FC<PreviewProps> = ({
             <div className="flex flex-col gap-2">
               <button
                 className="self-end px-4 py-1 mb-2 rounded bg-green-700 text-white hover:bg-green-800"
-                onClick={() => {
-                  const svgString = getSVGString();
-                  const blob = new Blob([svgString], { type: 'image/svg+xml' });
-                  const url = URL.createObjectURL(blob);
-                  const a = document.createElement('a');
-                  a.href = url;
-                  a.download = 'lowpoly.svg';
-                  document.body.appendChild(a);
-                  a.click();
-                  document.body.removeChild(a);
-                  URL.revokeObjectURL(url);
-                }}
+                onClick={() => onDownload(new Blob([getSVGString()], { type: 'image/svg+xml' }), `${getOutputBaseName(lowPolyData.image.source)}.svg`)}
               >Tải SVG</button>
               <textarea
                 className="w-full h-96 bg-gray-800 text-green-200 p-2 rounded resize-none font-mono text-xs"
@@ -164,6 +337,40 @@ export const Preview: React.FC<PreviewProps> = ({
               />
             </div>
           )}
+          {viewMode === 'morph' && (
+            <div className="flex flex-col gap-3">
+              <div className="flex gap-3 items-center text-sm text-gray-300">
+                <button
+                  className="px-3 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50"
+                  onClick={() => setMorphStart(lowPolyData)}
+                  disabled={!lowPolyData || lowPolyData === morphStart}
+                >
+                  Dùng kết quả hiện tại làm khung đầu
+                </button>
+                {morphStart && (
+                  <span className="text-xs text-gray-400">Khung đầu: {morphStart.image.source} ({morphStart.image.width}x{morphStart.image.height})</span>
+                )}
+              </div>
+              {morphStart && lowPolyData && lowPolyData !== morphStart ? (
+                <MorphPlayer start={morphStart} end={lowPolyData} renderStyle={renderStyle} onDownload={onDownload} />
+              ) : (
+                <p className="text-sm text-gray-400">
+                  Chọn khung đầu, sau đó tạo hoặc mở một kết quả khác (seed, số điểm hay ảnh khác) để làm khung cuối.
+                </p>
+              )}
+            </div>
+          )}
+          {/* Stays mounted so switching tabs keeps a generated sequence */}
+          <div className={viewMode === 'sequence' ? '' : 'hidden'}>
+            <SequencePlayer settings={settings} onDownload={onDownload} />
+          </div>
+          {viewMode === 'filters' && (
+            sourcePixels ? (
+              <FilterPreview source={sourcePixels} filters={settings.filters} maxSize={settings.maxSize} />
+            ) : (
+              <p className="text-sm text-gray-400">Tải lên một hình ảnh để xem trước các bộ lọc.</p>
+            )
+          )}
           {viewMode === 'json' && lowPolyData && (
             <pre className="w-full h-96 bg-gray-800 text-yellow-200 p-2 rounded overflow-auto text-xs">
               {JSON.stringify(lowPolyData, null, 2)}
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Slider, Select, Checkbox, Button } from './ui';
+import { RasterExportOptions, RasterFormat, DEFAULT_RASTER_EXPORT_OPTIONS, fitsCanvas } from '../services/render';
+import { RenderStyle } from '../services/export';
+
+type SizeMode = 'scale' | 'long-side' | 'print';
+
+interface RasterExportPanelProps {
+  // Mesh size in pixels, or null before the first result
+  imageSize: [number, number] | null;
+  // The preview's stroke style, which the render follows
+  renderStyle: RenderStyle;
+  onExport: (options: RasterExportOptions, onProgress: (progress: number) => void) => Promise<void>;
+  disabled: boolean;
+}
+
+const numberInputClass = "mt-1 w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-white";
+
+export const RasterExportPanel: React.FC<RasterExportPanelProps> = ({ imageSize, renderStyle, onExport, disabled }) => {
+  const [options, setOptions] = useState<RasterExportOptions>(DEFAULT_RASTER_EXPORT_OPTIONS);
+  const [sizeMode, setSizeMode] = useState<SizeMode>('scale');
+  const [longSide, setLongSide] = useState(8000);
+  const [printCm, setPrintCm] = useState(30);
+  const [background, setBackground] = useState('#ffffff');
+  const [transparentBackground, setTransparentBackground] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const update = <K extends keyof RasterExportOptions,>(key: K, value: RasterExportOptions[K]) => setOptions(prev => ({ ...prev, [key]: value }));
+
+  const meshLongSide = imageSize ? Math.max(...imageSize) : 1;
+  const scale = sizeMode === 'scale' ? options.scale
+    : sizeMode === 'long-side' ? longSide / meshLongSide
+    : (printCm / 2.54) * options.dpi / meshLongSide;
+  const size: [number, number] | null = imageSize
+    ? [Math.max(1, Math.round(imageSize[0] * scale)), Math.max(1, Math.round(imageSize[1] * scale))]
+    : null;
+  // JPEG has no alpha channel
+  const transparent = transparentBackground && options.format !== 'jpeg';
+  const tooLarge = options.format !== 'png' && size !== null && !fitsCanvas(size);
+
+  const handleExport = async () => {
+    setProgress(0);
+    try {
+      await onExport({
+        ...options,
+        scale,
+        background: transparent ? null : background,
+        style: renderStyle,
+      }, setProgress);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Select
+        label="Định dạng"
+        value={options.format}
+        onChange={(v) => update('format', v as RasterFormat)}
+        options={[
+          { value: 'png', label: 'PNG (không giới hạn kích thước)' },
+          { value: 'jpeg', label: 'JPEG' },
+          { value: 'webp', label: 'WebP' },
+        ]}
+      />
+      <Select
+        label="Kích thước theo"
+        value={sizeMode}
+        onChange={(v) => setSizeMode(v as SizeMode)}
+        options={[
+          { value: 'scale', label: 'Hệ số phóng' },
+          { value: 'long-side', label: 'Cạnh dài (px)' },
+          { value: 'print', label: 'Khổ in (cm) và DPI' },
+        ]}
+      />
+      {sizeMode === 'scale' && (
+        <Slider label="Hệ số phóng" min={0.5} max={20} step={0.5} value={options.scale} onChange={(v) => update('scale', v)} unit="×" />
+      )}
+      {sizeMode === 'long-side' && (
+        <label className="block text-sm font-medium text-gray-300">
+          Cạnh dài (px)
+          <input type="number" min={1} value={longSide} onChange={(e) => setLongSide(Math.max(1, Number(e.target.value) || 1))} className={numberInputClass} />
+        </label>
+      )}
+      {sizeMode === 'print' && (
+        <label className="block text-sm font-medium text-gray-300">
+          Cạnh dài khi in (cm)
+          <input type="number" min={1} value={printCm} onChange={(e) => setPrintCm(Math.max(1, Number(e.target.value) || 1))} className={numberInputClass} />
+        </label>
+      )}
+      <label className="block text-sm font-medium text-gray-300">
+        DPI
+        <input type="number" min={1} value={options.dpi} onChange={(e) => update('dpi', Math.max(1, Number(e.target.value) || 1))} className={numberInputClass} />
+      </label>
+      {size && (
+        <p className="text-xs text-gray-400">Kích thước đầu ra: {size[0]} × {size[1]} px</p>
+      )}
+      {tooLarge && (
+        <p className="text-xs text-red-400">Ảnh quá lớn để trình duyệt mã hóa thành {options.format.toUpperCase()}. Hãy giảm kích thước hoặc chọn PNG.</p>
+      )}
+      {options.format !== 'jpeg' && (
+        <Checkbox label="Nền trong suốt" checked={transparentBackground} onChange={setTransparentBackground} />
+      )}
+      {!transparent && (
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          Màu nền
+          <input
+            type="color"
+            value={background}
+            onChange={e => setBackground(e.target.value)}
+            className="w-8 h-8 p-0 border-none bg-transparent"
+          />
+          <span className="ml-1">{background}</span>
+        </label>
+      )}
+      <Slider label="Khử răng cưa (mẫu mỗi chiều)" min={1} max={4} step={1} value={options.samples} onChange={(v) => update('samples', v)} />
+      {options.format !== 'png' && (
+        <Slider label="Chất lượng" min={50} max={100} step={1} value={Math.round(options.quality * 100)} onChange={(v) => update('quality', v / 100)} unit="%" />
+      )}
+      <Button variant="secondary" className="w-full" onClick={handleExport} disabled={disabled || tooLarge || progress !== null}>
+        {progress === null ? `Xuất ${options.format.toUpperCase()}` : `Đang xuất... ${Math.round(progress * 100)}%`}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LowPolyOutput, Settings, GenerationProgress } from '../types';
+import { getRenderStyle, getStyledFaces, getFaceStroke, toRGB } from '../services/export';
+import { decodeImage } from '../services/decode';
+import { startSequenceGeneration, GenerationTask, GenerationCancelledError } from '../services/generator';
+import { toSequenceSVGString, toSequenceFramesZip, toSequenceJSONZip } from '../services/sequence';
+import { getOutputBaseName } from '../services/batch';
+import { FileInput } from './ui';
+
+interface SequencePlayerProps {
+  // Generation and render style
+  settings: Settings;
+  onDownload: (blob: Blob, filename: string) => void;
+}
+
+// Frames are ordered by file name, with numbers compared by value (frame2 before frame10)
+const compareFileNames = (a: File, b: File) => a.name.localeCompare(b.name, undefined, { numeric: true });
+
+export const SequencePlayer: React.FC<SequencePlayerProps> = ({ settings, onDownload }) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [outputs, setOutputs] = useState<LowPolyOutput[] | null>(null);
+  const [progress, setProgress] = useState<{ frame: number; progress: GenerationProgress } | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [frame, setFrame] = useState(0);
+  const [fps, setFps] = useState(12);
+  const [playing, setPlaying] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const taskRef = useRef<GenerationTask<LowPolyOutput[]> | null>(null);
+  const renderStyle = getRenderStyle(settings);
+  // Named after the first frame
+  const baseName = `${getOutputBaseName(outputs?.[0]?.image.source ?? '')}-sequence`;
+
+  useEffect(() => () => taskRef.current?.cancel(), []);
+
+  useEffect(() => {
+    if (!playing || !outputs) return;
+    const timer = setInterval(() => setFrame(prev => (prev + 1) % outputs.length), 1000 / fps);
+    return () => clearInterval(timer);
+  }, [playing, outputs, fps]);
+
+  const handleFilesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected: File[] = event.target.files ? [...event.target.files] : [];
+    event.target.value = '';
+    if (selected.length > 0) setFiles(selected.sort(compareFileNames));
+  };
+
+  const handleGenerate = async () => {
+    taskRef.current?.cancel();
+    setRunning(true);
+    setError(null);
+    setProgress(null);
+    setPlaying(false);
+    try {
+      const frames = await Promise.all(files.map(async file => decodeImage(new Uint8Array(await file.arrayBuffer()))));
+      const task = startSequenceGeneration(frames, files.map(file => file.name), settings, (index, stage) => setProgress({ frame: index, progress: stage }));
+      taskRef.current = task;
+      const result = await task.promise;
+      setOutputs(result);
+      setFrame(0);
+    } catch (e) {
+      if (e instanceof GenerationCancelledError) return;
+      console.error(e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      taskRef.current = null;
+      setRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const handleDownloadSVG = () => {
+    if (!outputs) return;
+    onDownload(new Blob([toSequenceSVGString(outputs, fps, renderStyle)], { type: 'image/svg+xml' }), `${baseName}.svg`);
+  };
+
+  // Encoding runs on the main thread; the timeout lets the button show its busy state first
+  const handleDownloadZip = (kind: 'frames' | 'json') => {
+    if (!outputs) return;
+    setExporting(true);
+    setTimeout(() => {
+      try {
+        const zip = kind === 'frames' ? toSequenceFramesZip(outputs, renderStyle) : toSequenceJSONZip(outputs);
+        onDownload(new Blob([zip], { type: 'application/zip' }), `${baseName}-${kind}.zip`);
+      } finally {
+        setExporting(false);
+      }
+    }, 0);
+  };
+
+  const buttonClasses = 'px-3 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50';
+  const current = outputs?.[Math.min(frame, outputs.length - 1)] ?? null;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap gap-3 items-center text-sm text-gray-300">
+        <div className="w-64">
+          <FileInput id="sequence-upload" label="Chọn các khung hình..." onChange={handleFilesChange} multiple />
+        </div>
+        {files.length > 0 && <span className="text-xs text-gray-400">{files.length} khung: {files[0].name} … {files[files.length - 1].name}</span>}
+        {running ? (
+          <button className={buttonClasses} onClick={() => taskRef.current?.cancel()}>Dừng</button>
+        ) : (
+          <button className={buttonClasses} onClick={handleGenerate} disabled={files.length === 0}>Tạo chuỗi</button>
+        )}
+        {running && (
+          <span className="text-xs text-gray-400">
+            {progress ? `Khung ${progress.frame + 1}/${files.length} · ${Math.round(progress.progress.progress * 100)}%` : 'Đang đọc khung hình...'}
+          </span>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {current && outputs ? (
+        <>
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            viewBox={`0 0 ${current.image.width} ${current.image.height}`}
+            className="max-w-full max-h-[60vh] rounded-lg shadow-lg bg-gray-900"
+          >
+            {getStyledFaces(current, renderStyle).map(face => {
+              const stroke = getFaceStroke(renderStyle, face.color);
+              return (
+                <polygon
+                  key={face.id}
+                  points={face.points.map(p => p.join(',')).join(' ')}
+                  fill={toRGB(face.color)}
+                  stroke={stroke?.color}
+                  strokeWidth={stroke?.width}
+                  strokeLinejoin="round"
+                />
+              );
+            })}
+          </svg>
+          <div className="flex gap-3 items-center text-sm text-gray-300">
+            <button className={buttonClasses} onClick={() => setPlaying(!playing)}>{playing ? 'Tạm dừng' : 'Phát'}</button>
+            <input
+              type="range"
+              min={0}
+              max={outputs.length - 1}
+              step={1}
+              value={frame}
+              onChange={e => {
+                setPlaying(false);
+                setFrame(Number(e.target.value));
+              }}
+              className="flex-1"
+            />
+            <span className="w-40 text-right truncate">{frame + 1}/{outputs.length} · {current.image.source}</span>
+          </div>
+          <div className="flex flex-wrap gap-4 items-center text-sm text-gray-300">
+            <label className="flex items-center gap-2">
+              Khung hình/giây
+              <input type="range" min={1} max={30} step={1} value={fps} onChange={e => setFps(Number(e.target.value))} className="w-24" />
+              <span>{fps}</span>
+            </label>
+            <button className={buttonClasses} onClick={handleDownloadSVG}>Tải SVG động</button>
+            <button className={buttonClasses} onClick={() => handleDownloadZip('frames')} disabled={exporting}>Tải khung PNG (ZIP)</button>
+            <button className={buttonClasses} onClick={() => handleDownloadZip('json')} disabled={exporting}>Tải JSON (ZIP)</button>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-gray-400">
+          Chọn các khung hình của một đoạn phim ngắn (cùng kích thước, sắp theo tên tệp). Các đỉnh được mang từ khung này sang khung sau và di chuyển theo nội dung, nên tam giác giữ nguyên ID và không nhấp nháy.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useRef } from 'react';
+
+export type EditTool = 'move' | 'add' | 'delete' | 'lock';
+
+interface VertexEditorProps {
+  width: number;
+  height: number;
+  points: [number, number][];
+  locked: number[];
+  tool: EditTool;
+  onChange: (points: [number, number][], locked: number[]) => void;
+}
+
+// Overlay drawn inside the preview SVG. It is marked with data-editor-overlay so
+// exports can strip it before serializing the SVG.
+export const VertexEditor: React.FC<VertexEditorProps> = ({ width, height, points, locked, tool, onChange }) => {
+  const dragRef = useRef<{ index: number; onBorderX: boolean; onBorderY: boolean } | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const pendingRef = useRef<[number, number] | null>(null);
+  // Latest props for the pointer handlers, which outlive a render while dragging
+  const latest = useRef({ points, locked, onChange });
+  latest.current = { points, locked, onChange };
+
+  const lockedSet = new Set(locked);
+  const radius = Math.max(width, height) / 200;
+  const isCorner = ([x, y]: [number, number]) => (x === 0 || x === width) && (y === 0 || y === height);
+
+  const toImagePoint = (event: React.PointerEvent<SVGElement>): [number, number] => {
+    const svg = event.currentTarget.ownerSVGElement ?? (event.currentTarget as SVGSVGElement);
+    const matrix = svg.getScreenCTM();
+    if (!matrix) return [0, 0];
+    const p = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return [Math.min(width, Math.max(0, p.x)), Math.min(height, Math.max(0, p.y))];
+  };
+
+  const handleVertexDown = (event: React.PointerEvent<SVGCircleElement>, index: number) => {
+    event.stopPropagation();
+    const point = points[index];
+    switch (tool) {
+      case 'move':
+        // Vertices on the image border only slide along it, so the mesh keeps covering the image
+        dragRef.current = {
+          index,
+          onBorderX: point[0] === 0 || point[0] === width,
+          onBorderY: point[1] === 0 || point[1] === height,
+        };
+        (event.currentTarget.parentNode as SVGGElement).setPointerCapture(event.pointerId);
+        break;
+      case 'delete': {
+        if (isCorner(point) || points.length <= 4) return;
+        const next = points.filter((_, i) => i !== index);
+        const nextLocked = locked.filter(i => i !== index).map(i => (i > index ? i - 1 : i));
+        onChange(next, nextLocked);
+        break;
+      }
+      case 'lock':
+        onChange(points, lockedSet.has(index) ? locked.filter(i => i !== index) : [...locked, index].sort((a, b) => a - b));
+        break;
+    }
+  };
+
+  const handleBackgroundDown = (event: React.PointerEvent<SVGRectElement>) => {
+    if (tool !== 'add') return;
+    onChange([...points, toImagePoint(event)], locked);
+  };
+
+  // Moves are applied at most once per frame, since each one re-triangulates
+  const handleMove = (event: React.PointerEvent<SVGGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const [x, y] = toImagePoint(event);
+    const original = latest.current.points[drag.index];
+    pendingRef.current = [drag.onBorderX ? original[0] : x, drag.onBorderY ? original[1] : y];
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      const target = pendingRef.current;
+      const current = dragRef.current;
+      if (!target || !current) return;
+      const { points: currentPoints, locked: currentLocked, onChange: emit } = latest.current;
+      emit(currentPoints.map((p, i) => (i === current.index ? target : p)), currentLocked);
+    });
+  };
+
+  const handleUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <g data-editor-overlay onPointerMove={handleMove} onPointerUp={handleUp} onPointerCancel={handleUp}>
+      <rect
+        x={0}
+        y={0}
+        width={width}
+        height={height}
+        fill="transparent"
+        style={{ cursor: tool === 'add' ? 'crosshair' : 'default' }}
+        onPointerDown={handleBackgroundDown}
+      />
+      {points.map((point, index) => (
+        <circle
+          key={index}
+          cx={point[0]}
+          cy={point[1]}
+          r={lockedSet.has(index) ? radius * 1.4 : radius}
+          fill={lockedSet.has(index) ? '#fbbf24' : '#ffffff'}
+          stroke="#111111"
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+          style={{ cursor: tool === 'move' ? 'grab' : 'pointer' }}
+          onPointerDown={(event) => handleVertexDown(event, index)}
+        />
+      ))}
+    </g>
+  );
+};
@@ -1,6 +1,7 @@
 
 
 import React, { useState } from 'react';
+import { LowPolyOutput } from '../types';
 
 // --- Form Components ---
 
@@ -70,13 +71,20 @@ export const Checkbox: React.FC<CheckboxProps> = ({ label, checked, onChange })
   </label>
 );
 
-export const FileInput: React.FC<{ onChange: (e: React.ChangeEvent<HTMLInputElement>) => void }> = ({ onChange }) => (
+interface FileInputProps {
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  id?: string;
+  label?: string;
+  accept?: string;
+  multiple?: boolean;
+}
+export const FileInput: React.FC<FileInputProps> = ({ onChange, id = 'file-upload', label = 'Chọn một hình ảnh...', accept = 'image/png, image/jpeg', multiple = false }) => (
   <div className="w-full">
-    <label htmlFor="file-upload" className="cursor-pointer bg-gray-700 hover:bg-gray-600 text-gray-300 font-bold py-2 px-4 rounded-md inline-flex items-center justify-center w-full transition-colors">
+    <label htmlFor={id} className="cursor-pointer bg-gray-700 hover:bg-gray-600 text-gray-300 font-bold py-2 px-4 rounded-md inline-flex items-center justify-center w-full transition-colors">
       <UploadIcon className="w-5 h-5 mr-2" />
-      <span>Chọn một hình ảnh...</span>
+      <span>{label}</span>
     </label>
-    <input id="file-upload" name="file-upload" type="file" className="sr-only" accept="image/png, image/jpeg" onChange={onChange} />
+    <input id={id} name={id} type="file" className="sr-only" accept={accept} multiple={multiple} onChange={onChange} />
   </div>
 );
 
@@ -110,6 +118,16 @@ export const Section: React.FC<{ title: string, children: React.ReactNode, defau
   );
 };
 
+// --- Labels ---
+
+// Face count of a result, naming merged regions and Voronoi cells as such
+export const describeFaces = (data: LowPolyOutput) => {
+  if (data.merge) {
+    const { triangles, regions, reduction } = data.merge;
+    return `${regions} vùng (gộp từ ${triangles} tam giác, giảm ${Math.round(reduction * 100)}% số đỉnh)`;
+  }
+  return data.cells ? `${data.cells.length} ô Voronoi` : `${data.triangles.length} tam giác`;
+};
 
 // --- Icons ---
 // Using React.FC<React.SVGProps<SVGSVGElement>> for type safety with SVG props
@@ -123,6 +141,9 @@ export const DownloadIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) =>
 export const PlayIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" {...props}><path fillRule="evenodd" d="M4.5 5.653c0-1.426 1.529-2.33 2.779-1.643l11.54 6.647c1.295.748 1.295 2.536 0 3.284L7.28 20.99c-1.25.72-2.779-.217-2.779-1.643V5.653Z" clipRule="evenodd" /></svg>
 );
+export const StopIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" {...props}><path fillRule="evenodd" d="M4.5 7.5a3 3 0 0 1 3-3h9a3 3 0 0 1 3 3v9a3 3 0 0 1-3 3h-9a3 3 0 0 1-3-3v-9Z" clipRule="evenodd" /></svg>
+);
 export const UploadIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" /></svg>
 );
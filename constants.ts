@@ -0,0 +1,34 @@
+import { Settings, Sampler, ColorSpace, ColorEstimator, ShadingMode, PaletteMode, GeometryKind, StrokeMode } from './types';
+
+// Shared by the web app and the CLI so both start from the same configuration
+export const DEFAULT_SETTINGS: Settings = {
+  maxSize: 1024,
+  points: 2000,
+  sampler: Sampler.EDGE_AWARE,
+  seed: 42,
+  edgeWeight: 0.8,
+  densityMask: null,
+  filters: [],
+  minOpacity: 0.1,
+  edgeBlur: 1.4,
+  cannyLow: 20,
+  cannyHigh: 50,
+  snapToContours: false,
+  targetError: 6,
+  colorSpace: ColorSpace.LAB,
+  colorEstimator: ColorEstimator.MEAN,
+  shading: ShadingMode.FLAT,
+  geometry: GeometryKind.TRIANGLES,
+  paletteMode: PaletteMode.NONE,
+  paletteSize: 8,
+  customPalette: ['#1b1f3b', '#3a6ea5', '#7fb7be', '#f2e8cf', '#ff6b6b', '#ffd166'],
+  mergeRegions: false,
+  mergeTolerance: 6,
+  lockedPoints: [],
+  withNeighbors: true,
+  strokeMode: StrokeMode.OUTLINE,
+  strokeColor: '#111111',
+  strokeWidth: 4,
+  gapSize: 0.1,
+  showPointIds: false,
+};
@@ -0,0 +1,921 @@
+import { parseArgs } from 'node:util';
+import assert from 'node:assert/strict';
+import { Delaunay } from 'd3-delaunay';
+import { decode as decodePng } from 'fast-png';
+import { Settings, Sampler, ShadingMode, GeometryKind, StrokeMode, LowPolyOutput, RasterImage, Triangle, ImageFilter } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { generateLowPolyData, retriangulate, scaleImageData, getSourceRaster, getArea, getPolygonArea, createTriangleTest } from '../services/lowpoly';
+import { mergeTriangles } from '../services/merge';
+import { toJSONString, toSVGString, getRenderFaces, getStyledFaces, RenderStyle, DEFAULT_RENDER_STYLE } from '../services/export';
+import { DEFAULT_RASTER_EXPORT_OPTIONS, RasterExportOptions, renderRaster, renderPng, getExportSize, withOutlineFaces } from '../services/render';
+import { rasterizeFaces } from '../services/raster';
+import { Mesh, DEFAULT_MESH_OPTIONS, buildMesh, toOBJ, toGLB, toSTL } from '../services/mesh';
+import { EngineExportOptions, toThreeJSON, toGodotTres, toUnityJSON } from '../services/engine';
+import { FORMAT_VERSION, SchemaError } from '../services/schema';
+import { parseSavedOutput, toIndexedJSONString, toIndexedBinary } from '../services/indexed';
+import { DEFAULT_LIGHTING, applyLighting, removeLighting } from '../services/lighting';
+import { applyPreset, loadUserPresets, encodeSettingsHash, decodeSettingsHash } from '../services/presets';
+import { createHistory, pushHistory, undo, redo, HISTORY_LIMIT } from '../services/history';
+import { DEFAULT_MORPH_OPTIONS, buildMorph, getMorphFaces, getMorphProgress, getMorphFrameProgress } from '../services/morph';
+import { rgbToLab, labToRgb } from '../services/palette';
+import { exp, log, pow } from '../services/math';
+import { applyFilters } from '../services/preprocess';
+import { generateSequence, toSequenceSVGString, toSequenceFramesZip, toSequenceJSONZip } from '../services/sequence';
+import { makeFixture, makeSpriteFixture } from './fixtures';
+
+// Behavior checks next to the golden suite, for what a hash can't show: which
+// files the loader rejects and with what message, how older format versions
+// are upgraded, that every kind of output opens again once saved, and how the
+// exporters and app state helpers behave.
+
+const USAGE = `Usage: tsx scripts/checks.ts [options]
+
+  --case <name>         Only run checks whose name contains <name>
+  -h, --help            Show this help
+`;
+
+const BASE: Settings = { ...DEFAULT_SETTINGS, maxSize: 160, points: 200, seed: 1234 };
+
+const generate = (overrides: Partial<Settings> = {}, image = makeFixture()) =>
+  generateLowPolyData(image, 'fixture.png', { ...BASE, ...overrides });
+
+const encode = (value: unknown) => new TextEncoder().encode(typeof value === 'string' ? value : JSON.stringify(value));
+
+// Saves `data` as a regular JSON file and opens it again
+const reopen = (data: LowPolyOutput) => parseSavedOutput(encode(toJSONString(data)));
+
+// Asserts that loading `file` fails with `expected` among the reported issues
+const rejects = (file: unknown, expected: string) => {
+  assert.throws(() => parseSavedOutput(encode(file)), (e: unknown) => {
+    assert.ok(e instanceof SchemaError, `expected a SchemaError, got ${e}`);
+    assert.ok(e.issues.some(issue => issue.startsWith(expected)), `no issue starts with "${expected}" in:\n${e.issues.join('\n')}`);
+    return true;
+  });
+};
+
+// A two-triangle mesh of a 10x10 image as the original generator saved it:
+// closed vertex rings and neighbors taken from the sample points
+const VERSION_1_0 = {
+  version: '1.0',
+  image: { width: 10, height: 10, source: 'old.png' },
+  params: { sampler: 'grid', points: 4, seed: 7, color_space: 'lab' },
+  triangles: [
+    { id: 1, vertices: [[0, 0], [10, 0], [0, 10], [0, 0]], centroid: [3.33, 3.33], area_px: 50, avg_color: [200, 10, 10], neighbors: [3, 4] },
+    { id: 2, vertices: [[10, 0], [10, 10], [0, 10], [10, 0]], centroid: [6.67, 6.67], area_px: 50, avg_color: [10, 200, 10], neighbors: [1] },
+  ],
+};
+
+// Single-pixel stripes of fully saturated colors; the CIELAB mean of such a
+// mix lies outside the sRGB gamut
+const makeSaturatedFixture = (): RasterImage => {
+  const width = 64;
+  const height = 48;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const colors = [[255, 0, 0], [0, 255, 0], [0, 0, 255], [255, 0, 255], [0, 255, 255], [255, 255, 0]];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = colors[(x + 2 * y) % colors.length];
+      data.set([r, g, b, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+// Asserts that `ring` has no repeated vertex and no two edges that touch
+// other than consecutive ones at their shared vertex
+const assertSimpleRing = (ring: [number, number][], label: string) => {
+  assert.equal(new Set(ring.map(p => p.join(','))).size, ring.length, `${label} repeats a vertex`);
+  const orient = (a: number[], b: number[], c: number[]) => Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+  const within = (a: number[], b: number[], p: number[]) =>
+    Math.min(a[0], b[0]) <= p[0] && p[0] <= Math.max(a[0], b[0]) && Math.min(a[1], b[1]) <= p[1] && p[1] <= Math.max(a[1], b[1]);
+  const touch = (a: number[], b: number[], c: number[], d: number[]) => {
+    const [o1, o2, o3, o4] = [orient(a, b, c), orient(a, b, d), orient(c, d, a), orient(c, d, b)];
+    if (o1 !== o2 && o3 !== o4) return true;
+    return (o1 === 0 && within(a, b, c)) || (o2 === 0 && within(a, b, d)) || (o3 === 0 && within(c, d, a)) || (o4 === 0 && within(c, d, b));
+  };
+  const n = ring.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue;
+      assert.ok(!touch(ring[i], ring[(i + 1) % n], ring[j], ring[(j + 1) % n]), `${label} edges ${i} and ${j} cross`);
+    }
+  }
+};
+
+const vertexKey = (vertices: [number, number][]) => vertices.map(v => v.join(',')).sort().join('|');
+
+// Regions must tile exactly the triangles they were merged from
+const assertPartition = (data: LowPolyOutput, merged: LowPolyOutput) => {
+  const triangleArea = data.triangles.reduce((sum, tri) => sum + tri.area_px, 0);
+  let regionArea = 0;
+  for (const region of merged.regions!) {
+    const area = getPolygonArea(region.polygon);
+    assert.ok(Math.abs(area - region.area_px) < 1e-6 * triangleArea, `region ${region.id} outline covers ${area} px, its triangles ${region.area_px} px`);
+    assertSimpleRing(region.polygon, `region ${region.id}`);
+    regionArea += area;
+  }
+  assert.ok(Math.abs(regionArea - triangleArea) < 1e-6 * triangleArea, `regions cover ${regionArea} px, triangles ${triangleArea} px`);
+};
+
+// The polygons of an SVG export with their stroke attributes, if any
+const readSVGPolygons = (svg: string) =>
+  Array.from(svg.matchAll(/<polygon points='([^']*)' fill='([^']*)'(?: stroke='([^']*)' stroke-width='([^']*)')?/g), m => ({
+    points: m[1].split(' ').map(p => p.split(',').map(Number) as [number, number]),
+    fill: m[2],
+    stroke: m[3] as string | undefined,
+    strokeWidth: m[4] === undefined ? undefined : Number(m[4]),
+  }));
+
+// Pixels of `image` for which `test` holds
+const countPixels = ({ data }: RasterImage, test: (r: number, g: number, b: number, a: number) => boolean) => {
+  let count = 0;
+  for (let i = 0; i < data.length; i += 4) if (test(data[i], data[i + 1], data[i + 2], data[i + 3])) count++;
+  return count;
+};
+
+// CRC-32 as PNG defines it, computed bit by bit rather than with the encoder's table
+const referenceCrc = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Splits a PNG into its chunks, asserting the signature and every chunk's CRC
+const readPngChunks = (png: Uint8Array) => {
+  assert.deepEqual([...png.subarray(0, 8)], [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], 'bad PNG signature');
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: { type: string; data: DataView }[] = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    assert.equal(view.getUint32(offset + 8 + length), referenceCrc(png.subarray(offset + 4, offset + 8 + length)), `${type}: bad CRC`);
+    chunks.push({ type, data: new DataView(png.buffer, png.byteOffset + offset + 8, length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+// Every directed edge of a closed, consistently wound mesh is matched by exactly
+// one edge running the other way
+const assertWatertight = (mesh: Mesh, label: string) => {
+  const edges = new Map<string, number>();
+  for (const { indices: [a, b, c] } of mesh.faces) {
+    for (const [from, to] of [[a, b], [b, c], [c, a]]) {
+      const key = `${from},${to}`;
+      edges.set(key, (edges.get(key) ?? 0) + 1);
+    }
+  }
+  for (const [key, count] of edges) {
+    const [from, to] = key.split(',');
+    assert.equal(count, 1, `${label}: edge ${key} is used by ${count} faces`);
+    assert.equal(edges.get(`${to},${from}`), 1, `${label}: edge ${key} is open`);
+  }
+};
+
+interface EngineMesh {
+  positions: number[][];
+  indices: number[];
+  colorCount: number;
+}
+
+// Reads back what each engine exporter wrote
+const ENGINE_READERS: Record<string, (data: LowPolyOutput, options: EngineExportOptions) => EngineMesh> = {
+  three: (data, options) => {
+    const { attributes, index } = JSON.parse(toThreeJSON(data, options)).data;
+    const positions: number[][] = [];
+    for (let i = 0; i < attributes.position.array.length; i += 3) positions.push(attributes.position.array.slice(i, i + 3));
+    assert.equal(attributes.normal.array.length, attributes.position.array.length);
+    return { positions, indices: index.array, colorCount: attributes.color.array.length / 3 };
+  },
+  godot: (data, options) => {
+    const tres = toGodotTres(data, options);
+    const field = (name: string) => Number(tres.match(new RegExp(`"${name}": (\\d+)`))![1]);
+    const bytes = (name: string) =>
+      Uint8Array.from(tres.match(new RegExp(`"${name}": PackedByteArray\\(([^)]*)\\)`))![1].split(', ').map(Number));
+    const vertexData = new DataView(bytes('vertex_data').buffer);
+    const positions = Array.from({ length: field('vertex_count') }, (_, i) =>
+      [0, 1, 2].map(c => vertexData.getFloat32(i * 12 + c * 4, true)));
+    assert.equal(vertexData.byteLength, positions.length * 12);
+    const indexData = new DataView(bytes('index_data').buffer);
+    const indices = Array.from({ length: field('index_count') }, (_, i) => indexData.getUint16(i * 2, true));
+    assert.equal(indexData.byteLength, indices.length * 2);
+    return { positions, indices, colorCount: bytes('attribute_data').length / 4 };
+  },
+  unity: (data, options) => {
+    const { vertices, normals, colors32, triangles } = JSON.parse(toUnityJSON(data, options));
+    assert.equal(normals.length, vertices.length);
+    const positions = vertices.map(({ x, y, z }: { x: number; y: number; z: number }) => [x, y, z]);
+    return { positions, indices: triangles, colorCount: colors32.length };
+  },
+};
+
+// A face outline without the vertices morph resampling repeats, as a set
+const outlineKey = (points: [number, number][]) => vertexKey(points.filter((p, i) => i === 0 || p.join(',') !== points[i - 1].join(',')));
+
+// The entries of a ZIP archive of stored files, read from their local headers
+const readZip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const entries: { name: string; data: Uint8Array }[] = [];
+  for (let offset = 0; view.getUint32(offset, true) === 0x04034b50;) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const start = offset + 30 + nameLength + view.getUint16(offset + 28, true);
+    entries.push({ name: new TextDecoder().decode(zip.subarray(offset + 30, offset + 30 + nameLength)), data: zip.subarray(start, start + size) });
+    offset = start + size;
+  }
+  return entries;
+};
+
+// The test card scrolled `dx` pixels to the right, wrapping around
+const makeScrolledFixture = (dx: number): RasterImage => {
+  const { width, height, data } = makeFixture();
+  const scrolled = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) scrolled.set(data.subarray((y * width + x) * 4, (y * width + x) * 4 + 4), (y * width + (x + dx) % width) * 4);
+  }
+  return { width, height, data: scrolled };
+};
+
+const concatParts = (parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => (bytes.set(part, offset), offset + part.length), 0);
+  return bytes;
+};
+
+// Runs `check` with `stored` as the saved presets, in place of the browser's localStorage
+const withStoredPresets = (stored: string, check: () => void) => {
+  const previous = Object.getOwnPropertyDescriptor(globalThis, 'localStorage');
+  Object.defineProperty(globalThis, 'localStorage', { value: { getItem: () => stored }, configurable: true });
+  try {
+    check();
+  } finally {
+    if (previous) Object.defineProperty(globalThis, 'localStorage', previous);
+    else delete (globalThis as { localStorage?: unknown }).localStorage;
+  }
+};
+
+const CHECKS: Record<string, () => void | Promise<void>> = {
+  'rejects files that are not JSON': () => {
+    rejects('{"version": "1.2",', 'not valid JSON');
+  },
+  'rejects unknown format versions': () => {
+    rejects({ ...generate(), version: '9.0' }, 'version: unsupported format version "9.0"');
+    rejects({ ...generate(), version: 12 }, 'version: missing or not a string');
+  },
+  'rejects vertices outside the image': () => {
+    const data = generate();
+    const [tri, ...rest] = data.triangles;
+    rejects({ ...data, triangles: [{ ...tri, vertices: [tri.vertices[0], [1030, 20], tri.vertices[2]] }, ...rest] },
+      'triangles[0].vertices[1]: (1030, 20) lies outside the 160x120 image');
+  },
+  'rejects out of range colors': () => {
+    const data = generate();
+    const [tri, ...rest] = data.triangles;
+    rejects({ ...data, triangles: [{ ...tri, avg_color: [160, 123, 257] }, ...rest] }, 'triangles[0].avg_color: expected an [r, g, b] or [r, g, b, a] color');
+    rejects({ ...data, triangles: [{ ...tri, avg_color: [125, -2, 100] }, ...rest] }, 'triangles[0].avg_color: expected an [r, g, b] or [r, g, b, a] color');
+  },
+  'rejects unknown neighbor ids': () => {
+    const data = generate();
+    const [tri, ...rest] = data.triangles;
+    rejects({ ...data, triangles: [{ ...tri, neighbors: [999] }, ...rest] }, 'triangles[0].neighbors[0]: no triangles entry has id 999');
+    rejects({ ...data, triangles: [{ ...tri, neighbors: [tri.id] }, ...rest] }, 'triangles[0].neighbors[0]: a face cannot neighbor itself');
+  },
+  'rejects voronoi files without cells': () => {
+    const { cells: _, ...data } = generate({ sampler: Sampler.POISSON, geometry: GeometryKind.VORONOI });
+    rejects(data, 'cells: required for voronoi geometry');
+  },
+  'rejects broken indexed files': () => {
+    const indexed = JSON.parse(toIndexedJSONString(generate()));
+    const vertexCount = indexed.vertices.length / 2;
+    rejects({ ...indexed, triangles: { ...indexed.triangles, indices: [vertexCount, ...indexed.triangles.indices.slice(1)] } },
+      `triangles.indices[0]: ${vertexCount} is out of range for ${vertexCount} vertices`);
+    rejects({ ...indexed, triangles: { ...indexed.triangles, count: -1 } }, 'triangles.count: expected a non-negative integer');
+    rejects({ ...indexed, triangles: [] }, 'triangles: expected an object');
+    rejects({ ...indexed, vertices: ['a'] }, 'vertices: expected an array of numbers');
+  },
+  'migrates 1.0 files': () => {
+    const data = parseSavedOutput(encode(VERSION_1_0));
+    assert.equal(data.version, FORMAT_VERSION);
+    assert.equal(data.geometry, GeometryKind.TRIANGLES);
+    assert.equal(data.params.shading, 'flat');
+    assert.equal(data.params.prng, 'sin-v0');
+    assert.deepEqual(data.triangles.map(tri => tri.vertices), [[[0, 0], [10, 0], [0, 10]], [[10, 0], [10, 10], [0, 10]]]);
+    // Rebuilt from the shared edge, replacing the sample point ids
+    assert.deepEqual(data.triangles.map(tri => tri.neighbors), [[2], [1]]);
+  },
+  'migrates 1.0 files without neighbors': () => {
+    const file = { ...VERSION_1_0, triangles: VERSION_1_0.triangles.map(tri => ({ ...tri, neighbors: [] })) };
+    assert.deepEqual(parseSavedOutput(encode(file)).triangles.map(tri => tri.neighbors), [[], []]);
+  },
+  'migrates 1.1 files': () => {
+    const { version: _, params: { prng: __, ...params }, ...rest } = generate();
+    const data = parseSavedOutput(encode({ version: '1.1', params, ...rest }));
+    assert.equal(data.version, FORMAT_VERSION);
+    // Seeds of the sin-based generator are tagged rather than reused as sfc32 seeds
+    assert.equal(data.params.prng, 'sin-v0');
+    assert.deepEqual(data.triangles, rest.triangles);
+  },
+  'migrates 1.2 files': () => {
+    // Written before the edited points, lighting, filters, alpha and color statistics
+    const { points: _, triangles, ...rest } = generate();
+    const file = {
+      ...rest,
+      version: '1.2',
+      triangles: triangles.map(({ pixel_count: __, color_std: ___, luminance_range: ____, ...tri }) => tri),
+    };
+    const data = parseSavedOutput(encode(file));
+    assert.equal(data.version, FORMAT_VERSION);
+    assert.deepEqual(data, { ...file, version: FORMAT_VERSION });
+  },
+  'merges triangles into a gap-free partition': () => {
+    const data = generate({ sampler: Sampler.EDGE_AWARE });
+    assertPartition(data, mergeTriangles(data, 8, scaleImageData(makeFixture(), BASE.maxSize)));
+  },
+  'merges the triangles of cut-outs into a gap-free partition': () => {
+    const image = makeSpriteFixture();
+    const data = generate({ sampler: Sampler.POISSON }, image);
+    assertPartition(data, mergeTriangles(data, 8, scaleImageData(image, BASE.maxSize)));
+  },
+  'merged regions cover the whole image': () => {
+    const { image, regions } = generate({ mergeRegions: true });
+    const area = regions!.reduce((sum, region) => sum + getPolygonArea(region.polygon), 0);
+    assert.ok(Math.abs(area - image.width * image.height) < 1e-6, `regions cover ${area} of ${image.width * image.height} px`);
+  },
+  'merged regions count each pixel once': () => {
+    const { regions } = generate({ mergeRegions: true });
+    const { triangles } = generate();
+    // Sliver triangles along the border are dropped, so compare with the pixels
+    // the triangles are colored from rather than the whole image
+    const { width, height } = scaleImageData(makeFixture(), BASE.maxSize);
+    const covered = new Uint8Array(width * height);
+    for (const tri of triangles) {
+      const contains = createTriangleTest(tri.vertices);
+      const xs = tri.vertices.map(v => v[0]);
+      const ys = tri.vertices.map(v => v[1]);
+      for (let y = Math.floor(Math.min(...ys)); y < Math.ceil(Math.max(...ys)); y++) {
+        for (let x = Math.floor(Math.min(...xs)); x < Math.ceil(Math.max(...xs)); x++) {
+          if (contains(x, y)) covered[y * width + x] = 1;
+        }
+      }
+    }
+    let pixels = 0;
+    for (const region of regions!) {
+      assert.ok(region.color_std && region.luminance_range !== undefined, `region ${region.id} has no color statistics`);
+      pixels += region.pixel_count ?? 0;
+    }
+    assert.equal(pixels, covered.reduce((sum, value) => sum + value, 0));
+  },
+  'retriangulation keeps the triangles away from an edit': () => {
+    const image = makeFixture();
+    const data = generate({ sampler: Sampler.POISSON, shading: ShadingMode.GRADIENT });
+    const scaled = scaleImageData(image, BASE.maxSize);
+    const points = data.points!;
+    const edits: Record<string, [number, number][]> = {
+      moved: points.map(([x, y], i): [number, number] => i === 150 ? [x + 3.3, y - 2.1] : [x, y]),
+      added: [...points, [41.3, 57.7]],
+      deleted: points.filter((_, i) => i !== 150),
+    };
+    for (const [edit, edited] of Object.entries(edits)) {
+      const result = retriangulate(data, edited, [], scaled);
+      const before = new Map(data.triangles.map(tri => [vertexKey(tri.vertices), tri]));
+      const after = new Map(result.triangles.map(tri => [vertexKey(tri.vertices), tri]));
+      // Same mesh as triangulating every point
+      const expected = Array.from(Delaunay.from(edited).trianglePolygons(), polygon => polygon.slice(0, 3) as Triangle['vertices'])
+        .filter(vertices => getArea(vertices) >= 1);
+      assert.deepEqual([...after.keys()].sort(), expected.map(vertexKey).sort(), `${edit}: the mesh differs from a full triangulation`);
+
+      let kept = 0;
+      for (const [key, tri] of before) {
+        const same = after.get(key);
+        if (!same) continue;
+        kept++;
+        const { neighbors: _, ...fields } = tri;
+        const { neighbors: __, ...keptFields } = same;
+        assert.deepEqual(keptFields, fields, `${edit}: triangle ${tri.id} changed`);
+      }
+      assert.ok(kept >= data.triangles.length - 20, `${edit}: only ${kept} of ${data.triangles.length} triangles kept`);
+      const byId = new Map(result.triangles.map(tri => [tri.id, tri]));
+      assert.equal(byId.size, result.triangles.length, `${edit}: duplicate triangle ids`);
+      for (const tri of result.triangles) {
+        for (const id of tri.neighbors) {
+          assert.ok(byId.get(id)?.neighbors.includes(tri.id), `${edit}: triangle ${tri.id} lists ${id}, which doesn't list it back`);
+        }
+      }
+    }
+  },
+  'reads lighting and mesh heights from the scaled, filtered source': () => {
+    const filters: ImageFilter[] = [{ type: 'contrast', amount: 0.4 }, { type: 'brightness', amount: -0.2 }];
+    const data = generate({ filters });
+    const raster = getSourceRaster(makeFixture(), data);
+    assert.deepEqual([raster.width, raster.height], [data.image.width, data.image.height]);
+    assert.deepEqual(raster.data, applyFilters(scaleImageData(makeFixture(), BASE.maxSize), filters).data);
+    // Heights from the unfiltered image would light the faces differently
+    const lighting = { ...DEFAULT_LIGHTING, relief: 0.2 };
+    const normals = (image: RasterImage) => applyLighting(data, image, lighting).triangles.map(tri => tri.normal!.join());
+    const unfiltered = normals(scaleImageData(makeFixture(), BASE.maxSize));
+    assert.ok(normals(raster).some((normal, i) => normal !== unfiltered[i]), 'the filters don\'t change the normals');
+  },
+  'lights triangles, voronoi cells and merged regions': () => {
+    const image = scaleImageData(makeFixture(), BASE.maxSize);
+    const outputs = {
+      triangles: generate(),
+      cells: generate({ sampler: Sampler.POISSON, geometry: GeometryKind.VORONOI }),
+      regions: generate({ mergeRegions: true }),
+    };
+    for (const [kind, data] of Object.entries(outputs)) {
+      const lit = applyLighting(data, image, { ...DEFAULT_LIGHTING, relief: 0.2 });
+      const faces = lit[kind as keyof typeof outputs]!;
+      assert.ok(faces.length > 0, `${kind}: no faces`);
+      for (const face of faces) {
+        const n = face.normal;
+        assert.ok(n && Math.abs(Math.hypot(...n) - 1) < 1e-3 && n[2] > 0, `${kind}: face ${face.id} has normal ${JSON.stringify(n)}`);
+      }
+      const before = getRenderFaces(data);
+      const shaded = getRenderFaces(lit).filter((face, i) => face.color.join() !== before[i].color.join());
+      assert.ok(shaded.length > faces.length / 2, `${kind}: only ${shaded.length} of ${faces.length} faces are shaded`);
+      assert.equal(toJSONString(reopen(lit)), toJSONString(lit), `${kind}: the lit output doesn't reopen`);
+      assert.equal(toJSONString(parseSavedOutput(toIndexedBinary(lit))), toJSONString(lit), `${kind}: the lit output doesn't round-trip the binary format`);
+      assert.equal(toJSONString(removeLighting(lit)), toJSONString(data), `${kind}: removing the light leaves normals behind`);
+    }
+  },
+  'draws each stroke style in SVG exports': () => {
+    const data = generate({ sampler: Sampler.GRID });
+    const base: RenderStyle = { strokeMode: StrokeMode.NONE, strokeColor: '#123456', strokeWidth: 2.5, gapSize: 0.2 };
+    const svg = (style: Partial<RenderStyle>) => readSVGPolygons(toSVGString(data, { ...base, ...style }));
+    const none = svg({});
+    assert.equal(none.length, data.triangles.length);
+    assert.ok(none.every(p => p.stroke === undefined), 'none: a face is stroked');
+    assert.ok(svg({ strokeMode: StrokeMode.MATCH }).every(p => p.stroke === p.fill && p.strokeWidth === 1), 'match: a stroke differs from its fill');
+    assert.ok(svg({ strokeMode: StrokeMode.OUTLINE }).every(p => p.stroke === '#123456' && p.strokeWidth === 2.5), 'outline: a stroke differs from the style');
+    assert.ok(svg({ strokeMode: StrokeMode.OUTLINE, strokeWidth: 0 }).every(p => p.stroke === undefined), 'outline: a zero width outline is drawn');
+    const injected = toSVGString(data, { ...base, strokeMode: StrokeMode.OUTLINE, strokeColor: "x'/><script>" });
+    assert.ok(!injected.includes('<script>') && injected.includes(`stroke='x&#39;/&gt;&lt;script&gt;'`), 'outline: the stroke color is not escaped');
+    // Shrinking toward the centroid scales each face's area by (1 - gap)^2
+    const gap = svg({ strokeMode: StrokeMode.GAP });
+    assert.ok(gap.every(p => p.stroke === undefined), 'gap: a face is stroked');
+    gap.forEach((p, i) => {
+      const expected = getPolygonArea(none[i].points) * 0.64;
+      assert.ok(Math.abs(getPolygonArea(p.points) - expected) < 0.02 * expected + 0.1, `gap: face ${i} covers ${getPolygonArea(p.points)} px, expected ${expected}`);
+    });
+  },
+  'draws each stroke style in raster exports': async () => {
+    const data = generate({ sampler: Sampler.GRID });
+    const base: RenderStyle = { strokeMode: StrokeMode.NONE, strokeColor: '#123456', strokeWidth: 2.5, gapSize: 0.2 };
+    const render = (style: Partial<RenderStyle>) =>
+      renderRaster(data, { ...DEFAULT_RASTER_EXPORT_OPTIONS, scale: 2, samples: 1, style: { ...base, ...style } });
+    const none = await render({});
+    const total = none.width * none.height;
+    const isStroke = (r: number, g: number, b: number) => r === 0x12 && g === 0x34 && b === 0x56;
+    const isEmpty = (_r: number, _g: number, _b: number, a: number) => a === 0;
+    assert.equal(countPixels(none, isStroke), 0);
+    assert.ok(countPixels(none, isEmpty) < 0.01 * total, `none: ${countPixels(none, isEmpty)} pixels are left empty`);
+    // Rasterized faces leave no seams, so matching strokes change nothing
+    assert.deepEqual((await render({ strokeMode: StrokeMode.MATCH })).data, none.data);
+    const outline = await render({ strokeMode: StrokeMode.OUTLINE });
+    const stroked = countPixels(outline, isStroke);
+    assert.ok(stroked > 0.1 * total && stroked < 0.9 * total, `outline: ${stroked} of ${total} pixels are stroked`);
+    await assert.rejects(render({ strokeMode: StrokeMode.OUTLINE, strokeColor: 'red' }), /hex color/);
+    const gap = await render({ strokeMode: StrokeMode.GAP });
+    const empty = countPixels(gap, isEmpty);
+    assert.ok(Math.abs(empty / total - 0.36) < 0.03, `gap: ${empty} of ${total} pixels are left empty, expected about 36%`);
+    assert.equal(countPixels(gap, isStroke), 0);
+  },
+  'renders at the requested size': async () => {
+    const data = generate();
+    assert.deepEqual(getExportSize(data, 1.37), [219, 164]);
+    // --long-side and the app's long side field turn the side into a scale
+    assert.deepEqual(getExportSize(data, 1000 / 160), [1000, 750]);
+    assert.deepEqual(getExportSize(data, 0.001), [1, 1]);
+    const raster = await renderRaster(data, { ...DEFAULT_RASTER_EXPORT_OPTIONS, scale: 1.37 });
+    assert.deepEqual([raster.width, raster.height, raster.data.length], [219, 164, 219 * 164 * 4]);
+  },
+  'renders large images in bands without seams': async () => {
+    const data = generate();
+    // Wide enough that one band of samples can't hold the image
+    const options: RasterExportOptions = { ...DEFAULT_RASTER_EXPORT_OPTIONS, scale: 33, samples: 1 };
+    const [width, height] = getExportSize(data, options.scale);
+    assert.ok(width * height > 2 ** 24, 'the render fits in one band');
+    const banded = await renderRaster(data, options);
+    const faces = withOutlineFaces(getStyledFaces(data, options.style), options.style).map(face => ({
+      ...face,
+      points: face.points.map(([x, y]): [number, number] => [x * width / data.image.width, y * height / data.image.height]),
+    }));
+    const whole = rasterizeFaces(faces, width, height);
+    assert.ok(banded.data.every((value, i) => value === whole.data[i]), 'the banded render differs from a single pass');
+  },
+  'encodes valid PNG files': async () => {
+    const data = generate({}, makeSpriteFixture());
+    for (const background of [null, '#204080']) {
+      const options: RasterExportOptions = { ...DEFAULT_RASTER_EXPORT_OPTIONS, scale: 1.37, samples: 2, dpi: 150, background };
+      const png = concatParts(await renderPng(data, options));
+      const chunks = readPngChunks(png);
+      assert.deepEqual(chunks.map(c => c.type).filter((type, i, all) => type !== all[i - 1]), ['IHDR', 'pHYs', 'IDAT', 'IEND']);
+      const ihdr = chunks[0].data;
+      assert.equal(ihdr.byteLength, 13);
+      const opaque = background !== null;
+      // 8 bit truecolor, with alpha unless there is a background; deflate, no interlacing
+      assert.deepEqual([ihdr.getUint32(0), ihdr.getUint32(4), ihdr.getUint8(8), ihdr.getUint8(9), ihdr.getUint8(10), ihdr.getUint8(11), ihdr.getUint8(12)],
+        [219, 164, 8, opaque ? 2 : 6, 0, 0, 0]);
+      const phys = chunks[1].data;
+      assert.deepEqual([phys.getUint32(0), phys.getUint32(4), phys.getUint8(8)], [5906, 5906, 1]);
+
+      const decoded = decodePng(png, { checkCrc: true });
+      const raster = await renderRaster(data, options);
+      const expected = opaque ? raster.data.filter((_, i) => i % 4 !== 3) : raster.data;
+      assert.deepEqual([decoded.width, decoded.height, decoded.channels], [219, 164, opaque ? 3 : 4]);
+      assert.ok(expected.every((value, i) => value === decoded.data[i]), `${background ?? 'transparent'}: the PNG pixels differ from the render`);
+    }
+  },
+  'closes every kind of mesh into a watertight solid': () => {
+    const image = scaleImageData(makeFixture(), BASE.maxSize);
+    const outputs = {
+      triangles: generate(),
+      cells: generate({ sampler: Sampler.POISSON, geometry: GeometryKind.VORONOI }),
+      regions: generate({ mergeRegions: true }),
+      'cut-out': generate({}, makeSpriteFixture()),
+    };
+    for (const [kind, data] of Object.entries(outputs)) {
+      const open = buildMesh(data, { ...DEFAULT_MESH_OPTIONS, base: 0 }, image);
+      const solid = buildMesh(data, DEFAULT_MESH_OPTIONS, image);
+      assertWatertight(solid, kind);
+      assert.ok(solid.faces.length > 2 * open.faces.length, `${kind}: no walls`);
+      assert.ok(solid.positions.every(p => p[2] >= -DEFAULT_MESH_OPTIONS.base * DEFAULT_MESH_OPTIONS.size), `${kind}: a vertex lies below the base`);
+    }
+    assert.equal(buildMesh(outputs.triangles, { ...DEFAULT_MESH_OPTIONS, base: 0 }, image).faces.length, outputs.triangles.triangles.length);
+  },
+  'writes OBJ faces within the vertex list': () => {
+    const data = generate({ mergeRegions: true });
+    for (const colors of ['face', 'vertex'] as const) {
+      const mesh = buildMesh(data, { ...DEFAULT_MESH_OPTIONS, colors }, scaleImageData(makeFixture(), BASE.maxSize));
+      const { obj, mtl } = toOBJ(mesh, colors, 'test.mtl');
+      const lines = obj.trim().split('\n');
+      const vertices = lines.filter(line => line.startsWith('v '));
+      const faces = lines.filter(line => line.startsWith('f '));
+      assert.equal(lines[1], 'mtllib test.mtl');
+      assert.equal(vertices.length, mesh.positions.length);
+      assert.ok(vertices.every(line => line.split(' ').length === (colors === 'vertex' ? 7 : 4)), `${colors}: malformed vertex line`);
+      assert.equal(lines.filter(line => line.startsWith('vt ')).length, mesh.positions.length);
+      assert.equal(faces.length, mesh.faces.length);
+      for (const line of faces) {
+        const refs = line.split(' ').slice(1);
+        assert.equal(refs.length, 3, `${colors}: "${line}" is not a triangle`);
+        for (const ref of refs) {
+          assert.ok(ref.split('/').every(index => Number.isInteger(Number(index)) && Number(index) >= 1 && Number(index) <= vertices.length),
+            `${colors}: "${line}" refers outside the ${vertices.length} vertices`);
+        }
+      }
+      const defined = new Set(mtl.split('\n').filter(line => line.startsWith('newmtl ')).map(line => line.slice(7)));
+      for (const line of lines.filter(line => line.startsWith('usemtl '))) assert.ok(defined.has(line.slice(7)), `${colors}: "${line}" is not in the MTL`);
+    }
+  },
+  'writes one binary STL facet per mesh face': () => {
+    const data = generate();
+    const image = scaleImageData(makeFixture(), BASE.maxSize);
+    for (const base of [0, DEFAULT_MESH_OPTIONS.base]) {
+      const mesh = buildMesh(data, { ...DEFAULT_MESH_OPTIONS, base }, image);
+      const stl = toSTL(mesh, 'face');
+      const view = new DataView(stl.buffer, stl.byteOffset, stl.byteLength);
+      const count = view.getUint32(80, true);
+      assert.equal(count, base === 0 ? data.triangles.length : mesh.faces.length);
+      assert.equal(stl.length, 84 + 50 * count);
+      // Facet corners are the mesh positions, in face order
+      mesh.faces.forEach(({ indices }, i) => {
+        indices.forEach((index, k) => {
+          const stored = [0, 1, 2].map(c => view.getFloat32(84 + i * 50 + 12 + k * 12 + c * 4, true));
+          assert.deepEqual(stored, mesh.positions[index].map(Math.fround), `facet ${i} corner ${k}`);
+        });
+      });
+    }
+  },
+  'writes well-formed GLB files': () => {
+    const data = generate({ sampler: Sampler.POISSON, geometry: GeometryKind.VORONOI });
+    for (const colors of ['face', 'vertex'] as const) {
+      const mesh = buildMesh(data, { ...DEFAULT_MESH_OPTIONS, colors }, scaleImageData(makeFixture(), BASE.maxSize));
+      const glb = toGLB(mesh, colors);
+      const view = new DataView(glb.buffer, glb.byteOffset, glb.byteLength);
+      assert.deepEqual([view.getUint32(0, true), view.getUint32(4, true), view.getUint32(8, true)], [0x46546c67, 2, glb.length]);
+      const jsonLength = view.getUint32(12, true);
+      assert.equal(view.getUint32(16, true), 0x4e4f534a, 'the first chunk is not JSON');
+      const binStart = 20 + jsonLength;
+      const binLength = view.getUint32(binStart, true);
+      assert.equal(view.getUint32(binStart + 4, true), 0x004e4942, 'the second chunk is not BIN');
+      assert.ok(jsonLength % 4 === 0 && binLength % 4 === 0, `${colors}: chunks of ${jsonLength} and ${binLength} bytes are not padded to 4`);
+      assert.equal(binStart + 8 + binLength, glb.length, `${colors}: chunk lengths don't add up to the file`);
+
+      const json = JSON.parse(new TextDecoder().decode(glb.subarray(20, binStart)));
+      const bin = glb.subarray(binStart + 8);
+      assert.ok(json.buffers[0].byteLength <= binLength && json.buffers[0].byteLength > binLength - 4);
+      for (const bufferView of json.bufferViews) {
+        assert.ok(bufferView.byteOffset % 4 === 0 && bufferView.byteOffset + bufferView.byteLength <= json.buffers[0].byteLength, `${colors}: buffer view out of bounds`);
+      }
+      const read = (accessor: number) => {
+        const { bufferView, componentType, count, type } = json.accessors[accessor];
+        const { byteOffset, byteLength } = json.bufferViews[bufferView];
+        const bytes = bin.slice(byteOffset, byteOffset + byteLength);
+        const values = componentType === 5126 ? new Float32Array(bytes.buffer) : new Uint32Array(bytes.buffer);
+        assert.equal(values.length, count * ({ VEC3: 3, VEC2: 2, SCALAR: 1 } as Record<string, number>)[type]);
+        return values;
+      };
+      const primitives = json.meshes[0].primitives;
+      const { POSITION, COLOR_0 } = primitives[0].attributes;
+      const positions = read(POSITION);
+      assert.equal(json.accessors[POSITION].count, mesh.positions.length);
+      assert.equal(COLOR_0 !== undefined, colors === 'vertex');
+      const { min, max } = json.accessors[POSITION];
+      assert.ok(positions.every((value, i) => value >= min[i % 3] && value <= max[i % 3]), `${colors}: a position lies outside min/max`);
+      let indexCount = 0;
+      for (const primitive of primitives) {
+        const indices = read(primitive.indices);
+        indexCount += indices.length;
+        assert.ok(indices.every(index => index < mesh.positions.length), `${colors}: an index is out of range`);
+        assert.ok(primitive.material < json.materials.length);
+      }
+      assert.equal(indexCount, mesh.faces.length * 3);
+    }
+  },
+  'exports engine meshes with the faces of the source mesh': () => {
+    const data = generate({ mergeRegions: true });
+    const { width, height } = data.image;
+    const mesh = buildMesh(data, { ...DEFAULT_MESH_OPTIONS, heightSource: 'flat', base: 0 });
+    for (const [format, read] of Object.entries(ENGINE_READERS)) {
+      for (const colors of ['face', 'vertex'] as const) {
+        for (const units of ['normalized', 'pixels'] as const) {
+          const label = `${format}, ${colors} colors, ${units}`;
+          const { positions, indices, colorCount } = read(data, { yUp: true, units, colors });
+          assert.equal(indices.length, mesh.faces.length * 3, `${label}: face count`);
+          assert.equal(positions.length, colors === 'face' ? mesh.faces.length * 3 : mesh.positions.length, `${label}: vertex count`);
+          assert.equal(colorCount, positions.length, `${label}: color count`);
+          assert.ok(indices.every(index => Number.isInteger(index) && index >= 0 && index < positions.length), `${label}: an index is out of range`);
+          const scale = units === 'pixels' ? 1 : 1 / Math.max(width, height);
+          assert.ok(positions.every(([x, y, z]) => x >= 0 && x <= width * scale + 1e-6 && y >= 0 && y <= height * scale + 1e-6 && z === 0),
+            `${label}: a vertex lies outside the image`);
+          // Three.js faces its camera counter-clockwise, Godot and Unity clockwise
+          for (let i = 0; i < indices.length; i += 3) {
+            const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]].map(index => positions[index]);
+            const winding = (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+            assert.ok(format === 'three' ? winding > 0 : winding < 0, `${label}: face ${i / 3} is wound the wrong way`);
+          }
+        }
+      }
+    }
+    const triangles = generate();
+    assert.equal(ENGINE_READERS.three(triangles, { yUp: false, units: 'pixels', colors: 'face' }).indices.length, triangles.triangles.length * 3);
+  },
+  'computes exp, log and pow to within 1e-14 of Math': () => {
+    const near = (actual: number, expected: number, label: string) =>
+      assert.ok(Math.abs(actual - expected) <= 1e-14 * Math.abs(expected), `${label}: got ${actual}, expected ${expected}`);
+    for (let i = 0; i <= 20000; i++) {
+      const x = -745 + (i / 20000) * 1454;
+      if (Math.exp(x) > 1e-300) near(exp(x), Math.exp(x), `exp(${x})`);
+      const y = 10 ** (-300 + (i / 20000) * 600);
+      near(log(y), Math.log(y), `log(${y})`);
+      const c = i / 20000;
+      near(pow(c, 2.4), Math.pow(c, 2.4), `pow(${c}, 2.4)`);
+      near(pow(c, 1 / 3), Math.cbrt(c), `pow(${c}, 1/3)`);
+    }
+    assert.deepEqual([exp(0), exp(-Infinity), exp(Infinity), log(1), log(0), pow(0, 2), pow(7, 0)], [1, 0, Infinity, 0, -Infinity, 0, 1]);
+    assert.ok(Number.isNaN(log(-1)) && Number.isNaN(exp(NaN)), 'NaN in, NaN out');
+  },
+  'converts sRGB to CIELAB and back': () => {
+    const near = (actual: number[], expected: number[], label: string) =>
+      assert.ok(actual.every((v, i) => Math.abs(v - expected[i]) < 0.01), `${label}: got ${actual}, expected ${expected}`);
+    near(rgbToLab([255, 255, 255]), [100, 0, 0], 'white');
+    near(rgbToLab([0, 0, 0]), [0, 0, 0], 'black');
+    near(rgbToLab([255, 0, 0]), [54.292, 80.812, 69.885], 'red');
+    near(rgbToLab([0, 0, 255]), [29.568, 68.299, -112.029], 'blue');
+    for (let c = 0; c < 256; c++) {
+      const [, a, b] = rgbToLab([c, c, c]);
+      assert.ok(a === 0 && b === 0, `gray ${c} has a ${a} and b ${b}`);
+    }
+    for (let r = 0; r < 256; r += 5) {
+      for (let g = 0; g < 256; g += 5) {
+        for (let b = 0; b < 256; b += 5) assert.deepEqual(labToRgb(rgbToLab([r, g, b])), [r, g, b]);
+      }
+    }
+    // Out-of-gamut colors are clamped rather than wrapped
+    assert.deepEqual(labToRgb([120, 0, 0]), [255, 255, 255]);
+    assert.deepEqual(labToRgb([-10, 0, 0]), [0, 0, 0]);
+  },
+  'morphs from exactly the start mesh to exactly the end mesh': () => {
+    const start = generate();
+    const end = generate({ sampler: Sampler.EDGE_AWARE, points: 120, seed: 99, mergeRegions: true });
+    const morph = buildMorph(start, end);
+    const [startFaces, endFaces] = [getRenderFaces(start), getRenderFaces(end)];
+    assert.ok(morph.faces.length >= Math.max(startFaces.length, endFaces.length), 'a face has no partner');
+    assert.ok(morph.faces.length <= startFaces.length + endFaces.length, 'a face has more than one partner on both sides');
+
+    // The end mesh is drawn on the start's frame
+    const scaleX = start.image.width / end.image.width;
+    const scaleY = start.image.height / end.image.height;
+    const scaled = endFaces.map(face => ({ ...face, points: face.points.map(([x, y]): [number, number] => [x * scaleX, y * scaleY]) }));
+    for (const [progress, expected] of [[0, startFaces], [1, scaled]] as const) {
+      const colors = new Map(expected.map(face => [outlineKey(face.points), face.color.join(',')]));
+      const frame = getMorphFaces(morph, progress);
+      assert.equal(frame.length, morph.faces.length, `frame ${progress} face count`);
+      for (const face of frame) {
+        const color = colors.get(outlineKey(face.points));
+        assert.ok(color !== undefined, `frame ${progress}: face ${face.id} is not a face of the mesh`);
+        assert.equal(face.color.join(','), color, `frame ${progress}: face ${face.id} color`);
+      }
+      assert.deepEqual(new Set(frame.map(face => outlineKey(face.points))), new Set(colors.keys()), `frame ${progress} leaves out a face`);
+    }
+
+    // Halfway, each face sits between its two ends, colored halfway in CIELAB
+    const [first, mid, last] = [0, 0.5, 1].map(progress => getMorphFaces(morph, progress));
+    assert.equal(mid.length, morph.faces.length);
+    mid.forEach((face, i) => {
+      face.points.forEach(([x, y], k) => {
+        assert.ok(Math.abs(x - (first[i].points[k][0] + last[i].points[k][0]) / 2) < 1e-9, `face ${i} vertex ${k} x`);
+        assert.ok(Math.abs(y - (first[i].points[k][1] + last[i].points[k][1]) / 2) < 1e-9, `face ${i} vertex ${k} y`);
+      });
+      const [a, b] = [rgbToLab(first[i].color), rgbToLab(last[i].color)];
+      assert.deepEqual(face.color, labToRgb([(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2]), `face ${i} color`);
+    });
+
+    // A mesh morphing into itself stands still
+    const still = buildMorph(start, start);
+    assert.equal(still.faces.length, startFaces.length);
+    for (const face of getMorphFaces(still, 0.5)) assert.equal(outlineKey(face.points), outlineKey(startFaces[face.id].points));
+  },
+  'times morphs with easing, ping-pong and loops': () => {
+    const options = { ...DEFAULT_MORPH_OPTIONS, duration: 2, easing: 'linear' as const };
+    assert.deepEqual([0, 1, 2, 3, 4, 5].map(time => getMorphProgress(options, time)), [0, 0.5, 1, 0.5, 0, 0.5]);
+    assert.deepEqual([0, 1, 2, 3].map(time => getMorphProgress({ ...options, pingPong: false, loop: false }, time)), [0, 0.5, 1, 1]);
+    assert.ok(Math.abs(getMorphProgress({ ...options, easing: 'ease-in-out' }, 1) - 0.5) < 1e-6, 'ease-in-out is symmetric');
+    assert.ok(getMorphProgress({ ...options, easing: 'ease-in-out' }, 0.5) < 0.25, 'ease-in-out starts slowly');
+
+    const frames = getMorphFrameProgress({ ...options, fps: 2 });
+    assert.deepEqual(frames, [0, 0.25, 0.5, 0.75, 1, 0.75, 0.5, 0.25]);
+    assert.deepEqual(getMorphFrameProgress({ ...options, fps: 2, pingPong: false }), [0, 0.25, 0.5, 0.75, 1]);
+  },
+  'generates one frame per image of a sequence, the same way every time': () => {
+    const frames = [0, 0, 3, 6].map(makeScrolledFixture);
+    const names = ['walk.png', 'walk.jpg', 'clips/run.png', 'run.PNG'];
+    const settings = { ...BASE, mergeRegions: true };
+    const outputs = generateSequence(frames, names, settings);
+    assert.equal(outputs.length, frames.length);
+    outputs.forEach((output, f) => {
+      assert.equal(output.image.source, names[f], `frame ${f} source`);
+      assert.deepEqual([output.image.width, output.image.height], [160, 120], `frame ${f} size`);
+      assert.ok(output.triangles.length > 0, `frame ${f} has no faces`);
+      assert.equal(output.regions, undefined, `frame ${f} merged its regions`);
+      assert.equal(new Set(output.triangles.map(tri => tri.id)).size, output.triangles.length, `frame ${f} repeats a face id`);
+    });
+    // Nothing moves between the first two frames, so every face keeps its id
+    assert.deepEqual(outputs[1].triangles.map(tri => tri.id).sort(), outputs[0].triangles.map(tri => tri.id).sort(), 'a still frame renumbered faces');
+
+    const again = generateSequence(frames, names, settings);
+    assert.deepEqual(again.map(output => toJSONString(output)), outputs.map(output => toJSONString(output)), 'the same seed gave other frames');
+    const reseeded = generateSequence(frames, names, { ...settings, seed: 4321 });
+    assert.notEqual(toJSONString(reseeded[0]), toJSONString(outputs[0]), 'the seed is ignored');
+
+    assert.deepEqual(readZip(toSequenceJSONZip(outputs)).map(entry => entry.name), ['walk.json', 'walk-2.json', 'run.json', 'run-2.json']);
+    const pngs = readZip(toSequenceFramesZip(outputs));
+    assert.deepEqual(pngs.map(entry => entry.name), ['frame_0001.png', 'frame_0002.png', 'frame_0003.png', 'frame_0004.png']);
+    for (const { name, data } of pngs) {
+      const png = decodePng(data, { checkCrc: true });
+      assert.deepEqual([png.width, png.height], [160, 120], `${name} size`);
+    }
+
+    const svg = toSequenceSVGString(outputs, 12);
+    const ids = new Set(outputs.flatMap(output => getStyledFaces(output, DEFAULT_RENDER_STYLE).map(face => face.id)));
+    assert.equal(svg.match(/<polygon /g)!.length, ids.size, 'one polygon per face id');
+    assert.ok(svg.includes(`dur='${frames.length / 12}s'`) && svg.includes(`keyTimes='0;0.25;0.5;0.75'`), 'frame timing');
+  },
+  'rejects sequences without frames or with frames of different sizes': () => {
+    assert.throws(() => generateSequence([], [], BASE), /at least one frame/);
+    const other = scaleImageData(makeFixture(), 100);
+    const cropped = { ...other, height: other.height - 10, data: other.data.subarray(0, other.width * (other.height - 10) * 4) };
+    assert.throws(() => generateSequence([makeFixture(), cropped], ['a.png', 'b.png'], { ...BASE, maxSize: 200 }), /same size/);
+  },
+  'round-trips settings through the URL hash': () => {
+    assert.equal(encodeSettingsHash(DEFAULT_SETTINGS), '');
+    assert.equal(decodeSettingsHash(''), null);
+    assert.equal(decodeSettingsHash('#s=not base64!'), null);
+    const settings: Settings = {
+      ...DEFAULT_SETTINGS,
+      sampler: Sampler.ADAPTIVE,
+      points: 1234,
+      customPalette: ['#000000', '#ffffff', 'màu đỏ'],
+      filters: [{ type: 'median', radius: 2 }],
+      strokeColor: '#abc',
+    };
+    assert.deepEqual(decodeSettingsHash(encodeSettingsHash(settings)), settings);
+  },
+  'falls back to defaults for invalid URL settings': () => {
+    const hash = '#s=' + Buffer.from(JSON.stringify({ points: -5, maxSize: 'big', seed: 7, strokeColor: "x'/><script>", geometry: 'regions', mergeTolerance: -1, unknown: 1 })).toString('base64url');
+    assert.deepEqual(decodeSettingsHash(hash), { ...DEFAULT_SETTINGS, seed: 7 });
+  },
+  'applies presets without touching image-specific settings': () => {
+    const current: Settings = { ...DEFAULT_SETTINGS, points: 500, lockedPoints: [[0.5, 0.5]] };
+    const next = applyPreset(current, { name: 'Test', settings: { sampler: Sampler.GRID, lockedPoints: [] } });
+    assert.deepEqual(next, { ...DEFAULT_SETTINGS, sampler: Sampler.GRID, lockedPoints: [[0.5, 0.5]] });
+  },
+  'normalizes stored presets': () => {
+    const stored = JSON.stringify([
+      { name: 'Stale', settings: { points: 0, maxSize: 512.5, sampler: 'hexagons', gapSize: 3, seed: 9, densityMask: null } },
+      { name: 'Broken', settings: null },
+      { settings: {} },
+    ]);
+    withStoredPresets(stored, () => {
+      const presets = loadUserPresets();
+      assert.deepEqual(presets.map(p => p.name), ['Stale']);
+      assert.deepEqual(applyPreset(DEFAULT_SETTINGS, presets[0]), { ...DEFAULT_SETTINGS, seed: 9 });
+    });
+    withStoredPresets('{', () => assert.deepEqual(loadUserPresets(), []));
+  },
+  'coalesces rapid history pushes with the same key': () => {
+    let history = createHistory(0);
+    history = pushHistory(history, 1, 'points', 1000);
+    history = pushHistory(history, 2, 'points', 1200);
+    history = pushHistory(history, 3, 'points', 1600);
+    assert.deepEqual([history.past, history.present], [[0], 3]);
+    // Too late, a different key or no key at all start a new step
+    history = pushHistory(history, 4, 'points', 2200);
+    history = pushHistory(history, 5, 'seed', 2300);
+    history = pushHistory(history, 6, null, 2400);
+    history = pushHistory(history, 7, null, 2500);
+    assert.deepEqual([history.past, history.present], [[0, 3, 4, 5, 6], 7]);
+  },
+  'undoes and redoes history steps': () => {
+    let history = createHistory('a');
+    history = pushHistory(history, 'b', null, 0);
+    history = pushHistory(history, 'c', null, 0);
+    assert.equal(undo(createHistory('a')).present, 'a');
+    history = undo(undo(history));
+    assert.deepEqual([history.past, history.present, history.future], [[], 'a', ['b', 'c']]);
+    assert.equal(undo(history), history);
+    history = redo(history);
+    assert.deepEqual([history.past, history.present, history.future], [['a'], 'b', ['c']]);
+    // An undo ends coalescing, and a new push drops the redo steps
+    history = pushHistory(pushHistory(history, 'd', 'k', 0), 'e', 'k', 100);
+    history = pushHistory(undo(history), 'f', 'k', 200);
+    assert.deepEqual([history.past, history.present, history.future], [['a', 'b'], 'f', []]);
+    assert.equal(redo(history), history);
+  },
+  'keeps at most HISTORY_LIMIT undo steps': () => {
+    let history = createHistory(0);
+    for (let i = 1; i <= HISTORY_LIMIT + 10; i++) history = pushHistory(history, i);
+    assert.equal(history.past.length, HISTORY_LIMIT);
+    assert.equal(history.past[0], 10);
+  },
+  'reopens saved triangle meshes': () => {
+    const data = generate({ sampler: Sampler.EDGE_AWARE });
+    assert.equal(toJSONString(reopen(data)), toJSONString(data));
+  },
+  'reopens saved voronoi cells': () => {
+    const data = generate({ sampler: Sampler.POISSON, geometry: GeometryKind.VORONOI });
+    assert.equal(toJSONString(reopen(data)), toJSONString(data));
+  },
+  'reopens saved merged regions': () => {
+    const data = generate({ mergeRegions: true });
+    assert.equal(toJSONString(reopen(data)), toJSONString(data));
+  },
+  'reopens saved cut-outs': () => {
+    const data = generate({}, makeSpriteFixture());
+    assert.equal(toJSONString(reopen(data)), toJSONString(data));
+  },
+  'reopens saved meshes of saturated images': () => {
+    const data = generate({ points: 100, shading: ShadingMode.GRADIENT }, makeSaturatedFixture());
+    for (const tri of data.triangles) {
+      for (const color of [tri.avg_color, ...tri.vertex_colors!]) {
+        assert.ok(color.every(c => c >= 0 && c <= 255), `triangle ${tri.id} has color ${JSON.stringify(color)}`);
+      }
+    }
+    assert.equal(toJSONString(reopen(data)), toJSONString(data));
+  },
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      'case': { type: 'string' },
+      'help': { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  let failures = 0;
+  for (const [name, check] of Object.entries(CHECKS)) {
+    if (values.case && !name.includes(values.case)) continue;
+    try {
+      await check();
+      console.log(`ok   ${name}`);
+    } catch (e) {
+      failures++;
+      console.error(`FAIL ${name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (failures > 0) process.exitCode = 1;
+};
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,42 @@
+import { RasterImage } from '../types';
+
+// Procedural images shared by the golden suite and the behavior checks
+
+// 200x150 test card drawn with integer arithmetic only: two gradients, a disk,
+// a rectangle and a checkerboard strip, so there are flat areas, soft ramps and
+// hard edges of several orientations.
+export const makeFixture = (): RasterImage => {
+  const width = 200;
+  const height = 150;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let color = [Math.floor((x * 255) / (width - 1)), Math.floor((y * 255) / (height - 1)), 96];
+      const dx = x - 70;
+      const dy = y - 70;
+      if (dx * dx + dy * dy <= 45 * 45) color = [230, 80, 60];
+      if (x >= 120 && x < 180 && y >= 30 && y < 100 && x - y < 110) color = [40, 70, 160];
+      if (y >= 125) color = ((x >> 3) + (y >> 3)) & 1 ? [235, 235, 220] : [20, 20, 30];
+      const index = (y * width + x) * 4;
+      data.set([color[0], color[1], color[2], 255], index);
+    }
+  }
+  return { width, height, data };
+};
+
+// The test card's disk and rectangle on a transparent background, with a half
+// transparent rim around the disk. The hidden pixels keep the card's gradient,
+// which must not show up in any face color.
+export const makeSpriteFixture = (): RasterImage => {
+  const { width, height, data } = makeFixture();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = x - 70;
+      const dy = y - 70;
+      const distanceSq = dx * dx + dy * dy;
+      const inRectangle = x >= 120 && x < 180 && y >= 30 && y < 100 && x - y < 110;
+      data[(y * width + x) * 4 + 3] = distanceSq <= 45 * 45 || inRectangle ? 255 : distanceSq <= 48 * 48 ? 128 : 0;
+    }
+  }
+  return { width, height, data };
+};
@@ -0,0 +1,161 @@
+import { parseArgs } from 'node:util';
+import { createHash } from 'node:crypto';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Settings, Sampler, ColorSpace, ColorEstimator, ShadingMode, PaletteMode, GeometryKind, RasterImage } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { generateLowPolyData } from '../services/lowpoly';
+import { toJSONString } from '../services/export';
+import { createMask } from '../services/density';
+import { parseSavedOutput, toIndexedJSONString, toIndexedBinary } from '../services/indexed';
+import { makeFixture, makeSpriteFixture } from './fixtures';
+
+// Golden-output regression suite: generates every case below from a procedural
+// fixture image and compares the SHA-256 of the JSON output with the hash stored
+// in golden.json. Any change to sampling, triangulation, coloring or the output
+// format shows up as a mismatch; rerun with --update once the change is intended.
+//
+// The hashes hold in every JS engine: the PRNG is pure integer math, and the
+// rest of generation, CIELAB conversion, the Canny blur and the image filters
+// included, uses only arithmetic, Math.sqrt and the exp/log/pow of
+// services/math.ts, all of which round the same way everywhere.
+
+const HASHES_FILE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'golden.json');
+
+const USAGE = `Usage: npm test -- [options]
+
+  --update              Rewrite golden.json with the current outputs
+  --out-dir <dir>       Also write each case's JSON output, for diffing
+  --case <name>         Only run cases whose name contains <name>
+  -h, --help            Show this help
+`;
+
+const BASE: Settings = { ...DEFAULT_SETTINGS, maxSize: 160, points: 300, seed: 1234 };
+
+// 32x24 mask asking for detail on the left third and less on the right third
+const densityFixture = () => {
+  const cells = new Uint8Array(32 * 24);
+  cells.forEach((_, i) => cells[i] = i % 32 < 11 ? 224 : i % 32 > 21 ? 48 : 128);
+  return createMask(32, 24, cells);
+};
+
+const CASES: Record<string, Partial<Settings>> = {
+  'grid-lab': { sampler: Sampler.GRID },
+  'grid-rgb-seed-0': { sampler: Sampler.GRID, colorSpace: ColorSpace.RGB, seed: 0 },
+  'poisson': { sampler: Sampler.POISSON },
+  'edge-aware': { sampler: Sampler.EDGE_AWARE },
+  'edge-aware-snapped': { sampler: Sampler.EDGE_AWARE, snapToContours: true },
+  'adaptive': { sampler: Sampler.ADAPTIVE, points: 200 },
+  'gradient': { sampler: Sampler.GRID, shading: ShadingMode.GRADIENT },
+  'voronoi': { sampler: Sampler.POISSON, geometry: GeometryKind.VORONOI },
+  'kmeans': { sampler: Sampler.EDGE_AWARE, paletteMode: PaletteMode.KMEANS, paletteSize: 5 },
+  'custom-palette': { sampler: Sampler.GRID, paletteMode: PaletteMode.CUSTOM },
+  'merged': { sampler: Sampler.EDGE_AWARE, mergeRegions: true },
+  'no-neighbors': { sampler: Sampler.POISSON, withNeighbors: false },
+  'density-grid': { sampler: Sampler.GRID, densityMask: densityFixture() },
+  'density-poisson': { sampler: Sampler.POISSON, densityMask: densityFixture() },
+  'median': { sampler: Sampler.GRID, colorEstimator: ColorEstimator.MEDIAN },
+  'dominant': { sampler: Sampler.GRID, colorEstimator: ColorEstimator.DOMINANT },
+  'centroid-voronoi': { sampler: Sampler.POISSON, geometry: GeometryKind.VORONOI, colorEstimator: ColorEstimator.CENTROID },
+  'trimmed-mean-rgb': { sampler: Sampler.GRID, colorSpace: ColorSpace.RGB, colorEstimator: ColorEstimator.TRIMMED_MEAN },
+  // Smoothing runs before edge detection, so the edge-aware sampler sees it too
+  'filters-smoothing': {
+    sampler: Sampler.EDGE_AWARE,
+    filters: [{ type: 'bilateral', radius: 2, range: 40 }, { type: 'median', radius: 1 }],
+  },
+  'filters-tone': {
+    sampler: Sampler.GRID,
+    colorSpace: ColorSpace.RGB,
+    filters: [
+      { type: 'brightness', amount: 0.1 },
+      { type: 'contrast', amount: 0.3 },
+      { type: 'saturation', amount: -0.4 },
+      { type: 'temperature', amount: 0.5 },
+      { type: 'gamma', gamma: 1.4 },
+      { type: 'posterize', levels: 6 },
+    ],
+  },
+};
+
+// Run on the cut-out fixture instead of the test card
+const SPRITE_CASES: Record<string, Partial<Settings>> = {
+  'sprite-edge-aware': {},
+  'sprite-voronoi': { sampler: Sampler.POISSON, geometry: GeometryKind.VORONOI },
+  'sprite-merged': { sampler: Sampler.POISSON, mergeRegions: true },
+};
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      'update': { type: 'boolean', default: false },
+      'out-dir': { type: 'string' },
+      'case': { type: 'string' },
+      'help': { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const stored: Record<string, string> = JSON.parse(await readFile(HASHES_FILE, 'utf8').catch(() => '{}'));
+  const fixture = makeFixture();
+  const sprite = makeSpriteFixture();
+  const runs: [string, Partial<Settings>, RasterImage][] = [
+    ...Object.entries(CASES).map(([name, overrides]): [string, Partial<Settings>, RasterImage] => [name, overrides, fixture]),
+    ...Object.entries(SPRITE_CASES).map(([name, overrides]): [string, Partial<Settings>, RasterImage] => [name, overrides, sprite]),
+  ];
+  if (values['out-dir']) await mkdir(values['out-dir'], { recursive: true });
+
+  // With --case, --update only replaces the hashes of the cases that ran
+  const hashes: Record<string, string> = { ...stored };
+  let failures = 0;
+  for (const [name, overrides, image] of runs) {
+    if (values.case && !name.includes(values.case)) continue;
+    const settings = { ...BASE, ...overrides };
+    const json = toJSONString(generateLowPolyData(image, 'fixture.png', settings));
+    // A second run in the same process must match too, which catches state
+    // leaking between runs (shared generators, caches)
+    const output = generateLowPolyData(image, 'fixture.png', settings);
+    const again = toJSONString(output);
+    // The indexed formats must convert back to the identical file
+    const roundTrips = [
+      toJSONString(parseSavedOutput(new TextEncoder().encode(toIndexedJSONString(output)))),
+      toJSONString(parseSavedOutput(toIndexedBinary(output))),
+    ];
+    const hash = sha256(json);
+    hashes[name] = hash;
+    if (values['out-dir']) await writeFile(path.join(values['out-dir'], `${name}.json`), json);
+
+    if (json !== again) {
+      failures++;
+      console.error(`FAIL ${name}: two runs with the same settings differ`);
+    } else if (roundTrips.some(text => text !== json)) {
+      failures++;
+      console.error(`FAIL ${name}: the indexed format doesn't round-trip`);
+    } else if (values.update) {
+      console.log(`updated ${name}`);
+    } else if (!stored[name]) {
+      failures++;
+      console.error(`FAIL ${name}: no golden hash, run with --update`);
+    } else if (stored[name] !== hash) {
+      failures++;
+      console.error(`FAIL ${name}: expected ${stored[name].slice(0, 12)}, got ${hash.slice(0, 12)}`);
+    } else {
+      console.log(`ok   ${name}`);
+    }
+  }
+
+  if (values.update && failures === 0) {
+    await writeFile(HASHES_FILE, JSON.stringify(hashes, null, 2) + '\n');
+  }
+  if (failures > 0) process.exitCode = 1;
+};
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
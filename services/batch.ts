@@ -0,0 +1,65 @@
+import { LowPolyOutput } from '../types';
+import { toJSONString, toSVGString, RenderStyle } from './export';
+import { renderPng, DEFAULT_RASTER_EXPORT_OPTIONS } from './render';
+import { createZip, ZipEntry } from './zip';
+
+// --- Batch Exports ---
+
+export interface BatchResult {
+  fileName: string;
+  output: LowPolyOutput;
+}
+
+// "photo.jpg" -> "photo"; names without a usable stem fall back to "output"
+export const getOutputBaseName = (fileName: string): string => {
+  const name = fileName.split(/[\\/]/).pop() ?? '';
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  return stem || 'output';
+};
+
+// Output names for each file, numbered when two sources share a stem
+// (photo.jpg and photo.png become photo and photo-2)
+export const getUniqueBaseNames = (fileNames: string[]): string[] => {
+  const used = new Set<string>();
+  return fileNames.map(fileName => {
+    const base = getOutputBaseName(fileName);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}-${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+// JSON, SVG and a PNG at the mesh's own size for every result, named after its
+// source file. The PNG is antialiased and drawn in the same style as the SVG.
+export const createBatchZip = async (
+  results: BatchResult[],
+  style: RenderStyle,
+  onProgress?: (progress: number) => void
+): Promise<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const names = getUniqueBaseNames(results.map(result => result.fileName));
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < results.length; i++) {
+    const { output } = results[i];
+    const png = await renderPng(output, { ...DEFAULT_RASTER_EXPORT_OPTIONS, scale: 1, style });
+    entries.push(
+      { name: `${names[i]}.json`, data: encoder.encode(toJSONString(output)) },
+      { name: `${names[i]}.svg`, data: encoder.encode(toSVGString(output, style)) },
+      { name: `${names[i]}.png`, data: concatBytes(png) },
+    );
+    onProgress?.((i + 1) / results.length);
+  }
+  return createZip(entries);
+};
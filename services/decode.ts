@@ -0,0 +1,88 @@
+import { decode as decodePng, convertIndexedToRgb } from 'fast-png';
+import { decode as decodeJpeg } from 'jpeg-js';
+import { RasterImage } from '../types';
+
+// Pure JS PNG/JPEG decoding shared by the web app and the CLI. Browser canvas
+// decoding (colour management, premultiplied alpha) is not reproducible across
+// machines, so both front ends feed the generator the exact same pixels.
+
+const isPng = (bytes: Uint8Array) =>
+  bytes.length > 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+
+const isJpeg = (bytes: Uint8Array) =>
+  bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+
+export const decodeImage = (bytes: Uint8Array): RasterImage => {
+  if (isPng(bytes)) return decodePngImage(bytes);
+  if (isJpeg(bytes)) {
+    const { width, height, data } = decodeJpeg(bytes, { useTArray: true, formatAsRGBA: true });
+    return { width, height, data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length) };
+  }
+  throw new Error('Unsupported image format: only PNG and JPEG files can be decoded');
+};
+
+const decodePngImage = (bytes: Uint8Array): RasterImage => {
+  const png = decodePng(bytes);
+  const { width, height } = png;
+  const pixelCount = width * height;
+  const data = new Uint8ClampedArray(pixelCount * 4);
+
+  if (png.palette) {
+    const rgb = convertIndexedToRgb(png);
+    const channels = rgb.length / pixelCount;
+    for (let i = 0; i < pixelCount; i++) {
+      data[i * 4] = rgb[i * channels];
+      data[i * 4 + 1] = rgb[i * channels + 1];
+      data[i * 4 + 2] = rgb[i * channels + 2];
+      data[i * 4 + 3] = channels === 4 ? rgb[i * channels + 3] : 255;
+    }
+    return { width, height, data };
+  }
+
+  const { channels, depth } = png;
+  const samples = unpackSamples(png.data, width, height, channels, depth);
+  const max = (1 << depth) - 1;
+  const to8 = (value: number) => depth === 8 ? value : Math.round((value * 255) / max);
+  // tRNS on grayscale/RGB images names a single fully transparent colour
+  const key = png.transparency && png.transparency.length === (channels === 1 ? 1 : 3) ? png.transparency : null;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const s = i * channels;
+    const out = i * 4;
+    if (channels <= 2) {
+      const gray = to8(samples[s]);
+      data[out] = data[out + 1] = data[out + 2] = gray;
+      data[out + 3] = channels === 2 ? to8(samples[s + 1]) : 255;
+      if (key && samples[s] === key[0]) data[out + 3] = 0;
+    } else {
+      data[out] = to8(samples[s]);
+      data[out + 1] = to8(samples[s + 1]);
+      data[out + 2] = to8(samples[s + 2]);
+      data[out + 3] = channels === 4 ? to8(samples[s + 3]) : 255;
+      if (key && samples[s] === key[0] && samples[s + 1] === key[1] && samples[s + 2] === key[2]) data[out + 3] = 0;
+    }
+  }
+  return { width, height, data };
+};
+
+// Expands sub-byte grayscale rows (1, 2 or 4 bits per sample) to one entry per sample
+const unpackSamples = (
+  source: ArrayLike<number>,
+  width: number,
+  height: number,
+  channels: number,
+  depth: number
+): ArrayLike<number> => {
+  if (depth >= 8) return source;
+  const samples = new Uint8Array(width * height * channels);
+  const rowBytes = Math.ceil((width * channels * depth) / 8);
+  const mask = (1 << depth) - 1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width * channels; x++) {
+      const bit = x * depth;
+      const byte = source[y * rowBytes + (bit >> 3)];
+      samples[y * width * channels + x] = (byte >> (8 - depth - (bit & 7))) & mask;
+    }
+  }
+  return samples;
+};
@@ -0,0 +1,131 @@
+import { DensityMask, RasterImage } from '../types';
+
+// Longest side of a density mask in cells. Masks are stretched over the image,
+// so they are independent of maxSize and of the source resolution.
+export const MASK_SIZE = 128;
+
+// Cell value with no effect on sampling; 255 is the most extra detail and 0 the least
+export const NEUTRAL_DENSITY = 128;
+
+// A mask value v multiplies the local point density by 2^((v - 128) / 64),
+// i.e. from 1/4 at 0 to almost 4x at 255. Built by repeated multiplication
+// rather than Math.pow, whose rounding differs between engines.
+const FACTORS = (() => {
+  const step = 1.0108892860517005; // 2^(1/64)
+  const table = new Float64Array(256);
+  table[NEUTRAL_DENSITY] = 1;
+  for (let v = NEUTRAL_DENSITY + 1; v < 256; v++) table[v] = table[v - 1] * step;
+  for (let v = NEUTRAL_DENSITY - 1; v >= 0; v--) table[v] = table[v + 1] / step;
+  return table;
+})();
+
+// --- Mask Encoding ---
+
+const encode = (cells: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < cells.length; i++) binary += String.fromCharCode(cells[i]);
+  return btoa(binary);
+};
+
+export const decodeMaskCells = (mask: DensityMask): Uint8Array => {
+  const binary = atob(mask.data);
+  const cells = new Uint8Array(mask.width * mask.height).fill(NEUTRAL_DENSITY);
+  for (let i = 0; i < Math.min(binary.length, cells.length); i++) cells[i] = binary.charCodeAt(i);
+  return cells;
+};
+
+export const createMask = (width: number, height: number, cells?: Uint8Array): DensityMask => ({
+  width,
+  height,
+  data: encode(cells ?? new Uint8Array(width * height).fill(NEUTRAL_DENSITY)),
+});
+
+// Mask dimensions for an image, keeping its aspect ratio
+export const getMaskSize = (imageWidth: number, imageHeight: number): [number, number] => {
+  const scale = MASK_SIZE / Math.max(imageWidth, imageHeight);
+  return [Math.max(1, Math.round(imageWidth * scale)), Math.max(1, Math.round(imageHeight * scale))];
+};
+
+// A grayscale guide image: white asks for detail, black for less, mid-gray is neutral
+export const maskFromImage = (guide: RasterImage): DensityMask => {
+  const [width, height] = getMaskSize(guide.width, guide.height);
+  const cells = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Box average over the guide pixels covered by this cell
+      const x0 = Math.floor((x * guide.width) / width);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * guide.width) / width));
+      const y0 = Math.floor((y * guide.height) / height);
+      const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * guide.height) / height));
+      let sum = 0;
+      for (let gy = y0; gy < y1; gy++) {
+        for (let gx = x0; gx < x1; gx++) {
+          const i = (gy * guide.width + gx) * 4;
+          // Transparent guide pixels count as neutral
+          const alpha = guide.data[i + 3] / 255;
+          const luminance = 0.299 * guide.data[i] + 0.587 * guide.data[i + 1] + 0.114 * guide.data[i + 2];
+          sum += luminance * alpha + NEUTRAL_DENSITY * (1 - alpha);
+        }
+      }
+      cells[y * width + x] = Math.round(sum / ((x1 - x0) * (y1 - y0)));
+    }
+  }
+  return createMask(width, height, cells);
+};
+
+// --- Painting ---
+
+// Raises (or with strength < 0 lowers) cells around (u, v), both in 0..1 of the
+// image size, with a soft round brush whose radius is a fraction of the longest side.
+export const paintMask = (cells: Uint8Array, width: number, height: number, u: number, v: number, radius: number, strength: number) => {
+  const r = Math.max(0.5, radius * Math.max(width, height));
+  const cx = u * width;
+  const cy = v * height;
+  for (let y = Math.max(0, Math.floor(cy - r)); y < Math.min(height, Math.ceil(cy + r)); y++) {
+    for (let x = Math.max(0, Math.floor(cx - r)); x < Math.min(width, Math.ceil(cx + r)); x++) {
+      const distance = Math.hypot(x + 0.5 - cx, y + 0.5 - cy) / r;
+      if (distance >= 1) continue;
+      const falloff = 1 - distance * distance;
+      const i = y * width + x;
+      cells[i] = Math.min(255, Math.max(0, Math.round(cells[i] + strength * falloff)));
+    }
+  }
+};
+
+// --- Sampling ---
+
+export interface DensityField {
+  // Density multiplier at an image position
+  at: (x: number, y: number) => number;
+  min: number;
+  max: number;
+  mean: number;
+}
+
+// Bilinear lookup of the mask stretched over a width x height image
+export const createDensityField = (mask: DensityMask, width: number, height: number): DensityField => {
+  const cells = decodeMaskCells(mask);
+  const factors = Float64Array.from(cells, v => FACTORS[v]);
+  let min = Infinity;
+  let max = 0;
+  let sum = 0;
+  for (const f of factors) {
+    min = Math.min(min, f);
+    max = Math.max(max, f);
+    sum += f;
+  }
+  const at = (x: number, y: number) => {
+    const fx = Math.min(mask.width - 1, Math.max(0, (x / width) * mask.width - 0.5));
+    const fy = Math.min(mask.height - 1, Math.max(0, (y / height) * mask.height - 0.5));
+    const x0 = Math.floor(fx);
+    const y0 = Math.floor(fy);
+    const x1 = Math.min(mask.width - 1, x0 + 1);
+    const y1 = Math.min(mask.height - 1, y0 + 1);
+    const tx = fx - x0;
+    const ty = fy - y0;
+    const top = factors[y0 * mask.width + x0] * (1 - tx) + factors[y0 * mask.width + x1] * tx;
+    const bottom = factors[y1 * mask.width + x0] * (1 - tx) + factors[y1 * mask.width + x1] * tx;
+    return top * (1 - ty) + bottom * ty;
+  };
+  return { at, min, max, mean: sum / factors.length };
+};
@@ -0,0 +1,288 @@
+import { RasterImage } from '../types';
+import { exp } from './math';
+
+export interface CannyOptions {
+    // Gaussian pre-blur sigma in pixels, 0 disables it
+    blur: number;
+    // Hysteresis thresholds on the gradient magnitude normalized to 0-255
+    low: number;
+    high: number;
+}
+
+// --- Canny Edge Detection ---
+
+// Returns a binary map (0 or 255 per pixel) of one pixel wide edges.
+export const detectEdges = (imageData: RasterImage, options: CannyOptions): Uint8ClampedArray => {
+    const { width, height } = imageData;
+    const { magnitude, direction } = sobel(toGray(imageData, options.blur), width, height);
+    const thin = suppressNonMaxima(magnitude, direction, width, height);
+    return hysteresis(thin, width, height, Math.min(options.low, options.high), Math.max(options.low, options.high));
+};
+
+// Sobel gradient magnitude normalized to 0-255, without thinning or thresholds
+export const gradientMagnitude = (imageData: RasterImage, blur: number): Float32Array => {
+    return sobel(toGray(imageData, blur), imageData.width, imageData.height).magnitude;
+};
+
+const toGray = ({ width, height, data }: RasterImage, blur: number): Float32Array => {
+    const gray = new Float32Array(width * height);
+    // Premultiplied by alpha, so whatever RGB transparent pixels hold makes no edges
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) * (data[i * 4 + 3] / 255);
+    }
+    return blur > 0 ? gaussianBlur(gray, width, height, blur) : gray;
+};
+
+const gaussianBlur = (source: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+    const radius = Math.max(1, Math.ceil(sigma * 3));
+    const kernel = new Float32Array(radius * 2 + 1);
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) {
+        kernel[i + radius] = exp(-(i * i) / (2 * sigma * sigma));
+        sum += kernel[i + radius];
+    }
+    for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
+
+    // Separable: horizontal then vertical pass, clamping at the borders
+    const temp = new Float32Array(source.length);
+    const result = new Float32Array(source.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let value = 0;
+            for (let k = -radius; k <= radius; k++) {
+                const sx = Math.min(width - 1, Math.max(0, x + k));
+                value += source[y * width + sx] * kernel[k + radius];
+            }
+            temp[y * width + x] = value;
+        }
+    }
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let value = 0;
+            for (let k = -radius; k <= radius; k++) {
+                const sy = Math.min(height - 1, Math.max(0, y + k));
+                value += temp[sy * width + x] * kernel[k + radius];
+            }
+            result[y * width + x] = value;
+        }
+    }
+    return result;
+};
+
+const TAN_22_5 = Math.SQRT2 - 1;
+
+// Gradient magnitude normalized to 0-255 and direction quantized to
+// 0 (horizontal), 1 (45°), 2 (vertical) or 3 (135°).
+const sobel = (gray: Float32Array, width: number, height: number) => {
+    const magnitude = new Float32Array(width * height);
+    const direction = new Uint8Array(width * height);
+    let maxGradient = 0;
+
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const gx =
+                -gray[i - width - 1] + gray[i - width + 1]
+                - 2 * gray[i - 1] + 2 * gray[i + 1]
+                - gray[i + width - 1] + gray[i + width + 1];
+            const gy =
+                -gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1]
+                + gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1];
+            const value = Math.sqrt(gx * gx + gy * gy);
+            magnitude[i] = value;
+            if (value > maxGradient) maxGradient = value;
+
+            // Binned by slope rather than Math.atan2, whose rounding differs
+            // between engines; the gradient is first turned into the upper half plane
+            const dx = gy < 0 ? -gx : gx;
+            const dy = Math.abs(gy);
+            direction[i] = dy <= TAN_22_5 * Math.abs(dx) ? 0 : dy * TAN_22_5 > Math.abs(dx) ? 2 : dx > 0 ? 1 : 3;
+        }
+    }
+    if (maxGradient > 0) {
+        for (let i = 0; i < magnitude.length; i++) {
+            magnitude[i] = (magnitude[i] / maxGradient) * 255;
+        }
+    }
+    return { magnitude, direction };
+};
+
+const suppressNonMaxima = (magnitude: Float32Array, direction: Uint8Array, width: number, height: number): Float32Array => {
+    const result = new Float32Array(magnitude.length);
+    // Neighbor offsets across the edge, i.e. along the gradient, per direction bin
+    const offsets = [1, width + 1, width, width - 1];
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const value = magnitude[i];
+            const offset = offsets[direction[i]];
+            if (value >= magnitude[i - offset] && value >= magnitude[i + offset]) {
+                result[i] = value;
+            }
+        }
+    }
+    return result;
+};
+
+const hysteresis = (magnitude: Float32Array, width: number, height: number, low: number, high: number): Uint8ClampedArray => {
+    const edges = new Uint8ClampedArray(width * height);
+    const stack: number[] = [];
+    for (let i = 0; i < magnitude.length; i++) {
+        if (magnitude[i] >= high && edges[i] === 0) {
+            edges[i] = 255;
+            stack.push(i);
+            // Grow strong edges through 8-connected weak pixels
+            while (stack.length > 0) {
+                const current = stack.pop()!;
+                const cx = current % width;
+                const cy = (current - cx) / width;
+                for (let dy = -1; dy <= 1; dy++) {
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const nx = cx + dx;
+                        const ny = cy + dy;
+                        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+                        const neighbor = ny * width + nx;
+                        if (edges[neighbor] === 0 && magnitude[neighbor] >= low) {
+                            edges[neighbor] = 255;
+                            stack.push(neighbor);
+                        }
+                    }
+                }
+            }
+        }
+    }
+    return edges;
+};
+
+// --- Alpha Silhouette ---
+
+// Same kind of map as detectEdges, marking pixels with alpha >= `threshold` that
+// touch a pixel below it, so traceContours follows the outline of a cut-out.
+// The image border doesn't count as an outline.
+export const detectSilhouette = ({ width, height, data }: RasterImage, threshold: number): Uint8ClampedArray => {
+    const edges = new Uint8ClampedArray(width * height);
+    const solid = (x: number, y: number) => data[(y * width + x) * 4 + 3] >= threshold;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!solid(x, y)) continue;
+            if ((x > 0 && !solid(x - 1, y)) || (x < width - 1 && !solid(x + 1, y)) ||
+                (y > 0 && !solid(x, y - 1)) || (y < height - 1 && !solid(x, y + 1))) {
+                edges[y * width + x] = 255;
+            }
+        }
+    }
+    return edges;
+};
+
+// --- Contour Tracing ---
+
+const NEIGHBORS: [number, number][] = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+
+// Links edge pixels into polylines by walking 8-connected chains in both
+// directions from each unvisited pixel.
+export const traceContours = (edges: Uint8ClampedArray, width: number, height: number): [number, number][][] => {
+    const visited = new Uint8Array(width * height);
+    const contours: [number, number][][] = [];
+
+    const walk = (startX: number, startY: number): [number, number][] => {
+        const path: [number, number][] = [];
+        let x = startX;
+        let y = startY;
+        while (true) {
+            let next: [number, number] | null = null;
+            for (const [dx, dy] of NEIGHBORS) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+                const index = ny * width + nx;
+                if (edges[index] && !visited[index]) {
+                    next = [nx, ny];
+                    break;
+                }
+            }
+            if (!next) return path;
+            [x, y] = next;
+            visited[y * width + x] = 1;
+            path.push([x, y]);
+        }
+    };
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = y * width + x;
+            if (!edges[index] || visited[index]) continue;
+            visited[index] = 1;
+            const forward = walk(x, y);
+            const backward = walk(x, y);
+            contours.push([...backward.reverse(), [x, y], ...forward]);
+        }
+    }
+    return contours;
+};
+
+// Math.sqrt is correctly rounded in every engine; Math.hypot isn't
+const segmentLength = (ax: number, ay: number, bx: number, by: number) => {
+    const dx = bx - ax;
+    const dy = by - ay;
+    return Math.sqrt(dx * dx + dy * dy);
+};
+
+// Douglas-Peucker simplification, so resampling follows straight runs instead
+// of the pixel staircase.
+const simplify = (points: [number, number][], epsilon: number): [number, number][] => {
+    if (points.length < 3) return points;
+    const [ax, ay] = points[0];
+    const [bx, by] = points[points.length - 1];
+    const length = segmentLength(ax, ay, bx, by);
+    let maxDistance = 0;
+    let split = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        const [px, py] = points[i];
+        const distance = length === 0
+            ? segmentLength(ax, ay, px, py)
+            : Math.abs((bx - ax) * (ay - py) - (ax - px) * (by - ay)) / length;
+        if (distance > maxDistance) {
+            maxDistance = distance;
+            split = i;
+        }
+    }
+    if (maxDistance <= epsilon) return [points[0], points[points.length - 1]];
+    const left = simplify(points.slice(0, split + 1), epsilon);
+    const right = simplify(points.slice(split), epsilon);
+    return [...left.slice(0, -1), ...right];
+};
+
+// Places vertices every `spacing` pixels along each simplified contour,
+// keeping the polyline corners. Contours shorter than `spacing` are skipped.
+export const sampleContours = (contours: [number, number][][], spacing: number): [number, number][] => {
+    const points: [number, number][] = [];
+    for (const contour of contours) {
+        const line = simplify(contour, 1);
+        let total = 0;
+        for (let i = 1; i < line.length; i++) {
+            total += segmentLength(line[i - 1][0], line[i - 1][1], line[i][0], line[i][1]);
+        }
+        if (total < spacing) continue;
+
+        points.push(line[0]);
+        let carried = 0;
+        for (let i = 1; i < line.length; i++) {
+            const [ax, ay] = line[i - 1];
+            const [bx, by] = line[i];
+            const segment = segmentLength(ax, ay, bx, by);
+            let position = spacing - carried;
+            while (position < segment) {
+                const t = position / segment;
+                points.push([ax + (bx - ax) * t, ay + (by - ay) * t]);
+                position += spacing;
+            }
+            carried = segment - (position - spacing);
+            // Corners are kept when they are not too close to the previous vertex
+            if (carried > spacing * 0.5) {
+                points.push([bx, by]);
+                carried = 0;
+            }
+        }
+    }
+    return points;
+};
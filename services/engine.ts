@@ -0,0 +1,171 @@
+import { LowPolyOutput } from '../types';
+import { MeshColorMode, DEFAULT_MESH_OPTIONS, buildMesh, toLinear } from './mesh';
+
+type RGB = [number, number, number];
+
+// --- Game Engine Meshes ---
+
+// Flat meshes in the z = 0 plane for Three.js, Godot and Unity. Each exporter
+// winds the triangles so they face that engine's default camera, after the Y
+// convention has been applied.
+
+export type EngineFormat = 'three' | 'godot' | 'unity';
+
+export interface EngineExportOptions {
+  // Y up with the image's bottom edge at 0, or Y down like image rows
+  yUp: boolean;
+  // Longest side 1, or one unit per image pixel
+  units: 'normalized' | 'pixels';
+  // 'face' repeats each triangle's vertices so it keeps its own avg_color;
+  // 'vertex' shares them and blends the colors around each vertex
+  colors: MeshColorMode;
+}
+
+export const DEFAULT_ENGINE_EXPORT_OPTIONS: EngineExportOptions = {
+  yUp: true,
+  units: 'normalized',
+  colors: 'face',
+};
+
+interface EngineGeometry {
+  positions: [number, number, number][];
+  colors: RGB[];
+  indices: number[];
+}
+
+// Keeps the text formats short without visible loss
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+// `frontFace` is the winding that faces the engine's camera: counter-clockwise
+// (Three.js) or clockwise (Godot, Unity) as seen on screen
+const buildEngineGeometry = (data: LowPolyOutput, options: EngineExportOptions, frontFace: 'ccw' | 'cw'): EngineGeometry => {
+  const { width, height } = data.image;
+  const longest = Math.max(width, height);
+  const mesh = buildMesh(data, {
+    ...DEFAULT_MESH_OPTIONS,
+    heightSource: 'flat',
+    base: 0,
+    size: options.units === 'pixels' ? longest : 1,
+    colors: options.colors,
+  });
+  const top = options.units === 'pixels' ? height : height / longest;
+  const position = ([x, y]: [number, number, number]): [number, number, number] =>
+    [round(x), round(options.yUp ? y : top - y), 0];
+
+  // Mesh faces are counter-clockwise seen from +Z with Y up; flipping Y mirrors them
+  const reverse = !options.yUp !== (frontFace === 'cw');
+  const corners = (indices: [number, number, number]) =>
+    reverse ? [indices[0], indices[2], indices[1]] : indices;
+
+  if (options.colors === 'vertex') {
+    return {
+      positions: mesh.positions.map(position),
+      colors: mesh.vertexColors,
+      indices: mesh.faces.flatMap(face => corners(face.indices)),
+    };
+  }
+  const geometry: EngineGeometry = { positions: [], colors: [], indices: [] };
+  for (const face of mesh.faces) {
+    for (const index of corners(face.indices)) {
+      geometry.indices.push(geometry.positions.length);
+      geometry.positions.push(position(mesh.positions[index]));
+      geometry.colors.push(face.color);
+    }
+  }
+  return geometry;
+};
+
+// --- Three.js ---
+
+// BufferGeometry JSON, for THREE.BufferGeometryLoader().parse(). Colors are
+// linear, as three.js expects with color management on; use a material with
+// vertexColors: true.
+export const toThreeJSON = (data: LowPolyOutput, options: EngineExportOptions): string => {
+  const { positions, colors, indices } = buildEngineGeometry(data, options, 'ccw');
+  const attribute = (itemSize: number, array: number[]) => ({ itemSize, type: 'Float32Array', array, normalized: false });
+  return JSON.stringify({
+    metadata: { version: 4.6, type: 'BufferGeometry', generator: 'PolyArt low-poly generator' },
+    type: 'BufferGeometry',
+    name: 'LowPoly',
+    data: {
+      attributes: {
+        position: attribute(3, positions.flat()),
+        normal: attribute(3, positions.flatMap(() => [0, 0, 1])),
+        color: attribute(3, colors.flatMap(color => color.map(c => round(toLinear(c))))),
+      },
+      index: { type: positions.length <= 65536 ? 'Uint16Array' : 'Uint32Array', array: indices },
+    },
+  });
+};
+
+// --- Godot ---
+
+// Godot 4 surface format flags: vertex, color and index arrays, mesh format version 2
+const GODOT_FORMAT = 2 ** 35 + (1 << 12) + (1 << 3) + 1;
+const GODOT_PRIMITIVE_TRIANGLES = 3;
+
+const packedBytes = (bytes: Uint8Array) => `PackedByteArray(${bytes.join(', ')})`;
+
+// ArrayMesh resource for Godot 4 (.tres) with an unshaded vertex-color material.
+// Normals aren't written; the material doesn't need them.
+export const toGodotTres = (data: LowPolyOutput, options: EngineExportOptions): string => {
+  const { positions, colors, indices } = buildEngineGeometry(data, options, 'cw');
+  const vertexData = new DataView(new ArrayBuffer(positions.length * 12));
+  positions.forEach((p, i) => p.forEach((value, c) => vertexData.setFloat32(i * 12 + c * 4, value, true)));
+  const attributeData = Uint8Array.from(colors.flatMap(color => [...color, 255]));
+  // Godot picks 16-bit indices for up to 65536 vertices
+  const wide = positions.length > 65536;
+  const indexData = new DataView(new ArrayBuffer(indices.length * (wide ? 4 : 2)));
+  indices.forEach((index, i) => wide ? indexData.setUint32(i * 4, index, true) : indexData.setUint16(i * 2, index, true));
+
+  const min = [Infinity, Infinity];
+  const max = [-Infinity, -Infinity];
+  for (const p of positions) {
+    for (let c = 0; c < 2; c++) {
+      min[c] = Math.min(min[c], p[c]);
+      max[c] = Math.max(max[c], p[c]);
+    }
+  }
+  const aabb = positions.length > 0 ? [min[0], min[1], 0, max[0] - min[0], max[1] - min[1], 0] : [0, 0, 0, 0, 0, 0];
+
+  return `[gd_resource type="ArrayMesh" load_steps=2 format=3]
+
+[sub_resource type="StandardMaterial3D" id="StandardMaterial3D_lowpoly"]
+shading_mode = 0
+vertex_color_use_as_albedo = true
+vertex_color_is_srgb = true
+
+[resource]
+resource_name = "LowPoly"
+_surfaces = [{
+"aabb": AABB(${aabb.map(round).join(', ')}),
+"attribute_data": ${packedBytes(attributeData)},
+"format": ${GODOT_FORMAT},
+"index_count": ${indices.length},
+"index_data": ${packedBytes(new Uint8Array(indexData.buffer))},
+"material": SubResource("StandardMaterial3D_lowpoly"),
+"name": "LowPoly",
+"primitive": ${GODOT_PRIMITIVE_TRIANGLES},
+"vertex_count": ${positions.length},
+"vertex_data": ${packedBytes(new Uint8Array(vertexData.buffer))}
+}]
+`;
+};
+
+// --- Unity ---
+
+// Mesh data laid out for JsonUtility.FromJson: Vector3 and Color32 as objects,
+// field names matching UnityEngine.Mesh (vertices, normals, colors32, triangles).
+// indexFormat is the IndexFormat enum, 0 for UInt16 and 1 for UInt32. The
+// triangles face Unity's default camera, which looks along +Z.
+export const toUnityJSON = (data: LowPolyOutput, options: EngineExportOptions): string => {
+  const { positions, colors, indices } = buildEngineGeometry(data, options, 'cw');
+  return JSON.stringify({
+    name: 'LowPoly',
+    indexFormat: positions.length <= 65535 ? 0 : 1,
+    vertices: positions.map(([x, y, z]) => ({ x, y, z })),
+    normals: positions.map(() => ({ x: 0, y: 0, z: -1 })),
+    colors32: colors.map(([r, g, b]) => ({ r, g, b, a: 255 })),
+    triangles: indices,
+  });
+};
@@ -0,0 +1,192 @@
+import { LowPolyOutput, Triangle, Settings, StrokeMode, AverageColor } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { getShade, shadeColor } from './lighting';
+
+// The settings that decide how faces are drawn
+export type RenderStyle = Pick<Settings, 'strokeMode' | 'strokeColor' | 'strokeWidth' | 'gapSize'>;
+
+export const getRenderStyle = ({ strokeMode, strokeColor, strokeWidth, gapSize }: RenderStyle): RenderStyle =>
+  ({ strokeMode, strokeColor, strokeWidth, gapSize });
+
+export const DEFAULT_RENDER_STYLE: RenderStyle = getRenderStyle(DEFAULT_SETTINGS);
+
+// Wide enough to cover antialiasing seams at any zoom, narrow enough not to
+// visibly grow the faces
+const SEAM_STROKE_WIDTH = 1;
+
+export interface FaceStroke {
+  color: string;
+  width: number;
+}
+
+export interface VertexGradient {
+  id: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color: string;
+}
+
+// A polygon as drawn by the preview and every exporter, whatever the geometry kind
+export interface RenderFace {
+  id: number;
+  points: [number, number][];
+  centroid: [number, number];
+  color: [number, number, number];
+  // Set for gradient-shaded triangles only
+  vertexColors?: [number, number, number][];
+  // 0..1, set for faces of a partly transparent image that aren't fully opaque
+  opacity?: number;
+}
+
+export const toRGB = (color: [number, number, number]) => `rgb(${color.join(',')})`;
+
+const resolveColor = (data: LowPolyOutput, face: { avg_color: AverageColor; palette_index?: number }): [number, number, number] => {
+  const [r, g, b] = face.avg_color;
+  return data.palette && face.palette_index !== undefined ? data.palette[face.palette_index] ?? [r, g, b] : [r, g, b];
+};
+
+// Palette entries are opaque, so a face keeps its measured alpha whatever its fill
+const getOpacity = ({ avg_color }: { avg_color: AverageColor }) =>
+  avg_color[3] !== undefined ? { opacity: avg_color[3] / 255 } : {};
+
+// Lit faces are brightened or darkened by how their normal faces the light
+const applyLight = (data: LowPolyOutput, face: { normal?: [number, number, number] }, color: [number, number, number]) =>
+  data.lighting && face.normal ? shadeColor(color, getShade(face.normal, data.lighting)) : color;
+
+// The color a triangle is drawn with: its palette entry when the output has been
+// quantized, otherwise the measured average, shaded when the output is lit.
+export const getFillColor = (data: LowPolyOutput, tri: Triangle): [number, number, number] => applyLight(data, tri, resolveColor(data, tri));
+
+// Palette fills are flat, so vertex gradients are only used without one.
+export const usesVertexGradients = (data: LowPolyOutput, tri: Triangle) =>
+  !!tri.vertex_colors && !(data.palette && tri.palette_index !== undefined);
+
+export const getRenderFaces = (data: LowPolyOutput): RenderFace[] => {
+  if (data.regions) {
+    return data.regions.map(region => ({
+      id: region.id,
+      points: region.polygon,
+      centroid: region.centroid,
+      color: applyLight(data, region, resolveColor(data, region)),
+      ...getOpacity(region),
+    }));
+  }
+  if (data.cells) {
+    return data.cells.map(cell => ({
+      id: cell.id,
+      points: cell.polygon,
+      centroid: cell.centroid,
+      color: applyLight(data, cell, resolveColor(data, cell)),
+      ...getOpacity(cell),
+    }));
+  }
+  return data.triangles.map(tri => ({
+    id: tri.id,
+    points: tri.vertices,
+    centroid: tri.centroid,
+    color: getFillColor(data, tri),
+    ...(usesVertexGradients(data, tri) ? { vertexColors: tri.vertex_colors!.map(color => applyLight(data, tri, color)) } : {}),
+    ...getOpacity(tri),
+  }));
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Pulls every vertex toward the centroid, keeping `1 - gapSize` of the face's size
+const shrinkPoints = (points: [number, number][], [cx, cy]: [number, number], gapSize: number): [number, number][] =>
+  points.map(([x, y]) => [round2(cx + (x - cx) * (1 - gapSize)), round2(cy + (y - cy) * (1 - gapSize))]);
+
+// Faces as the style draws them; only StrokeMode.GAP changes their shape
+export const styleFaces = (faces: RenderFace[], style: RenderStyle): RenderFace[] => {
+  if (style.strokeMode !== StrokeMode.GAP || style.gapSize <= 0) return faces;
+  return faces.map(face => ({ ...face, points: shrinkPoints(face.points, face.centroid, style.gapSize) }));
+};
+
+export const getStyledFaces = (data: LowPolyOutput, style: RenderStyle): RenderFace[] =>
+  styleFaces(getRenderFaces(data), style);
+
+// Same as getStyledFaces for an outline without a known centroid (morph keyframes)
+export const getStyledPoints = (points: [number, number][], style: RenderStyle): [number, number][] => {
+  if (style.strokeMode !== StrokeMode.GAP || style.gapSize <= 0) return points;
+  const cx = points.reduce((sum, p) => sum + p[0], 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p[1], 0) / points.length;
+  return shrinkPoints(points, [cx, cy], style.gapSize);
+};
+
+// The stroke a face is drawn with, null for none. Its color is a CSS color.
+export const getFaceStroke = (style: RenderStyle, color: [number, number, number]): FaceStroke | null => {
+  if (style.strokeMode === StrokeMode.MATCH) return { color: toRGB(color), width: SEAM_STROKE_WIDTH };
+  if (style.strokeMode === StrokeMode.OUTLINE && style.strokeWidth > 0) return { color: style.strokeColor, width: style.strokeWidth };
+  return null;
+};
+
+// SVG opacity of a face, with a leading space; empty when it is opaque. It
+// covers the fill and the stroke together, so they don't add up where they overlap.
+export const toOpacityAttribute = (face: RenderFace) =>
+  face.opacity !== undefined ? ` opacity='${Math.round(face.opacity * 1000) / 1000}'` : '';
+
+const ATTRIBUTE_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// Escapes a value for a quoted SVG attribute
+export const escapeAttribute = (value: string) => value.replace(/[&<>"']/g, c => ATTRIBUTE_ENTITIES[c]);
+
+// SVG attributes for a stroke, with a leading space; empty for none
+export const toStrokeAttributes = (stroke: FaceStroke | null) =>
+  stroke ? ` stroke='${escapeAttribute(stroke.color)}' stroke-width='${stroke.width}' stroke-linejoin='round'` : '';
+
+// One linear gradient per vertex, running from the vertex color to black at the
+// opposite edge. That ramp is exactly the vertex's barycentric weight, so adding
+// the three layers (mix-blend-mode: plus-lighter) reproduces per-vertex
+// interpolation without a raster step.
+export const getVertexGradients = (face: RenderFace): VertexGradient[] => {
+  if (!face.vertexColors || face.points.length !== 3) return [];
+  return face.points.map((vertex, k) => {
+    const b = face.points[(k + 1) % 3];
+    const c = face.points[(k + 2) % 3];
+    const ex = c[0] - b[0];
+    const ey = c[1] - b[1];
+    const lengthSq = ex * ex + ey * ey || 1;
+    // Foot of the perpendicular from the vertex onto the opposite edge
+    const t = ((vertex[0] - b[0]) * ex + (vertex[1] - b[1]) * ey) / lengthSq;
+    return {
+      id: `vg${face.id}-${k}`,
+      x1: vertex[0],
+      y1: vertex[1],
+      x2: b[0] + ex * t,
+      y2: b[1] + ey * t,
+      color: toRGB(face.vertexColors![k]),
+    };
+  });
+};
+
+export const toJSONString = (data: LowPolyOutput): string => JSON.stringify(data, null, 2);
+
+export const toSVGString = (data: LowPolyOutput, style: RenderStyle = DEFAULT_RENDER_STYLE): string => {
+  const { width, height } = data.image;
+  let svg = `<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 ${width} ${height}'>`;
+  svg += '<g>';
+  getStyledFaces(data, style).forEach(face => {
+    const points = face.points.map(p => p.join(',')).join(' ');
+    const gradients = getVertexGradients(face);
+    const stroke = toStrokeAttributes(getFaceStroke(style, face.color));
+    const opacity = toOpacityAttribute(face);
+    if (gradients.length === 0) {
+      svg += `<polygon points='${points}' fill='${toRGB(face.color)}'${stroke}${opacity} />`;
+      return;
+    }
+    svg += '<defs>';
+    gradients.forEach(g => {
+      svg += `<linearGradient id='${g.id}' gradientUnits='userSpaceOnUse' x1='${g.x1}' y1='${g.y1}' x2='${g.x2}' y2='${g.y2}'><stop offset='0' stop-color='${g.color}' /><stop offset='1' stop-color='#000' /></linearGradient>`;
+    });
+    svg += `</defs><g style='isolation:isolate'${opacity}>`;
+    gradients.forEach((g, k) => {
+      svg += `<polygon points='${points}' fill='url(#${g.id})'${k > 0 ? ` style='mix-blend-mode:plus-lighter'` : ''} />`;
+    });
+    if (stroke) svg += `</g><polygon points='${points}' fill='none'${stroke}${opacity} />`;
+    else svg += '</g>';
+  });
+  svg += '</g></svg>';
+  return svg;
+};
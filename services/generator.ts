@@ -0,0 +1,120 @@
+import { Settings, LowPolyOutput, RasterImage, GenerationProgress } from '../types';
+import type { WorkerRequest, WorkerResponse } from './lowpoly.worker';
+import { decodeImage } from './decode';
+
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation was cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export interface GenerationTask<T = LowPolyOutput> {
+  promise: Promise<T>;
+  // Terminates the worker; the promise rejects with GenerationCancelledError
+  cancel: () => void;
+}
+
+export interface SourceImage {
+  // Used for display only
+  image: HTMLImageElement;
+  // Decoded with the same pure JS decoder as the CLI, so results match it exactly
+  pixels: RasterImage;
+}
+
+export const loadSourceImage = async (blob: Blob): Promise<SourceImage> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const pixels = decodeImage(bytes);
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not display image'));
+    img.src = URL.createObjectURL(blob);
+  });
+  return { image, pixels };
+};
+
+// Runs a request in a dedicated worker. Each run gets its own worker so
+// cancelling is a plain terminate() with no shared state to clean up.
+const runWorker = <T,>(
+  request: WorkerRequest,
+  transfer: Transferable[],
+  onProgress: (progress: GenerationProgress, frame?: number) => void,
+  getResult: (message: WorkerResponse) => T | undefined
+): GenerationTask<T> => {
+  const worker = new Worker(new URL('./lowpoly.worker.ts', import.meta.url), { type: 'module' });
+  let settle: { resolve: (result: T) => void; reject: (error: Error) => void } | null = null;
+
+  const promise = new Promise<T>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+
+  const finish = () => {
+    worker.terminate();
+    settle = null;
+  };
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'progress') {
+      onProgress(message.progress, message.frame);
+    } else if (message.type === 'error') {
+      settle?.reject(new Error(message.message));
+      finish();
+    } else {
+      const result = getResult(message);
+      if (result !== undefined) settle?.resolve(result);
+      else settle?.reject(new Error(`Unexpected worker response "${message.type}"`));
+      finish();
+    }
+  };
+  worker.onerror = (event: ErrorEvent) => {
+    settle?.reject(new Error(event.message || 'Worker failed'));
+    finish();
+  };
+
+  try {
+    worker.postMessage(request, transfer);
+  } catch (e) {
+    settle!.reject(e instanceof Error ? e : new Error(String(e)));
+    finish();
+  }
+
+  return {
+    promise,
+    cancel: () => {
+      settle?.reject(new GenerationCancelledError());
+      finish();
+    },
+  };
+};
+
+// Runs generateLowPolyData in a worker
+export const startGeneration = (
+  pixels: RasterImage,
+  sourceFileName: string,
+  settings: Settings,
+  onProgress: (progress: GenerationProgress) => void
+): GenerationTask => {
+  // Transfer a copy: the caller keeps the source pixels for later runs
+  const data = pixels.data.slice();
+  return runWorker<LowPolyOutput>(
+    { type: 'image', image: { width: pixels.width, height: pixels.height, data }, sourceFileName, settings },
+    [data.buffer],
+    onProgress,
+    message => message.type === 'result' ? message.output : undefined
+  );
+};
+
+// Runs generateSequence in a worker; the frames are handed over, not copied
+export const startSequenceGeneration = (
+  frames: RasterImage[],
+  frameNames: string[],
+  settings: Settings,
+  onProgress: (frame: number, progress: GenerationProgress) => void
+): GenerationTask<LowPolyOutput[]> => runWorker<LowPolyOutput[]>(
+  { type: 'sequence', frames, frameNames, settings },
+  frames.map(frame => frame.data.buffer),
+  (progress, frame) => onProgress(frame ?? 0, progress),
+  message => message.type === 'sequence' ? message.outputs : undefined
+);
@@ -0,0 +1,34 @@
+import { RasterImage } from '../types';
+import { gradientMagnitude } from './edges';
+
+// Height fields shared by the 3D mesh exporters and the lighting pass
+
+const luminanceAt = (image: RasterImage, i: number) =>
+  (0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2]) / 255;
+
+// Height in 0..1 at a position given in 0..1 fractions of the image, averaged
+// over a small box so a single noisy pixel under a vertex doesn't spike it.
+// 'luminance' also reads depth maps, which are grayscale.
+export const createHeightField = (source: 'luminance' | 'edges', image: RasterImage): ((u: number, v: number) => number) => {
+  const { width, height } = image;
+  const values = new Float32Array(width * height);
+  if (source === 'edges') {
+    gradientMagnitude(image, 2).forEach((m, i) => values[i] = m / 255);
+  } else {
+    for (let i = 0; i < values.length; i++) values[i] = luminanceAt(image, i);
+  }
+  const radius = Math.max(1, Math.round(Math.max(width, height) / 200));
+  return (u, v) => {
+    const cx = Math.min(width - 1, Math.max(0, Math.floor(u * width)));
+    const cy = Math.min(height - 1, Math.max(0, Math.floor(v * height)));
+    let sum = 0;
+    let count = 0;
+    for (let y = Math.max(0, cy - radius); y <= Math.min(height - 1, cy + radius); y++) {
+      for (let x = Math.max(0, cx - radius); x <= Math.min(width - 1, cx + radius); x++) {
+        sum += values[y * width + x];
+        count++;
+      }
+    }
+    return sum / count;
+  };
+};
@@ -0,0 +1,60 @@
+// Immutable undo/redo stack. Each entry is a full snapshot, so undo simply swaps
+// the present for the previous snapshot.
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Key and time of the last push, for coalescing rapid changes
+  lastKey: string | null;
+  lastTime: number;
+}
+
+export const HISTORY_LIMIT = 50;
+
+// Pushes with the same key closer together than this replace the present entry,
+// so a slider drag or a vertex drag becomes one undo step
+const COALESCE_MS = 500;
+
+export const createHistory = <T>(present: T): History<T> => ({
+  past: [],
+  present,
+  future: [],
+  lastKey: null,
+  lastTime: 0,
+});
+
+// A null key never coalesces
+export const pushHistory = <T>(history: History<T>, present: T, key: string | null = null, now = Date.now()): History<T> => {
+  if (key !== null && key === history.lastKey && now - history.lastTime < COALESCE_MS) {
+    return { ...history, present, future: [], lastTime: now };
+  }
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present,
+    future: [],
+    lastKey: key,
+    lastTime: now,
+  };
+};
+
+export const undo = <T>(history: History<T>): History<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastKey: null,
+    lastTime: 0,
+  };
+};
+
+export const redo = <T>(history: History<T>): History<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastKey: null,
+    lastTime: 0,
+  };
+};
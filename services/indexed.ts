@@ -0,0 +1,502 @@
+import { LowPolyOutput, Triangle, Cell, Region, AverageColor, IndexedFaceList, IndexedLowPolyOutput } from '../types';
+import { getCentroid, getArea, getPolygonArea, getPolygonCentroid } from './lowpoly';
+import { SchemaError, loadLowPolyOutput, isRecord } from './schema';
+
+// --- Indexed Format ---
+
+// A compact alternative to the 1.x JSON: every vertex is stored once and faces
+// refer to it by index, per-face values live in flat parallel arrays, and values
+// that follow from the outline (centroids, triangle areas) are left out. It
+// comes as compact JSON or as a binary container whose arrays can be used as
+// typed arrays without parsing. Both convert back to exactly the same output.
+
+type FaceKind = 'triangles' | 'cells' | 'regions';
+type Face = Triangle | Cell | Region;
+type TypedArrayConstructor =
+  | Float64ArrayConstructor | Uint32ArrayConstructor | Int32ArrayConstructor | Int16ArrayConstructor | Uint8ArrayConstructor;
+
+const FACE_KINDS: FaceKind[] = ['triangles', 'cells', 'regions'];
+
+// Array type of every optional and required per-face array
+const FIELD_TYPES: Record<Exclude<keyof IndexedFaceList, 'count'>, TypedArrayConstructor> = {
+  ids: Uint32Array,
+  offsets: Uint32Array,
+  indices: Uint32Array,
+  colors: Int16Array,
+  alphas: Int16Array,
+  color_errors: Float64Array,
+  pixel_counts: Int32Array,
+  color_stds: Float64Array,
+  luminance_ranges: Float64Array,
+  vertex_colors: Int16Array,
+  vertex_color_mask: Uint8Array,
+  palette_indices: Int32Array,
+  normals: Float64Array,
+  sites: Uint32Array,
+  triangle_counts: Uint32Array,
+  neighbor_offsets: Uint32Array,
+  neighbors: Uint32Array,
+  centroids: Float64Array,
+  areas: Float64Array,
+};
+type FieldName = keyof typeof FIELD_TYPES;
+
+// True once every per-face array present has the type FIELD_TYPES gives it
+const hasFieldTypes = (list: Record<string, unknown>): list is Record<string, unknown> & Partial<Omit<IndexedFaceList, 'count'>> =>
+  Object.entries(FIELD_TYPES).every(([field, type]) => list[field] === undefined || list[field] instanceof type);
+
+const INDEXED_FORMAT = 'lowpoly-indexed';
+
+const outlineOf = (kind: FaceKind, face: Face): [number, number][] =>
+  kind === 'triangles' ? (face as Triangle).vertices : (face as Cell | Region).polygon;
+
+// Centroid and area as the generator computes them, or null where they can't be
+// recomputed from the outline alone (regions sum their triangles' areas)
+const deriveGeometry = (kind: FaceKind, outline: [number, number][]) => {
+  if (kind === 'triangles') {
+    const vertices = outline as Triangle['vertices'];
+    return { centroid: getCentroid(vertices), area: getArea(vertices) };
+  }
+  if (kind === 'cells') {
+    const area = getPolygonArea(outline);
+    return { centroid: getPolygonCentroid(outline, area), area };
+  }
+  return null;
+};
+
+const indexFaces = (kind: FaceKind, faces: Face[], vertexIndex: (point: [number, number]) => number): IndexedFaceList => {
+  const count = faces.length;
+  const indices: number[] = [];
+  const offsets = [0];
+  let centroidsDerivable = true;
+  let areasDerivable = true;
+  faces.forEach(face => {
+    const outline = outlineOf(kind, face);
+    outline.forEach(point => indices.push(vertexIndex(point)));
+    offsets.push(indices.length);
+    const derived = deriveGeometry(kind, outline);
+    if (!derived || !Object.is(derived.area, face.area_px)) areasDerivable = false;
+    if (!derived || !Object.is(derived.centroid[0], face.centroid[0]) || !Object.is(derived.centroid[1], face.centroid[1])) {
+      centroidsDerivable = false;
+    }
+  });
+
+  const withVertexColors = faces.filter(face => (face as Triangle).vertex_colors).length;
+  const neighborOffsets = [0];
+  faces.forEach(face => neighborOffsets.push(neighborOffsets[neighborOffsets.length - 1] + face.neighbors.length));
+  const sequentialIds = faces.every((face, i) => face.id === i + 1);
+
+  return {
+    count,
+    ...(sequentialIds ? {} : { ids: Uint32Array.from(faces, face => face.id) }),
+    ...(kind === 'triangles' ? {} : { offsets: Uint32Array.from(offsets) }),
+    indices: Uint32Array.from(indices),
+    colors: Int16Array.from(faces.flatMap(face => face.avg_color.slice(0, 3))),
+    ...(faces.some(face => face.avg_color[3] !== undefined) ? {
+      alphas: Int16Array.from(faces, face => face.avg_color[3] ?? -1),
+    } : {}),
+    ...(faces.some(face => face.color_error !== undefined) ? {
+      color_errors: Float64Array.from(faces, face => face.color_error ?? NaN),
+    } : {}),
+    ...(faces.some(face => face.pixel_count !== undefined) ? {
+      pixel_counts: Int32Array.from(faces, face => face.pixel_count ?? -1),
+      color_stds: Float64Array.from(faces.flatMap(face => face.color_std ?? [NaN, NaN, NaN])),
+      luminance_ranges: Float64Array.from(faces, face => face.luminance_range ?? NaN),
+    } : {}),
+    ...(withVertexColors > 0 ? {
+      vertex_colors: Int16Array.from(faces.flatMap(face => (face as Triangle).vertex_colors?.flat() ?? new Array(9).fill(0))),
+    } : {}),
+    ...(withVertexColors > 0 && withVertexColors < count ? {
+      vertex_color_mask: Uint8Array.from(faces, face => (face as Triangle).vertex_colors ? 1 : 0),
+    } : {}),
+    ...(faces.some(face => face.palette_index !== undefined) ? {
+      palette_indices: Int32Array.from(faces, face => face.palette_index ?? -1),
+    } : {}),
+    ...(faces.some(face => face.normal !== undefined) ? {
+      normals: Float64Array.from(faces.flatMap(face => face.normal ?? [NaN, NaN, NaN])),
+    } : {}),
+    ...(kind === 'cells' ? { sites: Uint32Array.from(faces, face => vertexIndex((face as Cell).site)) } : {}),
+    ...(kind === 'regions' ? { triangle_counts: Uint32Array.from(faces, face => (face as Region).triangle_count) } : {}),
+    ...(neighborOffsets[count] > 0 ? {
+      neighbor_offsets: Uint32Array.from(neighborOffsets),
+      neighbors: Uint32Array.from(faces.flatMap(face => face.neighbors)),
+    } : {}),
+    ...(centroidsDerivable ? {} : { centroids: Float64Array.from(faces.flatMap(face => face.centroid)) }),
+    ...(areasDerivable ? {} : { areas: Float64Array.from(faces, face => face.area_px) }),
+  };
+};
+
+export const toIndexed = (data: LowPolyOutput): IndexedLowPolyOutput => {
+  const coordinates: number[] = [];
+  const lookup = new Map<string, number>();
+  const vertexIndex = ([x, y]: [number, number]) => {
+    const key = `${x},${y}`;
+    let index = lookup.get(key);
+    if (index === undefined) {
+      index = coordinates.length / 2;
+      lookup.set(key, index);
+      coordinates.push(x, y);
+    }
+    return index;
+  };
+
+  // Walks the fields in their original order so the round trip keeps it
+  const result: Record<string, unknown> = { format: INDEXED_FORMAT };
+  for (const [key, value] of Object.entries(data)) {
+    if (key === 'points') result.points = Uint32Array.from(value as [number, number][], vertexIndex);
+    else result[key] = FACE_KINDS.includes(key as FaceKind) ? indexFaces(key as FaceKind, value as Face[], vertexIndex) : value;
+  }
+  result.vertices = Float64Array.from(coordinates);
+  return result as unknown as IndexedLowPolyOutput;
+};
+
+const vertex = (vertices: Float64Array, index: number): [number, number] => [vertices[index * 2], vertices[index * 2 + 1]];
+
+const expandFaces = (kind: FaceKind, list: IndexedFaceList, vertices: Float64Array): Face[] => {
+  const color = (array: Int16Array, index: number): [number, number, number] =>
+    [array[index * 3], array[index * 3 + 1], array[index * 3 + 2]];
+
+  return Array.from({ length: list.count }, (_, i) => {
+    const start = list.offsets ? list.offsets[i] : i * 3;
+    const end = list.offsets ? list.offsets[i + 1] : start + 3;
+    const outline = Array.from(list.indices.subarray(start, end), index => vertex(vertices, index));
+    const derived = deriveGeometry(kind, outline);
+    const centroid: [number, number] = list.centroids
+      ? [list.centroids[i * 2], list.centroids[i * 2 + 1]]
+      : derived!.centroid;
+    const area = list.areas ? list.areas[i] : derived!.area;
+    const colorError = list.color_errors?.[i];
+    const hasVertexColors = list.vertex_colors && (!list.vertex_color_mask || list.vertex_color_mask[i] === 1);
+    const paletteIndex = list.palette_indices?.[i] ?? -1;
+    const neighbors = list.neighbor_offsets && list.neighbors
+      ? Array.from(list.neighbors.subarray(list.neighbor_offsets[i], list.neighbor_offsets[i + 1]))
+      : [];
+    const id = list.ids ? list.ids[i] : i + 1;
+    const alpha = list.alphas?.[i] ?? -1;
+    const avg_color: AverageColor = alpha !== -1 ? [...color(list.colors, i), alpha] : color(list.colors, i);
+    const color_error = colorError !== undefined && !Number.isNaN(colorError) ? { color_error: colorError } : {};
+    const pixelCount = list.pixel_counts?.[i] ?? -1;
+    const color_stats = pixelCount !== -1 ? {
+      pixel_count: pixelCount,
+      color_std: [list.color_stds![i * 3], list.color_stds![i * 3 + 1], list.color_stds![i * 3 + 2]] as [number, number, number],
+      luminance_range: list.luminance_ranges![i],
+    } : {};
+    const palette_index = paletteIndex >= 0 ? { palette_index: paletteIndex } : {};
+    const normal = list.normals !== undefined && !Number.isNaN(list.normals[i * 3]) ? {
+      normal: [list.normals[i * 3], list.normals[i * 3 + 1], list.normals[i * 3 + 2]] as [number, number, number],
+    } : {};
+
+    // Keys in the order the generator writes them
+    if (kind === 'triangles') {
+      return {
+        id,
+        vertices: outline as Triangle['vertices'],
+        centroid,
+        area_px: area,
+        avg_color,
+        ...color_error,
+        ...color_stats,
+        ...(hasVertexColors ? {
+          vertex_colors: [0, 1, 2].map(k => color(list.vertex_colors!, i * 3 + k)) as Triangle['vertex_colors'],
+        } : {}),
+        neighbors,
+        ...palette_index,
+        ...normal,
+      };
+    }
+    if (kind === 'cells') {
+      return {
+        id,
+        site: vertex(vertices, list.sites![i]),
+        polygon: outline,
+        centroid,
+        area_px: area,
+        avg_color,
+        ...color_error,
+        ...color_stats,
+        neighbors,
+        ...palette_index,
+        ...normal,
+      };
+    }
+    return {
+      id,
+      polygon: outline,
+      centroid,
+      area_px: area,
+      avg_color,
+      ...color_error,
+      ...color_stats,
+      triangle_count: list.triangle_counts![i],
+      neighbors,
+      ...palette_index,
+      ...normal,
+    };
+  });
+};
+
+// --- Structure Checks ---
+
+// The indexed arrays are checked before expanding, so a broken file is reported
+// instead of producing undefined coordinates; the expanded output then goes
+// through the regular schema validation.
+const checkIndexed = (data: unknown): string[] => {
+  const issues: string[] = [];
+  const report = (path: string, message: string) => issues.push(`${path}: ${message}`);
+
+  if (!isRecord(data)) {
+    report('(root)', 'expected an object');
+    return issues;
+  }
+  if (!(data.vertices instanceof Float64Array)) {
+    report('vertices', 'expected an array of numbers');
+    return issues;
+  }
+  if (data.vertices.length % 2 !== 0) report('vertices', 'expected x, y pairs');
+  const vertexCount = Math.floor(data.vertices.length / 2);
+
+  const checkOffsets = (path: string, offsets: Uint32Array, count: number, total: number) => {
+    if (offsets.length !== count + 1) return report(path, `expected ${count + 1} offsets, got ${offsets.length}`);
+    if (offsets[0] !== 0 || offsets[count] !== total) return report(path, `must run from 0 to ${total}`);
+    for (let i = 1; i <= count; i++) {
+      if (offsets[i] < offsets[i - 1]) return report(`${path}[${i}]`, 'offsets must not decrease');
+    }
+  };
+  const checkLength = (path: string, array: ArrayLike<number> | undefined, expected: number) => {
+    if (array && array.length !== expected) report(path, `expected ${expected} values, got ${array.length}`);
+  };
+  const checkVertexIndices = (path: string, array: Uint32Array) => {
+    const bad = array.findIndex(index => index >= vertexCount);
+    if (bad >= 0) report(`${path}[${bad}]`, `${array[bad]} is out of range for ${vertexCount} vertices`);
+  };
+
+  if (data.points !== undefined) {
+    if (data.points instanceof Uint32Array) checkVertexIndices('points', data.points);
+    else report('points', 'expected an array of vertex indices');
+  }
+  for (const kind of FACE_KINDS) {
+    const list = data[kind];
+    if (list === undefined && kind !== 'triangles') continue;
+    if (!isRecord(list)) {
+      report(kind, 'expected an object');
+      continue;
+    }
+    const count = list.count;
+    if (typeof count !== 'number' || !Number.isInteger(count) || count < 0) {
+      report(`${kind}.count`, `expected a non-negative integer, got ${JSON.stringify(count)}`);
+      continue;
+    }
+    if (!hasFieldTypes(list)) {
+      for (const [field, type] of Object.entries(FIELD_TYPES)) {
+        if (list[field] !== undefined && !(list[field] instanceof type)) {
+          report(`${kind}.${field}`, `expected an array of ${type.name.replace('Array', '').toLowerCase()} values`);
+        }
+      }
+      continue;
+    }
+    const missing = (['indices', 'colors'] as FieldName[])
+      .concat(kind === 'triangles' ? [] : ['offsets'])
+      .concat(kind === 'cells' ? ['sites'] : kind === 'regions' ? ['triangle_counts', 'centroids', 'areas'] : [])
+      .filter(field => list[field] === undefined);
+    const { indices } = list;
+    if (missing.length > 0 || !indices) {
+      missing.forEach(field => report(`${kind}.${field}`, 'required'));
+      continue;
+    }
+
+    if (list.offsets) checkOffsets(`${kind}.offsets`, list.offsets, count, indices.length);
+    else checkLength(`${kind}.indices`, indices, count * 3);
+    checkVertexIndices(`${kind}.indices`, indices);
+    if (list.sites) {
+      checkLength(`${kind}.sites`, list.sites, count);
+      checkVertexIndices(`${kind}.sites`, list.sites);
+    }
+    checkLength(`${kind}.ids`, list.ids, count);
+    checkLength(`${kind}.colors`, list.colors, count * 3);
+    checkLength(`${kind}.alphas`, list.alphas, count);
+    checkLength(`${kind}.color_errors`, list.color_errors, count);
+    checkLength(`${kind}.pixel_counts`, list.pixel_counts, count);
+    checkLength(`${kind}.color_stds`, list.color_stds, count * 3);
+    checkLength(`${kind}.luminance_ranges`, list.luminance_ranges, count);
+    if (list.pixel_counts && (!list.color_stds || !list.luminance_ranges)) {
+      report(`${kind}.pixel_counts`, 'pixel_counts, color_stds and luminance_ranges come together');
+    }
+    checkLength(`${kind}.vertex_colors`, list.vertex_colors, count * 9);
+    checkLength(`${kind}.vertex_color_mask`, list.vertex_color_mask, count);
+    checkLength(`${kind}.palette_indices`, list.palette_indices, count);
+    checkLength(`${kind}.normals`, list.normals, count * 3);
+    checkLength(`${kind}.triangle_counts`, list.triangle_counts, count);
+    checkLength(`${kind}.centroids`, list.centroids, count * 2);
+    checkLength(`${kind}.areas`, list.areas, count);
+    if (!list.neighbor_offsets !== !list.neighbors) {
+      report(`${kind}.neighbors`, 'neighbors and neighbor_offsets come together');
+    } else if (list.neighbor_offsets && list.neighbors) {
+      checkOffsets(`${kind}.neighbor_offsets`, list.neighbor_offsets, count, list.neighbors.length);
+    }
+  }
+  return issues;
+};
+
+// Expands an indexed output back to the regular format, validating it on the way.
+// Throws SchemaError listing every problem found.
+export const fromIndexed = (indexed: IndexedLowPolyOutput): LowPolyOutput => {
+  const issues = checkIndexed(indexed);
+  if (issues.length > 0) throw new SchemaError(issues);
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(indexed)) {
+    if (key === 'format' || key === 'vertices') continue;
+    if (key === 'points') result.points = Array.from(value as Uint32Array, index => vertex(indexed.vertices, index));
+    else result[key] = FACE_KINDS.includes(key as FaceKind)
+      ? expandFaces(key as FaceKind, value as IndexedFaceList, indexed.vertices)
+      : value;
+  }
+  return loadLowPolyOutput(result);
+};
+
+// --- Compact JSON ---
+
+export const toIndexedJSONString = (data: LowPolyOutput): string =>
+  // Missing color errors (NaN) become null
+  JSON.stringify(toIndexed(data), (_, value) => ArrayBuffer.isView(value) ? Array.from(value as Float64Array) : value);
+
+// Turns the plain arrays of a parsed indexed JSON file into typed arrays
+const reviveIndexedJSON = (data: Record<string, unknown>): IndexedLowPolyOutput => {
+  const issues: string[] = [];
+  const toTyped = (path: string, value: unknown, type: TypedArrayConstructor) => {
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'number' && !(v === null && type === Float64Array))) {
+      issues.push(`${path}: expected an array of numbers`);
+      return value;
+    }
+    return type.from(value.map(v => v ?? NaN));
+  };
+
+  const result: Record<string, unknown> = { ...data, vertices: toTyped('vertices', data.vertices, Float64Array) };
+  if (data.points !== undefined) result.points = toTyped('points', data.points, Uint32Array);
+  for (const kind of FACE_KINDS) {
+    const list = data[kind];
+    if (!isRecord(list)) continue;
+    const typed: Record<string, unknown> = { ...list };
+    for (const [field, type] of Object.entries(FIELD_TYPES)) {
+      if (list[field] !== undefined) typed[field] = toTyped(`${kind}.${field}`, list[field], type);
+    }
+    result[kind] = typed;
+  }
+  if (issues.length > 0) throw new SchemaError(issues);
+  return result as unknown as IndexedLowPolyOutput;
+};
+
+// --- Binary Container ---
+
+// Layout, all numbers little-endian:
+//   0   'LPIX'
+//   4   uint32 container version
+//   8   uint32 header length in bytes
+//   12  uint32 data length in bytes
+//   16  UTF-8 JSON header: the indexed output with each typed array replaced by
+//       { "$array": "<type>", "offset": <bytes into data>, "length": <elements> }
+//   ... data, every array starting on an 8-byte boundary
+// Loaders can wrap the arrays in typed array views of the file without copying.
+
+const MAGIC = 'LPIX';
+const CONTAINER_VERSION = 1;
+const PREAMBLE = 16;
+const ALIGNMENT = 8;
+
+const TYPES_BY_NAME: Record<string, TypedArrayConstructor> = {
+  Float64Array, Uint32Array, Int32Array, Int16Array, Uint8Array,
+};
+
+const alignUp = (value: number) => Math.ceil(value / ALIGNMENT) * ALIGNMENT;
+
+export const toIndexedBinary = (data: LowPolyOutput): Uint8Array => {
+  const arrays: Uint8Array[] = [];
+  let dataLength = 0;
+  const header = JSON.stringify(toIndexed(data), (_, value) => {
+    if (!ArrayBuffer.isView(value)) return value;
+    const array = value as Float64Array;
+    const entry = { $array: array.constructor.name, offset: dataLength, length: array.length };
+    arrays.push(new Uint8Array(array.buffer, array.byteOffset, array.byteLength));
+    dataLength = alignUp(dataLength + array.byteLength);
+    return entry;
+  });
+
+  const encoded = new TextEncoder().encode(header);
+  // Pad the header with spaces so the data starts aligned
+  const headerLength = alignUp(PREAMBLE + encoded.length) - PREAMBLE;
+  const bytes = new Uint8Array(PREAMBLE + headerLength + dataLength);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < 4; i++) bytes[i] = MAGIC.charCodeAt(i);
+  view.setUint32(4, CONTAINER_VERSION, true);
+  view.setUint32(8, headerLength, true);
+  view.setUint32(12, dataLength, true);
+  bytes.set(encoded, PREAMBLE);
+  bytes.fill(0x20, PREAMBLE + encoded.length, PREAMBLE + headerLength);
+
+  let offset = PREAMBLE + headerLength;
+  arrays.forEach(array => {
+    bytes.set(array, offset);
+    offset += alignUp(array.length);
+  });
+  return bytes;
+};
+
+export const isIndexedBinary = (bytes: Uint8Array): boolean =>
+  bytes.length >= PREAMBLE && String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]) === MAGIC;
+
+// Reads the container into an indexed output whose arrays are views of `bytes`
+export const readIndexedBinary = (bytes: Uint8Array): IndexedLowPolyOutput => {
+  if (!isIndexedBinary(bytes)) throw new SchemaError(['(root): not an indexed binary file']);
+  // Typed array views need their start aligned to the element size
+  const source = bytes.byteOffset % ALIGNMENT === 0 ? bytes : bytes.slice();
+  const view = new DataView(source.buffer, source.byteOffset, source.byteLength);
+  const version = view.getUint32(4, true);
+  if (version !== CONTAINER_VERSION) {
+    throw new SchemaError([`(root): unsupported container version ${version} (this app reads ${CONTAINER_VERSION})`]);
+  }
+  const headerLength = view.getUint32(8, true);
+  const dataLength = view.getUint32(12, true);
+  const dataStart = PREAMBLE + headerLength;
+  if (dataStart % ALIGNMENT !== 0 || dataStart + dataLength > source.length) {
+    throw new SchemaError(['(root): truncated or corrupt file']);
+  }
+
+  const issues: string[] = [];
+  let header: unknown;
+  try {
+    header = JSON.parse(new TextDecoder().decode(source.subarray(PREAMBLE, dataStart)), (key, value: unknown) => {
+      if (!isRecord(value) || !('$array' in value)) return value;
+      const type = typeof value.$array === 'string' ? TYPES_BY_NAME[value.$array] : undefined;
+      const { offset, length } = value;
+      if (!type || typeof offset !== 'number' || typeof length !== 'number' ||
+          !Number.isInteger(offset) || !Number.isInteger(length) || offset % ALIGNMENT !== 0 ||
+          offset < 0 || length < 0 || offset + length * type.BYTES_PER_ELEMENT > dataLength) {
+        issues.push(`${key}: invalid array reference ${JSON.stringify(value)}`);
+        return value;
+      }
+      return new type(source.buffer, source.byteOffset + dataStart + offset, length);
+    });
+  } catch (e) {
+    throw new SchemaError([`header is not valid JSON: ${e instanceof Error ? e.message : String(e)}`]);
+  }
+  if (issues.length > 0) throw new SchemaError(issues);
+  if (!isRecord(header) || header.format !== INDEXED_FORMAT) {
+    throw new SchemaError(['format: expected "lowpoly-indexed"']);
+  }
+  return header as unknown as IndexedLowPolyOutput;
+};
+
+// --- Loading ---
+
+// Reads any saved output: regular or indexed JSON, or the binary container
+export const parseSavedOutput = (bytes: Uint8Array): LowPolyOutput => {
+  if (isIndexedBinary(bytes)) return fromIndexed(readIndexedBinary(bytes));
+  let data: unknown;
+  try {
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (e) {
+    throw new SchemaError([`not valid JSON: ${e instanceof Error ? e.message : String(e)}`]);
+  }
+  if (isRecord(data) && data.format === INDEXED_FORMAT) return fromIndexed(reviveIndexedJSON(data));
+  return loadLowPolyOutput(data);
+};
@@ -0,0 +1,92 @@
+import { LowPolyOutput, Lighting, RasterImage } from '../types';
+import { createHeightField } from './height';
+
+type RGB = [number, number, number];
+type Vec3 = [number, number, number];
+
+// Light from the top left. A face parallel to the image keeps its measured
+// color: 0.5 + 0.7 * sin(45°) is about 1.
+export const DEFAULT_LIGHTING: Lighting = {
+  height_source: 'luminance',
+  relief: 0.05,
+  azimuth: 315,
+  elevation: 45,
+  intensity: 0.7,
+  ambient: 0.5,
+};
+
+// --- Normals ---
+
+// Short in JSON and still far below a visible change in shade
+const round = (value: number) => Math.round(value * 1e4) / 1e4;
+
+// Normal of the plane through the raised vertices of a face, turned toward the
+// viewer. Newell's method: exact for a triangle, and an average plane for a
+// polygon whose raised vertices don't all lie in one.
+const getNormal = (points: Vec3[]): Vec3 => {
+  let n: Vec3 = [0, 0, 0];
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    n[0] += (a[1] - b[1]) * (a[2] + b[2]);
+    n[1] += (a[2] - b[2]) * (a[0] + b[0]);
+    n[2] += (a[0] - b[0]) * (a[1] + b[1]);
+  });
+  if (n[2] < 0) n = [-n[0], -n[1], -n[2]];
+  const length = Math.hypot(n[0], n[1], n[2]);
+  return length > 0 ? [round(n[0] / length), round(n[1] / length), round(n[2] / length)] : [0, 0, 1];
+};
+
+// Raises every face vertex by the height `image` gives it (the source image at
+// any resolution) and stores each face's normal along with the light, whether
+// the faces are triangles, Voronoi cells or merged regions.
+export const applyLighting = (data: LowPolyOutput, image: RasterImage, lighting: Lighting): LowPolyOutput => {
+  const { width, height } = data.image;
+  const field = createHeightField(lighting.height_source, image);
+  const scale = lighting.relief * Math.max(width, height);
+  const heights = new Map<string, number>();
+  const raise = ([x, y]: [number, number]): Vec3 => {
+    const key = `${x},${y}`;
+    let z = heights.get(key);
+    if (z === undefined) {
+      z = field(x / width, y / height) * scale;
+      heights.set(key, z);
+    }
+    return [x, y, z];
+  };
+  return {
+    ...data,
+    lighting,
+    triangles: data.triangles.map(tri => ({ ...tri, normal: getNormal(tri.vertices.map(raise)) })),
+    ...(data.cells ? { cells: data.cells.map(cell => ({ ...cell, normal: getNormal(cell.polygon.map(raise)) })) } : {}),
+    ...(data.regions ? { regions: data.regions.map(region => ({ ...region, normal: getNormal(region.polygon.map(raise)) })) } : {}),
+  };
+};
+
+export const removeLighting = (data: LowPolyOutput): LowPolyOutput => {
+  const { lighting: _, ...rest } = data;
+  return {
+    ...rest,
+    triangles: data.triangles.map(({ normal: _normal, ...tri }) => tri),
+    ...(data.cells ? { cells: data.cells.map(({ normal: _normal, ...cell }) => cell) } : {}),
+    ...(data.regions ? { regions: data.regions.map(({ normal: _normal, ...region }) => region) } : {}),
+  };
+};
+
+// --- Shading ---
+
+// Unit vector toward the light; azimuth 0 is the top of the image (-y), 90 the right
+const getLightDirection = ({ azimuth, elevation }: Lighting): Vec3 => {
+  const a = (azimuth * Math.PI) / 180;
+  const e = (elevation * Math.PI) / 180;
+  return [Math.cos(e) * Math.sin(a), -Math.cos(e) * Math.cos(a), Math.sin(e)];
+};
+
+// Lambert shading: the factor a face's colors are multiplied by
+export const getShade = (normal: Vec3, lighting: Lighting): number => {
+  const [lx, ly, lz] = getLightDirection(lighting);
+  const diffuse = Math.max(0, normal[0] * lx + normal[1] * ly + normal[2] * lz);
+  return lighting.ambient + lighting.intensity * diffuse;
+};
+
+export const shadeColor = (color: RGB, shade: number): RGB =>
+  color.map(c => Math.min(255, Math.max(0, Math.round(c * shade)))) as RGB;
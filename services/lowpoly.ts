@@ -1,144 +1,654 @@
+import { Delaunay } from 'd3-delaunay';
+import { detectEdges, detectSilhouette, traceContours, sampleContours } from './edges';
+import { createPRNG, PRNG_VERSION } from './random';
+import { quantizeToPalette, applyPalette, hexToRgb, rgbToLab, labToRgb, nearestPaletteIndex } from './palette';
+import { mergeTriangles } from './merge';
+import { FORMAT_VERSION } from './schema';
+import { createDensityField, DensityField } from './density';
+import { applyFilters } from './preprocess';
+import { Settings, LowPolyOutput, Sampler, Triangle, Cell, Point, AverageColor, ColorSpace, ColorEstimator, ShadingMode, PaletteMode, GeometryKind, RasterImage, GenerationStage, GenerationProgress } from '../types';
 
+export type ProgressCallback = (progress: GenerationProgress) => void;
 
-import { Settings, LowPolyOutput, Sampler, Triangle, Point, ColorSpace } from '../types';
+// --- Main Generation Function ---
 
-// Let TypeScript know that d3 is a global variable from the script tag
-declare const d3: any;
+// Runs the whole pipeline synchronously on a raw RGBA buffer. It does not touch
+// the DOM, so it can be called from a Web Worker (see lowpoly.worker.ts).
+export const generateLowPolyData = (
+  source: RasterImage,
+  sourceFileName: string,
+  settings: Settings,
+  onProgress: ProgressCallback = () => {}
+): LowPolyOutput => {
+    onProgress({ stage: GenerationStage.SCALING, progress: 0 });
+    const scaled = scaleImageData(source, settings.maxSize);
+    onProgress({ stage: GenerationStage.SCALING, progress: 1 });
+    const imageData = preprocessImage(scaled, settings, onProgress);
 
-// A seeded random number generator for deterministic results
-const createPRNG = (seed: number) => {
-  let s = seed;
-  return () => {
-    s = Math.sin(s) * 10000;
-    return s - Math.floor(s);
-  };
+    const sampled = samplePoints(imageData, settings, onProgress);
+    const output = buildLowPolyOutput(imageData, sourceFileName, settings, sampled, onProgress);
+    const paletted = applyPaletteMode(output, settings, onProgress);
+    if (!settings.mergeRegions || settings.geometry === GeometryKind.VORONOI) return paletted;
+    onProgress({ stage: GenerationStage.MERGING, progress: 0 });
+    return mergeTriangles(paletted, settings.mergeTolerance, imageData, settings.withNeighbors);
 };
 
-// --- Main Generation Function ---
+// The scaled image with the settings' filter chain applied; sampling and coloring
+// both read this
+export const preprocessImage = (scaled: RasterImage, settings: Settings, onProgress: ProgressCallback = () => {}): RasterImage => {
+    if (settings.filters.length === 0) return scaled;
+    onProgress({ stage: GenerationStage.PREPROCESSING, progress: 0 });
+    const filtered = applyFilters(scaled, settings.filters);
+    onProgress({ stage: GenerationStage.PREPROCESSING, progress: 1 });
+    return filtered;
+};
 
-export const generateLowPolyData = (
-  image: HTMLImageElement,
-  sourceFileName: string,
-  settings: Settings
-): Promise<LowPolyOutput> => {
-  return new Promise((resolve, reject) => {
-    try {
-        const { width, height, imageData } = getScaledImageData(image, settings.maxSize);
-        const random = createPRNG(settings.seed);
-        
-        let points: [number, number][] = [];
-        switch (settings.sampler) {
-            case Sampler.GRID:
-                points = sampleGrid(width, height, settings.points, random);
-                break;
-            case Sampler.POISSON:
-                points = samplePoisson(width, height, settings.points, random);
-                break;
-            case Sampler.EDGE_AWARE:
-                const edgeMap = createEdgeMap(imageData);
-                points = sampleEdgeAware(width, height, settings.points, edgeMap, settings.edgeWeight, random);
-                break;
-        }
+// What `data` was colored from: the source scaled to the mesh and run through the
+// recorded filter chain. Lighting and mesh heights are read from this too.
+export const getSourceRaster = (source: RasterImage, data: LowPolyOutput): RasterImage =>
+    applyFilters(scaleImageData(source, Math.max(data.image.width, data.image.height)), data.params.preprocess ?? []);
 
-        // Ensure corners and border points are included
+export interface SampledPoints {
+    points: [number, number][];
+    // Set when the sampler or contour snapping needed one
+    edgeMap: Uint8ClampedArray | null;
+    // Locked vertices in pixels, also contained in `points`
+    lockedPoints: [number, number][];
+}
+
+// The vertices of a mesh for an image already scaled to maxSize, border included
+export const samplePoints = (imageData: RasterImage, settings: Settings, onProgress: ProgressCallback = () => {}): SampledPoints => {
+    const { width, height } = imageData;
+    const random = createPRNG(settings.seed, 'sampling');
+
+    let edgeMap: Uint8ClampedArray | null = null;
+    if (settings.sampler === Sampler.EDGE_AWARE || settings.snapToContours) {
+        onProgress({ stage: GenerationStage.EDGE_MAP, progress: 0 });
+        edgeMap = detectEdges(imageData, { blur: settings.edgeBlur, low: settings.cannyLow, high: settings.cannyHigh });
+        onProgress({ stage: GenerationStage.EDGE_MAP, progress: 1 });
+    }
+
+    onProgress({ stage: GenerationStage.SAMPLING, progress: 0 });
+    // Vertices placed on traced contours, so triangle edges follow strong image edges
+    let contourPoints: [number, number][] = [];
+    const spacing = Math.sqrt((width * height) / Math.max(1, settings.points)) * 0.75;
+    let contourSpacing = spacing;
+    if (settings.snapToContours && edgeMap) {
+        // Contours may use at most half of the budget
+        ({ points: contourPoints, spacing: contourSpacing } = fitContours(traceContours(edgeMap, width, height), spacing, settings.points / 2));
+    }
+    // The outline of a cut-out gets border points of its own, so triangles end
+    // where the opaque pixels do instead of straddling the edge
+    let silhouettePoints: [number, number][] = [];
+    if (hasTransparency(imageData)) {
+        const outline = traceContours(detectSilhouette(imageData, SILHOUETTE_ALPHA), width, height);
+        silhouettePoints = fitContours(outline, spacing, settings.points / 2).points;
+    }
+    // Locked vertices are stored relative to the image size, so they survive a maxSize change
+    const lockedPoints = settings.lockedPoints.map(([u, v]): [number, number] => [
+        Math.min(width, Math.max(0, u * width)),
+        Math.min(height, Math.max(0, v * height)),
+    ]);
+    const fixedPoints = [...lockedPoints, ...silhouettePoints, ...contourPoints];
+    const samplerPoints = Math.max(0, settings.points - fixedPoints.length);
+
+    const density = settings.densityMask ? createDensityField(settings.densityMask, width, height) : null;
+    let points: [number, number][] = [];
+    switch (settings.sampler) {
+        case Sampler.GRID:
+            points = sampleGrid(width, height, samplerPoints, random, density);
+            break;
+        case Sampler.POISSON:
+            points = samplePoisson(width, height, samplerPoints, random, density);
+            break;
+        case Sampler.EDGE_AWARE:
+            points = sampleEdgeAware(width, height, samplerPoints, edgeMap!, settings.edgeWeight, random, density);
+            break;
+        case Sampler.ADAPTIVE:
+            // Refinement needs the border and contours from the start, so it adds them itself
+            points = sampleAdaptive(imageData, settings.points, settings.targetError, settings.colorSpace, createPRNG(settings.seed, 'refinement'),
+                (progress) => onProgress({ stage: GenerationStage.SAMPLING, progress }),
+                fixedPoints, contourSpacing / 2, density);
+            break;
+    }
+    if (settings.sampler !== Sampler.ADAPTIVE && fixedPoints.length > 0) {
+        // Keep sampled points off the contours so Delaunay keeps the contour segments
+        points = [...fixedPoints, ...removeNearPoints(points, fixedPoints, contourSpacing / 2)];
+    }
+
+    // Ensure corners and border points are included
+    if (settings.sampler !== Sampler.ADAPTIVE) {
         addBorderPoints(points, width, height);
+    }
+    onProgress({ stage: GenerationStage.SAMPLING, progress: 1 });
+    return { points, edgeMap, lockedPoints };
+};
 
-        const delaunay = d3.Delaunay.from(points);
-        
-        const trianglePolygons: [number, number][][] = Array.from(delaunay.trianglePolygons());
-        const triangles: Triangle[] = [];
-        const triangleIndexMap = new Map<number, number>();
-        let currentId = 1;
+// Triangulates (or builds the Voronoi cells of) a point set and colors it from
+// `imageData`. Palettes and region merging are applied by the caller.
+export const buildLowPolyOutput = (
+    imageData: RasterImage,
+    sourceFileName: string,
+    settings: Settings,
+    { points, edgeMap, lockedPoints }: SampledPoints,
+    onProgress: ProgressCallback = () => {}
+): LowPolyOutput => {
+    const { width, height } = imageData;
+    onProgress({ stage: GenerationStage.TRIANGULATION, progress: 0 });
+    const delaunay = Delaunay.from(points);
+    onProgress({ stage: GenerationStage.TRIANGULATION, progress: 1 });
 
-        for(let i = 0; i < trianglePolygons.length; i++) {
-            const vertices = trianglePolygons[i] as [[number, number], [number, number], [number, number]];
+    const isVoronoi = settings.geometry === GeometryKind.VORONOI;
+    const triangles = isVoronoi ? [] : buildTriangles(delaunay, imageData, settings, onProgress);
+    const cells = isVoronoi ? buildCells(delaunay, imageData, settings, onProgress) : undefined;
 
-            // Discard triangles with vertices outside the canvas
-            if (vertices.some(v => v[0] < 0 || v[0] > width || v[1] < 0 || v[1] > height)) {
-                continue;
-            }
+    return {
+        version: FORMAT_VERSION,
+        image: { width, height, source: sourceFileName },
+        params: {
+            sampler: settings.sampler,
+            points: settings.points,
+            seed: settings.seed,
+            prng: PRNG_VERSION,
+            color_space: settings.colorSpace,
+            ...(settings.colorEstimator !== ColorEstimator.MEAN ? { color_estimator: settings.colorEstimator } : {}),
+            shading: settings.shading,
+            ...(settings.paletteMode !== PaletteMode.NONE ? { palette_mode: settings.paletteMode } : {}),
+            ...(settings.sampler === Sampler.ADAPTIVE ? { target_error: settings.targetError } : {}),
+            ...(settings.densityMask ? { density_mask: settings.densityMask } : {}),
+            ...(settings.filters.length > 0 ? { preprocess: settings.filters } : {}),
+            ...(hasTransparency(imageData) ? { min_opacity: settings.minOpacity } : {}),
+            ...(edgeMap ? {
+                edges: {
+                    blur: settings.edgeBlur,
+                    low: settings.cannyLow,
+                    high: settings.cannyHigh,
+                    snap_to_contours: settings.snapToContours,
+                },
+            } : {}),
+        },
+        geometry: settings.geometry,
+        points,
+        ...(lockedPoints.length > 0 ? { locked_points: findPointIndices(points, lockedPoints) } : {}),
+        triangles,
+        ...(cells ? { cells } : {}),
+    };
+};
 
-            const centroid = getCentroid(vertices);
-            const area = getArea(vertices);
-
-            // Discard tiny/degenerate triangles
-            if (area < 1.0) continue;
-            
-            const avg_color = getAverageColor(vertices, imageData, settings.colorSpace);
-
-            triangles.push({
-                id: currentId,
-                vertices,
-                centroid,
-                area_px: area,
-                avg_color,
-                neighbors: [],
-            });
-            triangleIndexMap.set(i, currentId);
-            currentId++;
+export const applyPaletteMode = (output: LowPolyOutput, settings: Settings, onProgress: ProgressCallback): LowPolyOutput => {
+    switch (settings.paletteMode) {
+        case PaletteMode.KMEANS:
+            onProgress({ stage: GenerationStage.PALETTE, progress: 0 });
+            return quantizeToPalette(output, settings.paletteSize, createPRNG(settings.seed, 'palette'));
+        case PaletteMode.CUSTOM: {
+            const palette = settings.customPalette.map(hexToRgb).filter((c): c is [number, number, number] => c !== null);
+            if (palette.length === 0) throw new Error('Custom palette has no valid colors');
+            onProgress({ stage: GenerationStage.PALETTE, progress: 0 });
+            return applyPalette(output, palette);
         }
+        default:
+            return output;
+    }
+};
 
-        if(settings.withNeighbors) {
-            for(const tri of triangles) {
-                 const originalIndex = Array.from(triangleIndexMap.entries()).find(([, id]) => id === tri.id)?.[0];
-                 if(originalIndex === undefined) continue;
+// --- Vertex Editing ---
 
-                 const neighborIndexes = delaunay.neighbors(originalIndex);
-                 for (const neighborIndex of neighborIndexes) {
-                    const neighborId = triangleIndexMap.get(neighborIndex);
-                    if(neighborId) {
-                        tri.neighbors.push(neighborId);
-                    }
-                 }
-            }
-        }
-        
-        resolve({
-            version: "1.0",
-            image: { width, height, source: sourceFileName },
-            params: {
-                sampler: settings.sampler,
-                points: settings.points,
-                seed: settings.seed,
-                color_space: settings.colorSpace
-            },
-            triangles,
+// The point set a triangle mesh was built from. Files saved before points were
+// recorded fall back to the distinct triangle vertices.
+export const getMeshPoints = (data: LowPolyOutput): [number, number][] => {
+    if (data.points) return data.points;
+    const unique = new Map<string, [number, number]>();
+    for (const tri of data.triangles) {
+        for (const vertex of tri.vertices) unique.set(vertex.join(','), vertex);
+    }
+    return [...unique.values()];
+};
+
+// Rebuilds the mesh of an edited point set. Only the cavity of the edit is
+// triangulated again: the triangles that used a removed point or whose
+// circumcircle holds an added one, as nowhere else can the Delaunay
+// triangulation change. The other triangles keep their id, colors, palette entry
+// and neighbors. `imageData` must have the output's dimensions.
+export const retriangulate = (
+    data: LowPolyOutput,
+    points: [number, number][],
+    lockedPoints: number[],
+    imageData: RasterImage
+): LowPolyOutput => {
+    const options: TriangleOptions = {
+        colorSpace: data.params.color_space,
+        colorEstimator: data.params.color_estimator ?? ColorEstimator.MEAN,
+        shading: data.params.shading,
+        withNeighbors: data.triangles.some(tri => tri.neighbors.length > 0),
+        mergeRegions: false,
+        minOpacity: data.params.min_opacity ?? 0,
+    };
+    // Without a consistent cavity every point is triangulated again; triangles
+    // whose three vertices are unchanged still keep their id and colors
+    let triangles = fillCavity(data, points, imageData, options)
+        ?? buildTriangles(Delaunay.from(points), imageData, options, () => {}, new Map(data.triangles.map(tri => [triangleKey(tri.vertices), tri])));
+    if (data.palette) {
+        const palette = data.palette;
+        triangles = triangles.map(tri => tri.palette_index !== undefined ? tri : {
+            ...tri,
+            palette_index: nearestPaletteIndex(tri.avg_color, palette),
         });
+    }
+    const { locked_points: _, ...rest } = data;
+    return {
+        ...rest,
+        points,
+        ...(lockedPoints.length > 0 ? { locked_points: lockedPoints } : {}),
+        triangles,
+    };
+};
+
+const triangleKey = (vertices: [number, number][]) => vertices.map(v => v.join(',')).sort().join('|');
+
+const edgeKey = (a: [number, number], b: [number, number]) => {
+    const [p, q] = [a.join(','), b.join(',')];
+    return p < q ? `${p}|${q}` : `${q}|${p}`;
+};
+
+// Whether `p` lies strictly inside the circle through the triangle's vertices
+const inCircumcircle = ([a, b, c]: Triangle['vertices'], [px, py]: [number, number]): boolean => {
+    const [ax, ay, bx, by, cx, cy] = [a[0] - px, a[1] - py, b[0] - px, b[1] - py, c[0] - px, c[1] - py];
+    const det = (ax * ax + ay * ay) * (bx * cy - cx * by)
+        - (bx * bx + by * by) * (ax * cy - cx * ay)
+        + (cx * cx + cy * cy) * (ax * by - bx * ay);
+    const orientation = (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+    return det * orientation > 0;
+};
+
+const inTriangle = ([a, b, c]: Triangle['vertices'], [px, py]: [number, number]): boolean => {
+    const d1 = (b[0] - a[0]) * (py - a[1]) - (b[1] - a[1]) * (px - a[0]);
+    const d2 = (c[0] - b[0]) * (py - b[1]) - (c[1] - b[1]) * (px - b[0]);
+    const d3 = (a[0] - c[0]) * (py - c[1]) - (a[1] - c[1]) * (px - c[0]);
+    return !((d1 < 0 || d2 < 0 || d3 < 0) && (d1 > 0 || d2 > 0 || d3 > 0));
+};
+
+// Replaces the cavity of an edit with the Delaunay triangles of its points.
+// Returns null when the result might differ from triangulating every point:
+// the cavity borders triangles that were left out (slivers, transparent faces),
+// or cocircular points made the small triangulation miss the cavity outline.
+const fillCavity = (
+    data: LowPolyOutput,
+    points: [number, number][],
+    imageData: RasterImage,
+    options: TriangleOptions
+): Triangle[] | null => {
+    const { width, height } = imageData;
+    const remaining = new Map<string, number>();
+    for (const p of getMeshPoints(data)) remaining.set(p.join(','), (remaining.get(p.join(',')) ?? 0) + 1);
+    const added: [number, number][] = [];
+    for (const p of points) {
+        const left = remaining.get(p.join(','));
+        if (left) remaining.set(p.join(','), left - 1);
+        else added.push(p);
+    }
+    // Dropping one of two coincident points changes nothing
+    const kept = new Set(points.map(p => p.join(',')));
+    const removed = new Set([...remaining].filter(([key, left]) => left > 0 && !kept.has(key)).map(([key]) => key));
+    if (removed.size === 0 && added.length === 0) return data.triangles;
 
-    } catch(e) {
-        reject(e);
+    const inCavity = data.triangles.map(tri =>
+        tri.vertices.some(v => removed.has(v.join(','))) || added.some(p => inCircumcircle(tri.vertices, p)));
+    const cavity = data.triangles.filter((_, i) => inCavity[i]);
+    if (cavity.length === 0) return null;
+
+    // Outline edges belong to a single cavity triangle. Each must lie on the image
+    // border or be shared with a triangle outside the cavity, which stays as it is.
+    const outline = new Map<string, [number, number][]>();
+    for (const tri of cavity) {
+        for (let e = 0; e < 3; e++) {
+            const edge = [tri.vertices[e], tri.vertices[(e + 1) % 3]];
+            const key = edgeKey(edge[0], edge[1]);
+            if (outline.has(key)) outline.delete(key);
+            else outline.set(key, edge);
+        }
+    }
+    const outsideOwner = new Map<string, number>();
+    data.triangles.forEach((tri, index) => {
+        if (inCavity[index]) return;
+        for (let e = 0; e < 3; e++) {
+            const key = edgeKey(tri.vertices[e], tri.vertices[(e + 1) % 3]);
+            if (outline.has(key)) outsideOwner.set(key, index);
+        }
+    });
+    const onBorder = (a: [number, number], b: [number, number]) =>
+        (a[0] === b[0] && (a[0] === 0 || a[0] === width)) || (a[1] === b[1] && (a[1] === 0 || a[1] === height));
+    for (const [key, [a, b]] of outline) {
+        if (!outsideOwner.has(key) && !onBorder(a, b)) return null;
+    }
+
+    const local = new Map<string, [number, number]>();
+    for (const tri of cavity) {
+        for (const v of tri.vertices) if (!removed.has(v.join(','))) local.set(v.join(','), v);
+    }
+    for (const p of added) local.set(p.join(','), p);
+    const filled = (Array.from(Delaunay.from([...local.values()]).trianglePolygons()) as unknown as [number, number][][])
+        .map(polygon => polygon.slice(0, 3) as Triangle['vertices'])
+        .filter(vertices => cavity.some(tri => inTriangle(tri.vertices, getCentroid(vertices))));
+
+    // The new triangles must tile the cavity, keep its outline and use every added point
+    const cavityArea = cavity.reduce((sum, tri) => sum + tri.area_px, 0);
+    const filledArea = filled.reduce((sum, vertices) => sum + getArea(vertices), 0);
+    const filledEdges = new Set(filled.flatMap(v => [edgeKey(v[0], v[1]), edgeKey(v[1], v[2]), edgeKey(v[2], v[0])]));
+    const filledVertices = new Set(filled.flatMap(v => v.map(p => p.join(','))));
+    if (Math.abs(filledArea - cavityArea) > 1e-9 * width * height || [...outline.keys()].some(key => !filledEdges.has(key)) ||
+        added.some(p => !filledVertices.has(p.join(',')))) {
+        return null;
+    }
+
+    let nextId = 1 + data.triangles.reduce((max, tri) => Math.max(max, tri.id), 0);
+    const sampleVertex = createVertexSampler(imageData, options.colorSpace);
+    const created: Triangle[] = [];
+    for (const vertices of filled) {
+        const triangle = colorTriangle(nextId, vertices, imageData, options, sampleVertex);
+        if (!triangle) continue;
+        created.push(triangle);
+        nextId++;
+    }
+    const untouched = data.triangles.filter((_, i) => !inCavity[i]);
+    if (!options.withNeighbors) return [...untouched, ...created];
+
+    // New triangles neighbor each other and the triangles across the outline,
+    // which in turn swap the cavity triangle they had there for the new one
+    const createdOwners = new Map<string, Triangle[]>();
+    for (const tri of created) {
+        for (let e = 0; e < 3; e++) {
+            const key = edgeKey(tri.vertices[e], tri.vertices[(e + 1) % 3]);
+            createdOwners.set(key, [...(createdOwners.get(key) ?? []), tri]);
+        }
+    }
+    const swaps = new Map<Triangle, Map<number, number | undefined>>();
+    for (const tri of cavity) {
+        for (let e = 0; e < 3; e++) {
+            const key = edgeKey(tri.vertices[e], tri.vertices[(e + 1) % 3]);
+            const owner = outsideOwner.get(key);
+            if (owner === undefined) continue;
+            const outside = data.triangles[owner];
+            const swap = swaps.get(outside) ?? new Map<number, number | undefined>();
+            swap.set(tri.id, createdOwners.get(key)?.[0].id);
+            swaps.set(outside, swap);
+        }
+    }
+    for (const tri of created) {
+        for (let e = 0; e < 3; e++) {
+            const key = edgeKey(tri.vertices[e], tri.vertices[(e + 1) % 3]);
+            const inside = createdOwners.get(key)!.find(owner => owner !== tri);
+            const outside = outsideOwner.get(key);
+            if (inside) tri.neighbors.push(inside.id);
+            else if (outside !== undefined) tri.neighbors.push(data.triangles[outside].id);
+        }
+    }
+    return [
+        ...untouched.map(tri => {
+            const swap = swaps.get(tri);
+            if (!swap) return tri;
+            const neighbors = tri.neighbors.flatMap(id => !swap.has(id) ? [id] : swap.get(id) ?? []);
+            return { ...tri, neighbors };
+        }),
+        ...created,
+    ];
+};
+
+const findPointIndices = (points: [number, number][], targets: [number, number][]): number[] => {
+    const indices = new Map<string, number>();
+    points.forEach((p, i) => {
+        const key = p.join(',');
+        if (!indices.has(key)) indices.set(key, i);
+    });
+    return targets.map(p => indices.get(p.join(','))).filter((i): i is number => i !== undefined);
+};
+
+// --- Geometry Construction ---
+
+type TriangleOptions = Pick<Settings, 'colorSpace' | 'colorEstimator' | 'shading' | 'withNeighbors' | 'mergeRegions' | 'minOpacity'>;
+
+// `reuse` maps triangleKey() to triangles of an earlier mesh whose colors are still valid
+const buildTriangles = (
+    delaunay: Delaunay<[number, number]>,
+    imageData: RasterImage,
+    settings: TriangleOptions,
+    onProgress: ProgressCallback,
+    reuse?: Map<string, Triangle>
+): Triangle[] => {
+    const { width, height } = imageData;
+    const trianglePolygons = Array.from(delaunay.trianglePolygons()) as unknown as [number, number][][];
+    const triangles: Triangle[] = [];
+    // Maps triangle ids back to their index in the Delaunay triangulation
+    const originalIndices: number[] = [];
+    const triangleIndexMap = new Map<number, number>();
+    // New triangles are numbered after the reused ones, which keep their ids
+    let currentId = 1 + Math.max(0, ...[...(reuse?.values() ?? [])].map(tri => tri.id));
+    const reportEvery = Math.max(1, Math.floor(trianglePolygons.length / 50));
+    const sampleVertex = createVertexSampler(imageData, settings.colorSpace);
+
+    for(let i = 0; i < trianglePolygons.length; i++) {
+        if (i % reportEvery === 0) {
+            onProgress({ stage: GenerationStage.COLORING, progress: i / trianglePolygons.length });
+        }
+        const vertices = trianglePolygons[i].slice(0, 3) as [[number, number], [number, number], [number, number]];
+
+        // Discard triangles with vertices outside the canvas
+        if (vertices.some(v => v[0] < 0 || v[0] > width || v[1] < 0 || v[1] > height)) {
+            continue;
+        }
+
+        const reused = reuse?.get(triangleKey(vertices));
+        if (reused) {
+            triangles.push({ ...reused, neighbors: [] });
+            originalIndices.push(i);
+            triangleIndexMap.set(i, reused.id);
+            continue;
+        }
+
+        const triangle = colorTriangle(currentId, vertices, imageData, settings, sampleVertex);
+        if (!triangle) continue;
+        triangles.push(triangle);
+        originalIndices.push(i);
+        triangleIndexMap.set(i, currentId);
+        currentId++;
+    }
+    onProgress({ stage: GenerationStage.COLORING, progress: 1 });
+
+    if(settings.withNeighbors) {
+        onProgress({ stage: GenerationStage.NEIGHBORS, progress: 0 });
+        // Triangle t owns halfedges 3t..3t+2; the opposite halfedge belongs to the
+        // triangle across that edge (-1 on the convex hull).
+        const { halfedges } = delaunay;
+        triangles.forEach((tri, index) => {
+             const t = originalIndices[index];
+             for (let e = t * 3; e < t * 3 + 3; e++) {
+                const opposite = halfedges[e];
+                if (opposite < 0) continue;
+                const neighborId = triangleIndexMap.get(Math.floor(opposite / 3));
+                if(neighborId) {
+                    tri.neighbors.push(neighborId);
+                }
+             }
+        });
+        onProgress({ stage: GenerationStage.NEIGHBORS, progress: 1 });
     }
-  });
+    return triangles;
+};
+
+// Vertices are shared between triangles, so each one is sampled once
+const createVertexSampler = (imageData: RasterImage, colorSpace: ColorSpace) => {
+    const vertexColors = new Map<string, [number, number, number]>();
+    return (vertex: [number, number]) => {
+        const key = vertex.join(',');
+        let color = vertexColors.get(key);
+        if (!color) {
+            color = getVertexColor(vertex, imageData, colorSpace);
+            vertexColors.set(key, color);
+        }
+        return color;
+    };
 };
 
-// --- Image & Canvas Utilities ---
+// A colored triangle without neighbors, or null when it is to be left out
+const colorTriangle = (
+    id: number,
+    vertices: Triangle['vertices'],
+    imageData: RasterImage,
+    settings: TriangleOptions,
+    sampleVertex: (vertex: [number, number]) => [number, number, number]
+): Triangle | null => {
+    const area = getArea(vertices);
+    // Discard tiny/degenerate triangles. Merging keeps the slivers so the
+    // regions cover the whole image; they are absorbed by a neighbor there.
+    if (area < 1.0 && !(settings.mergeRegions && area > 0)) return null;
 
-const getScaledImageData = (image: HTMLImageElement, maxSize: number) => {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) throw new Error('Could not get canvas context');
+    const sample = getAverageColor(vertices, imageData, settings.colorSpace, settings.colorEstimator);
+    if (isTooTransparent(sample.color, settings.minOpacity)) return null;
+    return {
+        id,
+        vertices,
+        centroid: getCentroid(vertices),
+        area_px: area,
+        ...toColorFields(sample),
+        ...(settings.shading === ShadingMode.GRADIENT ? {
+            vertex_colors: vertices.map(sampleVertex) as Triangle['vertex_colors'],
+        } : {}),
+        neighbors: [],
+    };
+};
 
+// One polygon per sampled point: its Voronoi region clipped to the image bounds
+const buildCells = (
+    delaunay: Delaunay<[number, number]>,
+    imageData: RasterImage,
+    settings: Settings,
+    onProgress: ProgressCallback
+): Cell[] => {
+    const { width, height } = imageData;
+    const voronoi = delaunay.voronoi([0, 0, width, height]);
+    const siteCount = delaunay.points.length / 2;
+    const cells: Cell[] = [];
+    const cellIdMap = new Map<number, number>();
+    const reportEvery = Math.max(1, Math.floor(siteCount / 50));
+
+    for (let i = 0; i < siteCount; i++) {
+        if (i % reportEvery === 0) {
+            onProgress({ stage: GenerationStage.COLORING, progress: i / siteCount });
+        }
+        // Coincident sites have no cell of their own
+        const ring = voronoi.cellPolygon(i) as [number, number][] | null;
+        if (!ring) continue;
+        const polygon = ring.slice(0, -1);
+        const area = getPolygonArea(polygon);
+        if (area < 1.0) continue;
+
+        const sample = getPolygonColor(polygon, imageData, settings.colorSpace, settings.colorEstimator);
+        if (isTooTransparent(sample.color, settings.minOpacity)) continue;
+        const id = cells.length + 1;
+        cells.push({
+            id,
+            site: [delaunay.points[i * 2], delaunay.points[i * 2 + 1]],
+            polygon,
+            centroid: getPolygonCentroid(polygon, area),
+            area_px: area,
+            ...toColorFields(sample),
+            neighbors: [],
+        });
+        cellIdMap.set(i, id);
+    }
+    onProgress({ stage: GenerationStage.COLORING, progress: 1 });
+
+    if (settings.withNeighbors) {
+        onProgress({ stage: GenerationStage.NEIGHBORS, progress: 0 });
+        // Delaunay neighbors of a site are exactly the sites of adjacent Voronoi cells
+        for (const [index, id] of cellIdMap) {
+            const cell = cells[id - 1];
+            for (const neighborIndex of delaunay.neighbors(index)) {
+                const neighborId = cellIdMap.get(neighborIndex);
+                if (neighborId) cell.neighbors.push(neighborId);
+            }
+        }
+        onProgress({ stage: GenerationStage.NEIGHBORS, progress: 1 });
+    }
+    return cells;
+};
+
+// --- Image Utilities ---
+
+// Downscales with an area-averaging (box) filter so that `maxSize` is honoured.
+// Pure JS on purpose: canvas resampling differs between browsers.
+export const scaleImageData = (image: RasterImage, maxSize: number): RasterImage => {
     let { width, height } = image;
-    if (width > maxSize || height > maxSize) {
-        if (width > height) {
-            height = Math.round(height * (maxSize / width));
-            width = maxSize;
-        } else {
-            width = Math.round(width * (maxSize / height));
-            height = maxSize;
+    if (width <= maxSize && height <= maxSize) {
+        return image;
+    }
+    if (width > height) {
+        height = Math.max(1, Math.round(height * (maxSize / width)));
+        width = maxSize;
+    } else {
+        width = Math.max(1, Math.round(width * (maxSize / height)));
+        height = maxSize;
+    }
+
+    const src = image.data;
+    const data = new Uint8ClampedArray(width * height * 4);
+    const scaleX = image.width / width;
+    const scaleY = image.height / height;
+
+    for (let y = 0; y < height; y++) {
+        const sy0 = Math.floor(y * scaleY);
+        const sy1 = Math.max(sy0 + 1, Math.floor((y + 1) * scaleY));
+        for (let x = 0; x < width; x++) {
+            const sx0 = Math.floor(x * scaleX);
+            const sx1 = Math.max(sx0 + 1, Math.floor((x + 1) * scaleX));
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let sy = sy0; sy < sy1; sy++) {
+                let index = (sy * image.width + sx0) * 4;
+                for (let sx = sx0; sx < sx1; sx++) {
+                    r += src[index];
+                    g += src[index + 1];
+                    b += src[index + 2];
+                    a += src[index + 3];
+                    index += 4;
+                }
+            }
+            const count = (sy1 - sy0) * (sx1 - sx0);
+            const out = (y * width + x) * 4;
+            data[out] = r / count;
+            data[out + 1] = g / count;
+            data[out + 2] = b / count;
+            data[out + 3] = a / count;
         }
     }
-    canvas.width = width;
-    canvas.height = height;
-    ctx.drawImage(image, 0, 0, width, height);
-    return { width, height, imageData: ctx.getImageData(0, 0, width, height) };
+    return { width, height, data };
+};
+
+// True when any pixel is less than fully opaque
+export const hasTransparency = ({ data }: RasterImage): boolean => {
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 255) return true;
+    }
+    return false;
 };
 
 // --- Point Sampling Methods ---
 
-const addBorderPoints = (points: [number, number][], width: number, height: number) => {
+// Alpha at which the outline of a cut-out is traced
+const SILHOUETTE_ALPHA = 128;
+
+// Vertices every `spacing` pixels along the contours, coarsened until there are
+// at most `maxPoints`
+const fitContours = (contours: [number, number][][], spacing: number, maxPoints: number) => {
+    let points = sampleContours(contours, spacing);
+    while (points.length > maxPoints) {
+        spacing *= 1.25;
+        points = sampleContours(contours, spacing);
+    }
+    return { points, spacing };
+};
+
+const addBorderPoints = (points: [number, number][], width: number, height: number, expectedPoints?: number) => {
     points.push([0, 0], [width, 0], [0, height], [width, height]);
-    const numBorderPoints = Math.ceil(Math.sqrt(points.length) / 2);
+    const numBorderPoints = Math.ceil(Math.sqrt(expectedPoints ?? points.length) / 2);
     for (let i = 1; i < numBorderPoints; i++) {
         points.push([i / numBorderPoints * width, 0]);
         points.push([i / numBorderPoints * width, height]);
@@ -147,7 +657,13 @@ const addBorderPoints = (points: [number, number][], width: number, height: numb
     }
 };
 
-const sampleGrid = (width: number, height: number, numPoints: number, random: () => number): [number, number][] => {
+// With a density field the grid is made denser by max/mean and thinned back to
+// about numPoints, keeping each point with probability density/max.
+const sampleGrid = (width: number, height: number, numPoints: number, random: () => number, density: DensityField | null = null): [number, number][] => {
+    if (density && density.max > density.mean) {
+        const dense = sampleGrid(width, height, Math.round(numPoints * density.max / density.mean), random);
+        return dense.filter(([x, y]) => random() * density.max < density.at(x, y));
+    }
     const points: [number, number][] = [];
     const ratio = width / height;
     const cols = Math.ceil(Math.sqrt(numPoints * ratio));
@@ -167,11 +683,20 @@ const sampleGrid = (width: number, height: number, numPoints: number, random: ()
     return points;
 };
 
-const samplePoisson = (width: number, height: number, numPoints: number, random: () => number): [number, number][] => {
-    const r = Math.sqrt((width * height) / (numPoints * Math.PI)) * 1.5;
+// A density field shrinks the disk radius where it asks for more points:
+// r scales with 1/sqrt(density / mean), so the total stays near numPoints.
+const samplePoisson = (width: number, height: number, numPoints: number, random: () => number, density: DensityField | null = null): [number, number][] => {
+    const baseRadius = Math.sqrt((width * height) / (numPoints * Math.PI)) * 1.5;
+    const radiusAt = density
+        ? (x: number, y: number) => baseRadius / Math.sqrt(density.at(x, y) / density.mean)
+        : () => baseRadius;
+    const minRadius = density ? baseRadius / Math.sqrt(density.max / density.mean) : baseRadius;
+    const maxRadius = density ? baseRadius / Math.sqrt(density.min / density.mean) : baseRadius;
     const k = 30; // Max attempts before rejection
     const grid: ([number, number] | undefined)[] = [];
-    const w = r / Math.sqrt(2);
+    const w = minRadius / Math.sqrt(2);
+    // Cells to search around a candidate; 2 for a uniform radius
+    const reach = Math.ceil(maxRadius / w);
     const cols = Math.floor(width / w);
     const rows = Math.floor(height / w);
     const points: [number, number][] = [];
@@ -188,28 +713,35 @@ const samplePoisson = (width: number, height: number, numPoints: number, random:
     while(active.length > 0) {
         const randIndex = Math.floor(random() * active.length);
         const pos = active[randIndex];
+        const r = radiusAt(pos[0], pos[1]);
         let found = false;
         for (let j = 0; j < k; j++) {
-            const a = 2 * Math.PI * random();
-            const m = r * (1 + random());
-            const px = pos[0] + m * Math.cos(a);
-            const py = pos[1] + m * Math.sin(a);
+            // Uniform point in the annulus r..2r around pos, by rejection from its
+            // bounding square; avoids Math.sin/cos, which differ between engines
+            let ox = 0, oy = 0, distanceSq = 0;
+            do {
+                ox = (random() * 4 - 2) * r;
+                oy = (random() * 4 - 2) * r;
+                distanceSq = ox * ox + oy * oy;
+            } while (distanceSq < r * r || distanceSq > 4 * r * r);
+            const px = pos[0] + ox;
+            const py = pos[1] + oy;
 
             if (px < 0 || px >= width || py < 0 || py >= height) continue;
 
             const col = Math.floor(px / w);
             const row = Math.floor(py / w);
+            const minDistance = radiusAt(px, py);
             let ok = true;
 
-            for (let dy = -2; dy <= 2 && ok; dy++) {
-                for (let dx = -2; dx <= 2 && ok; dx++) {
+            for (let dy = -reach; dy <= reach && ok; dy++) {
+                for (let dx = -reach; dx <= reach && ok; dx++) {
                     const neighborRow = row + dy;
                     const neighborCol = col + dx;
                     if (neighborRow >= 0 && neighborRow < rows && neighborCol >= 0 && neighborCol < cols) {
                         const neighbor = grid[neighborRow * cols + neighborCol];
                         if (neighbor) {
-                            const d = Math.sqrt((neighbor[0] - px)**2 + (neighbor[1] - py)**2);
-                            if (d < r) ok = false;
+                            if ((neighbor[0] - px) ** 2 + (neighbor[1] - py) ** 2 < minDistance * minDistance) ok = false;
                         }
                     }
                 }
@@ -234,17 +766,27 @@ const samplePoisson = (width: number, height: number, numPoints: number, random:
     return points;
 };
 
-const sampleEdgeAware = (width: number, height: number, numPoints: number, edgeMap: Uint8ClampedArray, edgeWeight: number, random: () => number): [number, number][] => {
+const sampleEdgeAware = (
+    width: number,
+    height: number,
+    numPoints: number,
+    edgeMap: Uint8ClampedArray,
+    edgeWeight: number,
+    random: () => number,
+    density: DensityField | null = null
+): [number, number][] => {
     const points: [number, number][] = [];
-    const len = edgeMap.length;
+    // Thinning by the density field lowers the acceptance rate, so allow more draws
+    const maxAttempts = numPoints * 10 * (density ? density.max / density.mean : 1);
     let attempts = 0;
-    while(points.length < numPoints && attempts < numPoints * 10) {
+    while(points.length < numPoints && attempts < maxAttempts) {
         const x = Math.floor(random() * width);
         const y = Math.floor(random() * height);
         const edgeValue = edgeMap[y * width + x] / 255;
         // Higher probability to accept points in high-edge areas
         // Also include a base probability to sample flat areas
-        const probability = (1 - edgeWeight) + edgeWeight * edgeValue;
+        let probability = (1 - edgeWeight) + edgeWeight * edgeValue;
+        if (density) probability *= density.at(x + 0.5, y + 0.5) / density.max;
         if (random() < probability) {
             points.push([x, y]);
         }
@@ -253,117 +795,428 @@ const sampleEdgeAware = (width: number, height: number, numPoints: number, edgeM
     return points;
 };
 
-// --- Edge Detection ---
+// Drops points closer than `radius` to any anchor, using a hash grid of anchors
+const removeNearPoints = (points: [number, number][], anchors: [number, number][], radius: number): [number, number][] => {
+    if (anchors.length === 0 || radius <= 0) return points;
+    const cells = new Map<string, [number, number][]>();
+    const cellOf = (x: number, y: number) => `${Math.floor(x / radius)},${Math.floor(y / radius)}`;
+    for (const anchor of anchors) {
+        const key = cellOf(anchor[0], anchor[1]);
+        const cell = cells.get(key);
+        if (cell) cell.push(anchor); else cells.set(key, [anchor]);
+    }
+    return points.filter(([x, y]) => {
+        const cx = Math.floor(x / radius);
+        const cy = Math.floor(y / radius);
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                for (const [ax, ay] of cells.get(`${cx + dx},${cy + dy}`) ?? []) {
+                    if ((ax - x) ** 2 + (ay - y) ** 2 < radius * radius) return false;
+                }
+            }
+        }
+        return true;
+    });
+};
 
-const createEdgeMap = (imageData: ImageData): Uint8ClampedArray => {
-    const { width, height, data } = imageData;
-    const grayscale = new Uint8ClampedArray(width * height);
-    const edgeMap = new Uint8ClampedArray(width * height);
+// Greedy refinement: start from a coarse jittered grid and keep inserting points
+// into the triangles whose colors match the image worst, until either the point
+// budget or the target mean error is reached.
+const sampleAdaptive = (
+    imageData: RasterImage,
+    numPoints: number,
+    targetError: number,
+    colorSpace: ColorSpace,
+    random: () => number,
+    onProgress: (progress: number) => void,
+    fixedPoints: [number, number][] = [],
+    clearance = 0,
+    density: DensityField | null = null
+): [number, number][] => {
+    const { width, height } = imageData;
+    const coarse = sampleGrid(width, height, Math.max(16, Math.round(numPoints / 10)), random, density);
+    const points = [...fixedPoints, ...removeNearPoints(coarse, fixedPoints, clearance)];
+    // Size the border for the final budget so refined areas near it don't turn into slivers
+    addBorderPoints(points, width, height, numPoints);
+    const budget = Math.max(numPoints, points.length);
+    const minArea = 4;
 
-    for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i+1];
-        const b = data[i+2];
-        grayscale[i / 4] = 0.299 * r + 0.587 * g + 0.114 * b;
-    }
+    // Triangles untouched by an insertion keep their point indices, so their
+    // error survives between iterations.
+    const errorCache = new Map<string, { error: number; area: number; centroid: [number, number] }>();
 
-    const sobelX = [-1, 0, 1, -2, 0, 2, -1, 0, 1];
-    const sobelY = [-1, -2, -1, 0, 0, 0, 1, 2, 1];
-    let maxGradient = 0;
+    while (points.length < budget) {
+        const delaunay = Delaunay.from(points);
+        const { triangles: indices } = delaunay;
+        const candidates: { energy: number; centroid: [number, number]; area: number }[] = [];
+        const seen = new Set<string>();
+        let errorSum = 0;
+        let areaSum = 0;
 
-    for (let y = 1; y < height - 1; y++) {
-        for (let x = 1; x < width - 1; x++) {
-            let gx = 0, gy = 0;
-            for (let ky = -1; ky <= 1; ky++) {
-                for (let kx = -1; kx <= 1; kx++) {
-                    const idx = (y + ky) * width + (x + kx);
-                    const weightX = sobelX[(ky + 1) * 3 + (kx + 1)];
-                    const weightY = sobelY[(ky + 1) * 3 + (kx + 1)];
-                    gx += grayscale[idx] * weightX;
-                    gy += grayscale[idx] * weightY;
-                }
+        for (let t = 0; t < indices.length; t += 3) {
+            const ids = [indices[t], indices[t + 1], indices[t + 2]];
+            const key = ids.slice().sort((a, b) => a - b).join(',');
+            seen.add(key);
+            let entry = errorCache.get(key);
+            if (!entry) {
+                const vertices = ids.map(id => points[id]) as [[number, number], [number, number], [number, number]];
+                const area = getArea(vertices);
+                const error = area < 1.0 ? 0 : getAverageColor(vertices, imageData, colorSpace).error;
+                entry = { error, area, centroid: getCentroid(vertices) };
+                errorCache.set(key, entry);
+            }
+            errorSum += entry.error * entry.area;
+            areaSum += entry.area;
+            if (entry.area >= minArea && entry.error > 0) {
+                // Rank by squared error times area, so large poor triangles split first;
+                // the density field scales it where more or less detail was asked for
+                const weight = density ? density.at(entry.centroid[0], entry.centroid[1]) : 1;
+                candidates.push({ energy: entry.error * entry.error * entry.area * weight, centroid: entry.centroid, area: entry.area });
             }
-            const magnitude = Math.sqrt(gx*gx + gy*gy);
-            edgeMap[y * width + x] = magnitude;
-            if (magnitude > maxGradient) maxGradient = magnitude;
         }
-    }
-    // Normalize edge map
-    if (maxGradient > 0) {
-        for (let i = 0; i < edgeMap.length; i++) {
-            edgeMap[i] = (edgeMap[i] / maxGradient) * 255;
+        for (const key of errorCache.keys()) {
+            if (!seen.has(key)) errorCache.delete(key);
+        }
+
+        onProgress(points.length / budget);
+        const meanError = areaSum > 0 ? errorSum / areaSum : 0;
+        if (meanError <= targetError || candidates.length === 0) break;
+
+        candidates.sort((a, b) => b.energy - a.energy);
+        const batch = Math.min(budget - points.length, candidates.length, Math.max(1, Math.ceil(points.length * 0.05)));
+        for (let i = 0; i < batch; i++) {
+            const { centroid, area } = candidates[i];
+            // Small jitter keeps inserted points from lining up on regular grids
+            const spread = Math.sqrt(area) * 0.15;
+            points.push([
+                Math.min(width, Math.max(0, centroid[0] + (random() - 0.5) * spread)),
+                Math.min(height, Math.max(0, centroid[1] + (random() - 0.5) * spread)),
+            ]);
         }
     }
-    return edgeMap;
+    onProgress(1);
+    return points;
 };
 
 // --- Geometry & Color Calculations ---
 
-const getCentroid = (vertices: [[number, number], [number, number], [number, number]]): [number, number] => {
+export const getCentroid = (vertices: [[number, number], [number, number], [number, number]]): [number, number] => {
     const [a, b, c] = vertices;
     return [(a[0] + b[0] + c[0]) / 3, (a[1] + b[1] + c[1]) / 3];
 };
 
-const getArea = (vertices: [[number, number], [number, number], [number, number]]): number => {
+export const getArea = (vertices: [[number, number], [number, number], [number, number]]): number => {
     const [a, b, c] = vertices;
     return Math.abs((a[0] * (b[1] - c[1]) + b[0] * (c[1] - a[1]) + c[0] * (a[1] - b[1])) / 2);
 };
 
+export const getPolygonArea = (polygon: [number, number][]): number => {
+    let sum = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const [x1, y1] = polygon[i];
+        const [x2, y2] = polygon[(i + 1) % polygon.length];
+        sum += x1 * y2 - x2 * y1;
+    }
+    return Math.abs(sum) / 2;
+};
+
+export const getPolygonCentroid = (polygon: [number, number][], area: number): [number, number] => {
+    let cx = 0, cy = 0, signed = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const [x1, y1] = polygon[i];
+        const [x2, y2] = polygon[(i + 1) % polygon.length];
+        const cross = x1 * y2 - x2 * y1;
+        signed += cross;
+        cx += (x1 + x2) * cross;
+        cy += (y1 + y2) * cross;
+    }
+    if (signed === 0 || area === 0) return polygon[0];
+    return [cx / (3 * signed), cy / (3 * signed)];
+};
+
+export interface ColorSample {
+    color: AverageColor;
+    // RMS distance in RGB between the covered pixels and `color`
+    error: number;
+    pixelCount: number;
+    // Per-channel RGB standard deviation around the mean
+    std: [number, number, number];
+    // Brightest minus darkest visible pixel, in luminance 0-255
+    luminanceRange: number;
+}
+
+const isTooTransparent = (color: AverageColor, minOpacity: number) => (color[3] ?? 255) < minOpacity * 255;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// The fields of a face that come from its color sample, in output order
+export const toColorFields = ({ color, error, pixelCount, std, luminanceRange }: ColorSample) => ({
+    avg_color: color,
+    color_error: round2(error),
+    pixel_count: pixelCount,
+    color_std: std.map(round2) as [number, number, number],
+    luminance_range: round2(luminanceRange),
+});
+
 const getAverageColor = (
     vertices: [[number, number], [number, number], [number, number]],
-    imageData: ImageData,
-    colorSpace: ColorSpace
-): [number, number, number] => {
-    const [p1, p2, p3] = vertices;
+    imageData: RasterImage,
+    colorSpace: ColorSpace,
+    estimator = ColorEstimator.MEAN
+): ColorSample => {
+    return averagePixels(vertices, getCentroid(vertices), imageData, colorSpace, estimator, createTriangleTest(vertices));
+};
+
+// Whether a pixel counts as inside the triangle: a barycentric coordinate check,
+// edges included
+export const createTriangleTest = ([p1, p2, p3]: [[number, number], [number, number], [number, number]]) => {
+    const detT = (p2[1] - p3[1]) * (p1[0] - p3[0]) + (p3[0] - p2[0]) * (p1[1] - p3[1]);
+    return (x: number, y: number) => {
+        const lambda1 = ((p2[1] - p3[1]) * (x - p3[0]) + (p3[0] - p2[0]) * (y - p3[1])) / detT;
+        const lambda2 = ((p3[1] - p1[1]) * (x - p3[0]) + (p1[0] - p3[0]) * (y - p3[1])) / detT;
+        const lambda3 = 1 - lambda1 - lambda2;
+        return lambda1 >= 0 && lambda2 >= 0 && lambda3 >= 0;
+    };
+};
+
+// Same statistics for a convex polygon such as a clipped Voronoi cell
+const getPolygonColor = (polygon: [number, number][], imageData: RasterImage, colorSpace: ColorSpace, estimator: ColorEstimator): ColorSample => {
+    // Winding sign, so the half-plane tests work for either orientation
+    const sign = Math.sign(polygon.reduce((sum, [x, y], i) => {
+        const [nx, ny] = polygon[(i + 1) % polygon.length];
+        return sum + (x * ny - nx * y);
+    }, 0)) || 1;
+    const centroid = getPolygonCentroid(polygon, getPolygonArea(polygon));
+    return averagePixels(polygon, centroid, imageData, colorSpace, estimator, (x, y) => {
+        for (let i = 0; i < polygon.length; i++) {
+            const [ax, ay] = polygon[i];
+            const [bx, by] = polygon[(i + 1) % polygon.length];
+            if (sign * ((bx - ax) * (y - ay) - (by - ay) * (x - ax)) < 0) return false;
+        }
+        return true;
+    });
+};
+
+// Side of the CIELAB cubes ColorEstimator.DOMINANT counts pixels in
+const DOMINANT_BIN_SIZE = 10;
+// Share of the weight ColorEstimator.TRIMMED_MEAN drops at each end of a channel
+const TRIM_FRACTION = 0.1;
+
+// Colors the pixels inside `shape` (tested by `contains`) within its bounding
+// box. Everything is weighted by alpha, so whatever RGB transparent pixels hold
+// doesn't leak into the face; the mean alpha is added when it is below 255.
+export const averagePixels = (
+    shape: [number, number][],
+    centroid: [number, number],
+    imageData: RasterImage,
+    colorSpace: ColorSpace,
+    estimator: ColorEstimator,
+    contains: (x: number, y: number) => boolean
+): ColorSample => {
     const { data, width, height } = imageData;
+    const xs = shape.map(p => p[0]);
+    const ys = shape.map(p => p[1]);
 
-    const minX = Math.max(0, Math.floor(Math.min(p1[0], p2[0], p3[0])));
-    const maxX = Math.min(width, Math.ceil(Math.max(p1[0], p2[0], p3[0])));
-    const minY = Math.max(0, Math.floor(Math.min(p1[1], p2[1], p3[1])));
-    const maxY = Math.min(height, Math.ceil(Math.max(p1[1], p2[1], p3[1])));
+    const minX = Math.max(0, Math.floor(Math.min(...xs)));
+    const maxX = Math.min(width, Math.ceil(Math.max(...xs)));
+    const minY = Math.max(0, Math.floor(Math.min(...ys)));
+    const maxY = Math.min(height, Math.ceil(Math.max(...ys)));
 
     let c1 = 0, c2 = 0, c3 = 0;
+    // Plain RGB sums, used for the error term whatever the averaging space
+    let sumR = 0, sumG = 0, sumB = 0, sumSq = 0;
+    let sqR = 0, sqG = 0, sqB = 0;
     let count = 0;
-
-    // Barycentric coordinate check
-    const detT = (p2[1] - p3[1]) * (p1[0] - p3[0]) + (p3[0] - p2[0]) * (p1[1] - p3[1]);
+    // Sum of the alpha weights (1 for an opaque pixel) and of alpha itself
+    let weight = 0, sumAlpha = 0;
+    let minLuminance = Infinity, maxLuminance = -Infinity;
+    // Weighted histogram per RGB channel, for the median and trimmed mean
+    const histograms = estimator === ColorEstimator.MEDIAN || estimator === ColorEstimator.TRIMMED_MEAN
+        ? [new Float64Array(256), new Float64Array(256), new Float64Array(256)]
+        : null;
+    // Weight and RGB sums per CIELAB cube, for the dominant color
+    const bins = estimator === ColorEstimator.DOMINANT ? new Map<number, number[]>() : null;
 
     for (let y = minY; y < maxY; y++) {
         for (let x = minX; x < maxX; x++) {
-            const lambda1 = ((p2[1] - p3[1]) * (x - p3[0]) + (p3[0] - p2[0]) * (y - p3[1])) / detT;
-            const lambda2 = ((p3[1] - p1[1]) * (x - p3[0]) + (p1[0] - p3[0]) * (y - p3[1])) / detT;
-            const lambda3 = 1 - lambda1 - lambda2;
-
-            if (lambda1 >= 0 && lambda2 >= 0 && lambda3 >= 0) {
+            if (contains(x, y)) {
                 const index = (y * width + x) * 4;
                 const r = data[index];
                 const g = data[index + 1];
                 const b = data[index + 2];
+                const w = data[index + 3] / 255;
+                const color = colorSpace === ColorSpace.LAB || bins ? rgbToLab([r, g, b]) : null;
                 
-                if(colorSpace === ColorSpace.LAB) {
-                    const lab = d3.lab(d3.rgb(r, g, b));
-                    c1 += lab.l;
-                    c2 += lab.a;
-                    c3 += lab.b;
+                if(color && colorSpace === ColorSpace.LAB) {
+                    c1 += color[0] * w;
+                    c2 += color[1] * w;
+                    c3 += color[2] * w;
                 } else {
-                    c1 += r;
-                    c2 += g;
-                    c3 += b;
+                    c1 += r * w;
+                    c2 += g * w;
+                    c3 += b * w;
                 }
+                sumR += r * w;
+                sumG += g * w;
+                sumB += b * w;
+                sumSq += (r * r + g * g + b * b) * w;
+                sqR += r * r * w;
+                sqG += g * g * w;
+                sqB += b * b * w;
+                weight += w;
+                sumAlpha += data[index + 3];
                 count++;
+                if (w > 0) {
+                    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+                    minLuminance = Math.min(minLuminance, luminance);
+                    maxLuminance = Math.max(maxLuminance, luminance);
+                }
+                if (histograms) {
+                    histograms[0][r] += w;
+                    histograms[1][g] += w;
+                    histograms[2][b] += w;
+                }
+                if (bins && color) {
+                    // a and b stay well within ±320
+                    const key = (Math.floor(color[0] / DOMINANT_BIN_SIZE) * 64 + Math.floor(color[1] / DOMINANT_BIN_SIZE) + 32) * 64
+                        + Math.floor(color[2] / DOMINANT_BIN_SIZE) + 32;
+                    const bin = bins.get(key);
+                    if (bin) {
+                        bin[0] += w;
+                        bin[1] += r * w;
+                        bin[2] += g * w;
+                        bin[3] += b * w;
+                    } else {
+                        bins.set(key, [w, r * w, g * w, b * w]);
+                    }
+                }
             }
         }
     }
 
+    const noSpread = { std: [0, 0, 0] as [number, number, number], luminanceRange: 0 };
     if (count === 0) {
        const centerIdx = (Math.floor((minY + maxY) / 2) * width + Math.floor((minX + maxX) / 2)) * 4;
-       return [data[centerIdx], data[centerIdx + 1], data[centerIdx + 2]];
+       return { color: withAlpha([data[centerIdx], data[centerIdx + 1], data[centerIdx + 2]], data[centerIdx + 3]), error: 0, pixelCount: 0, ...noSpread };
     }
+    // Nothing visible to take a color from
+    if (weight === 0) return { color: [0, 0, 0, 0], error: 0, pixelCount: count, ...noSpread };
 
-    if(colorSpace === ColorSpace.LAB) {
-        const avgLab = d3.lab(c1 / count, c2 / count, c3 / count).rgb();
-        return [Math.round(avgLab.r), Math.round(avgLab.g), Math.round(avgLab.b)];
-    } else {
-        return [Math.round(c1 / count), Math.round(c2 / count), Math.round(c3 / count)];
+    let color: [number, number, number];
+    switch (estimator) {
+        case ColorEstimator.MEDIAN:
+            color = histograms!.map(h => histogramMedian(h, weight)) as [number, number, number];
+            break;
+        case ColorEstimator.TRIMMED_MEAN:
+            color = histograms!.map(h => Math.round(trimmedHistogramMean(h, weight, TRIM_FRACTION))) as [number, number, number];
+            break;
+        case ColorEstimator.DOMINANT: {
+            let best = [0, 0, 0, 0];
+            for (const bin of bins!.values()) {
+                if (bin[0] > best[0]) best = bin;
+            }
+            color = [Math.round(best[1] / best[0]), Math.round(best[2] / best[0]), Math.round(best[3] / best[0])];
+            break;
+        }
+        case ColorEstimator.CENTROID:
+            color = getVertexColor(centroid, imageData, colorSpace, 0);
+            break;
+        default:
+            if(colorSpace === ColorSpace.LAB) {
+                // The mean of in-gamut colors can fall outside sRGB, so it is clamped
+                color = labToRgb([c1 / weight, c2 / weight, c3 / weight]);
+            } else {
+                color = [Math.round(c1 / weight), Math.round(c2 / weight), Math.round(c3 / weight)];
+            }
     }
-};
\ No newline at end of file
+
+    // sum w |p - c|^2 = sum w |p|^2 - 2 c . sum w p + (sum w) |c|^2
+    const [r, g, b] = color;
+    const squaredError = sumSq - 2 * (r * sumR + g * sumG + b * sumB) + weight * (r * r + g * g + b * b);
+    const deviation = (sq: number, sum: number) => Math.sqrt(Math.max(0, sq / weight - (sum / weight) ** 2));
+    return {
+        color: withAlpha(color, Math.round(sumAlpha / count)),
+        error: Math.sqrt(Math.max(0, squaredError) / weight),
+        pixelCount: count,
+        std: [deviation(sqR, sumR), deviation(sqG, sumG), deviation(sqB, sumB)],
+        luminanceRange: maxLuminance - minLuminance,
+    };
+};
+
+const withAlpha = (color: [number, number, number], alpha: number): AverageColor => alpha < 255 ? [...color, alpha] : color;
+
+// Smallest channel value with at least half of the `total` weight at or below it
+const histogramMedian = (histogram: Float64Array, total: number): number => {
+    let cumulative = 0;
+    for (let value = 0; value < 256; value++) {
+        cumulative += histogram[value];
+        if (cumulative >= total / 2) return value;
+    }
+    return 255;
+};
+
+// Mean of the channel values once `trim` of the total weight has been cut off
+// below and above; bins straddling a cut count partially
+const trimmedHistogramMean = (histogram: Float64Array, total: number, trim: number): number => {
+    const low = total * trim;
+    const high = total * (1 - trim);
+    let cumulative = 0, sum = 0, kept = 0;
+    for (let value = 0; value < 256; value++) {
+        const w = histogram[value];
+        const inside = Math.max(0, Math.min(cumulative + w, high) - Math.max(cumulative, low));
+        sum += value * inside;
+        kept += inside;
+        cumulative += w;
+    }
+    return kept > 0 ? sum / kept : 0;
+};
+
+// Averages a small window around a vertex, in the same space as triangle colors
+const getVertexColor = (
+    vertex: [number, number],
+    imageData: RasterImage,
+    colorSpace: ColorSpace,
+    radius = 2
+): [number, number, number] => {
+    const { data, width, height } = imageData;
+    const cx = Math.min(width - 1, Math.max(0, Math.round(vertex[0])));
+    const cy = Math.min(height - 1, Math.max(0, Math.round(vertex[1])));
+    let c1 = 0, c2 = 0, c3 = 0;
+    // Unweighted sums, for a window with no visible pixel
+    let p1 = 0, p2 = 0, p3 = 0;
+    let weight = 0, count = 0;
+
+    for (let y = Math.max(0, cy - radius); y <= Math.min(height - 1, cy + radius); y++) {
+        for (let x = Math.max(0, cx - radius); x <= Math.min(width - 1, cx + radius); x++) {
+            const index = (y * width + x) * 4;
+            // Weighted by alpha like face colors; a fully transparent window is averaged plainly
+            const w = data[index + 3] / 255;
+            if (colorSpace === ColorSpace.LAB) {
+                const color = rgbToLab([data[index], data[index + 1], data[index + 2]]);
+                c1 += color[0] * w;
+                c2 += color[1] * w;
+                c3 += color[2] * w;
+                p1 += color[0];
+                p2 += color[1];
+                p3 += color[2];
+            } else {
+                c1 += data[index] * w;
+                c2 += data[index + 1] * w;
+                c3 += data[index + 2] * w;
+                p1 += data[index];
+                p2 += data[index + 1];
+                p3 += data[index + 2];
+            }
+            weight += w;
+            count++;
+        }
+    }
+
+    if (weight === 0) {
+        [c1, c2, c3, weight] = [p1, p2, p3, count];
+    }
+    if (colorSpace === ColorSpace.LAB) {
+        return labToRgb([c1 / weight, c2 / weight, c3 / weight]);
+    }
+    return [Math.round(c1 / weight), Math.round(c2 / weight), Math.round(c3 / weight)];
+};
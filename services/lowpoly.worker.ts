@@ -0,0 +1,38 @@
+import { generateLowPolyData } from './lowpoly';
+import { generateSequence } from './sequence';
+import { RasterImage, Settings, LowPolyOutput, GenerationProgress } from '../types';
+
+export type WorkerRequest =
+  | { type: 'image'; image: RasterImage; sourceFileName: string; settings: Settings }
+  | { type: 'sequence'; frames: RasterImage[]; frameNames: string[]; settings: Settings };
+
+export type WorkerResponse =
+  // `frame` is set for sequences
+  | { type: 'progress'; progress: GenerationProgress; frame?: number }
+  | { type: 'result'; output: LowPolyOutput }
+  | { type: 'sequence'; outputs: LowPolyOutput[] }
+  | { type: 'error'; message: string };
+
+// The DOM lib typings describe `self` as a Window; a dedicated worker scope
+// has the same postMessage/onmessage surface as a Worker handle.
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  const post = (message: WorkerResponse) => ctx.postMessage(message);
+  try {
+    if (request.type === 'sequence') {
+      const outputs = generateSequence(request.frames, request.frameNames, request.settings, (frame, progress) => {
+        post({ type: 'progress', progress, frame });
+      });
+      post({ type: 'sequence', outputs });
+      return;
+    }
+    const output = generateLowPolyData(request.image, request.sourceFileName, request.settings, (progress) => {
+      post({ type: 'progress', progress });
+    });
+    post({ type: 'result', output });
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -0,0 +1,77 @@
+// exp, log and pow from + - * / only, which IEEE 754 rounds the same way in
+// every engine. Math.exp, Math.pow and friends only have to be close to the
+// true value, so engines differ in the last bit, and through rounding and
+// comparisons further down the pipeline a mesh can too. Relative error is
+// below 1e-14.
+
+const LN2 = 0.6931471805599453;
+// ln 2 split so that k * LN2_HIGH is exact for any exponent k (fdlibm's values)
+const LN2_HIGH = 6.93147180369123816490e-1;
+const LN2_LOW = 1.90821492927058770002e-10;
+
+// 2^k for |k| <= 540, by repeated doubling and halving, which is exact
+const MAX_EXPONENT = 540;
+const POWERS_OF_TWO = (() => {
+  const table = new Float64Array(2 * MAX_EXPONENT + 1);
+  table[MAX_EXPONENT] = 1;
+  for (let k = 1; k <= MAX_EXPONENT; k++) {
+    table[MAX_EXPONENT + k] = table[MAX_EXPONENT + k - 1] * 2;
+    table[MAX_EXPONENT - k] = table[MAX_EXPONENT - k + 1] / 2;
+  }
+  return table;
+})();
+
+export const exp = (x: number): number => {
+  if (Number.isNaN(x)) return NaN;
+  if (x > 709.8) return Infinity;
+  if (x < -745.2) return 0;
+  // x = k ln 2 + r with |r| <= ln 2 / 2, then a Taylor series for e^r. 2^k is
+  // applied in two halves, since near the ends of the range it isn't a double.
+  const k = Math.round(x / LN2);
+  const r = (x - k * LN2_HIGH) - k * LN2_LOW;
+  let term = 1;
+  let sum = 1;
+  for (let n = 1; n <= 18; n++) {
+    term *= r / n;
+    sum += term;
+  }
+  const half = k >> 1;
+  return sum * POWERS_OF_TWO[MAX_EXPONENT + half] * POWERS_OF_TWO[MAX_EXPONENT + k - half];
+};
+
+export const log = (x: number): number => {
+  if (Number.isNaN(x) || x < 0) return NaN;
+  if (x === 0) return -Infinity;
+  if (x === Infinity) return Infinity;
+  // x = m 2^e with m in [sqrt(1/2), sqrt(2)], then ln m = 2 atanh((m - 1) / (m + 1))
+  let m = x;
+  let e = 0;
+  while (m < 1) {
+    m *= 2;
+    e--;
+  }
+  while (m >= 2) {
+    m /= 2;
+    e++;
+  }
+  if (m > Math.SQRT2) {
+    m /= 2;
+    e++;
+  }
+  const s = (m - 1) / (m + 1);
+  const s2 = s * s;
+  let term = s;
+  let sum = s;
+  for (let n = 3; n <= 25; n += 2) {
+    term *= s2;
+    sum += term / n;
+  }
+  return e * LN2 + 2 * sum;
+};
+
+// For x >= 0; negative bases give NaN
+export const pow = (x: number, y: number): number => {
+  if (y === 0 || x === 1) return 1;
+  if (x === 0) return y > 0 ? 0 : Infinity;
+  return exp(y * log(x));
+};
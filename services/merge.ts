@@ -0,0 +1,227 @@
+import { LowPolyOutput, Region, GeometryKind, ColorEstimator, RasterImage } from '../types';
+import { rgbToLab, distanceSq } from './palette';
+import { getFillColor } from './export';
+import { getPolygonArea, getPolygonCentroid, averagePixels, createTriangleTest, toColorFields } from './lowpoly';
+
+type Vec = [number, number];
+
+const vertexKey = (p: Vec) => `${p[0]},${p[1]}`;
+const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// --- Region Merging ---
+
+// Greedily grows regions of edge-connected triangles whose fill colors are
+// within `tolerance` (CIE76 ΔE) of the region's running mean color. Every region
+// is kept a topological disk, so its outline is one simple polygon and the
+// regions still tile exactly the area the triangles covered. Region colors and
+// statistics are measured again over their pixels in `imageData`, the image the
+// triangles were colored from.
+export const mergeTriangles = (data: LowPolyOutput, tolerance: number, imageData: RasterImage, withNeighbors = true): LowPolyOutput => {
+    const { triangles } = data;
+    const count = triangles.length;
+    const keys = triangles.map(tri => tri.vertices.map(vertexKey));
+
+    // Same adjacency as Triangle.neighbors, derived from shared edges so merging
+    // works even when neighbors were left out of the output.
+    const edgeOwners = new Map<string, number[]>();
+    keys.forEach((k, t) => {
+        for (let e = 0; e < 3; e++) {
+            const key = edgeKey(k[e], k[(e + 1) % 3]);
+            const owners = edgeOwners.get(key);
+            if (owners) owners.push(t); else edgeOwners.set(key, [t]);
+        }
+    });
+    const across = (t: number, e: number): number => {
+        const owners = edgeOwners.get(edgeKey(keys[t][e], keys[t][(e + 1) % 3]))!;
+        return owners.length === 2 ? (owners[0] === t ? owners[1] : owners[0]) : -1;
+    };
+
+    const labs = triangles.map(tri => rgbToLab(getFillColor(data, tri)));
+    const toleranceSq = tolerance * tolerance;
+    const regionOf = new Int32Array(count).fill(-1);
+    const members: number[][] = [];
+
+    // Slivers only seed a region when no neighbor could take them
+    const seeds = [...triangles.keys()].sort((a, b) => Number(triangles[a].area_px < 1) - Number(triangles[b].area_px < 1));
+    for (const seed of seeds) {
+        if (regionOf[seed] !== -1) continue;
+        const region = members.length;
+        const list = [seed];
+        members.push(list);
+        regionOf[seed] = region;
+        const vertices = new Set(keys[seed]);
+        let weight = triangles[seed].area_px;
+        const mean: [number, number, number] = labs[seed].map(c => c * weight) as [number, number, number];
+
+        const queue: number[] = [];
+        let head = 0;
+        const enqueueNeighbors = (t: number) => {
+            for (let e = 0; e < 3; e++) {
+                const n = across(t, e);
+                if (n >= 0 && regionOf[n] === -1) queue.push(n);
+            }
+        };
+        enqueueNeighbors(seed);
+
+        while (head < queue.length) {
+            const t = queue[head++];
+            if (regionOf[t] !== -1) continue;
+            // Sub-pixel slivers have no reliable color of their own
+            const current = mean.map(c => c / weight) as [number, number, number];
+            if (triangles[t].area_px >= 1 && distanceSq(labs[t], current) > toleranceSq) continue;
+
+            // Adding a triangle keeps the region a disk when it shares exactly one
+            // edge and brings a new vertex, or shares two consecutive edges.
+            const sharedEdges = [0, 1, 2].filter(e => {
+                const n = across(t, e);
+                return n >= 0 && regionOf[n] === region;
+            });
+            if (sharedEdges.length === 1) {
+                if (vertices.has(keys[t][(sharedEdges[0] + 2) % 3])) continue;
+            } else if (sharedEdges.length !== 2) {
+                continue;
+            }
+
+            regionOf[t] = region;
+            list.push(t);
+            keys[t].forEach(k => vertices.add(k));
+            const area = triangles[t].area_px;
+            weight += area;
+            for (let c = 0; c < 3; c++) mean[c] += labs[t][c] * area;
+            // Neighbors rejected earlier may fit now that the outline has changed
+            enqueueNeighbors(t);
+        }
+    }
+
+    const outlines = members.map(list => traceOutline(list, triangles.map(tri => tri.vertices), keys));
+    simplifyOutlines(outlines);
+
+    // Each pixel goes to the region of the first triangle covering it, so pixels
+    // on a shared edge aren't counted twice
+    const { width, height } = imageData;
+    const regionAt = new Int32Array(width * height).fill(-1);
+    triangles.forEach((tri, t) => {
+        const contains = createTriangleTest(tri.vertices);
+        const xs = tri.vertices.map(v => v[0]);
+        const ys = tri.vertices.map(v => v[1]);
+        for (let y = Math.max(0, Math.floor(Math.min(...ys))); y < Math.min(height, Math.ceil(Math.max(...ys))); y++) {
+            for (let x = Math.max(0, Math.floor(Math.min(...xs))); x < Math.min(width, Math.ceil(Math.max(...xs))); x++) {
+                if (regionAt[y * width + x] === -1 && contains(x, y)) regionAt[y * width + x] = regionOf[t];
+            }
+        }
+    });
+    const colorSpace = data.params.color_space;
+    const estimator = data.params.color_estimator ?? ColorEstimator.MEAN;
+
+    const regions: Region[] = members.map((list, index) => {
+        let area = 0;
+        const paletteArea = new Map<number, number>();
+        for (const t of list) {
+            const tri = triangles[t];
+            area += tri.area_px;
+            if (tri.palette_index !== undefined) {
+                paletteArea.set(tri.palette_index, (paletteArea.get(tri.palette_index) ?? 0) + tri.area_px);
+            }
+        }
+        const neighbors = new Set<number>();
+        for (const t of withNeighbors ? list : []) {
+            for (let e = 0; e < 3; e++) {
+                const n = across(t, e);
+                if (n >= 0 && regionOf[n] !== index) neighbors.add(regionOf[n] + 1);
+            }
+        }
+        const dominant = [...paletteArea.entries()].sort((a, b) => b[1] - a[1])[0];
+        const polygon = outlines[index];
+        const centroid = getPolygonCentroid(polygon, getPolygonArea(polygon));
+        const sample = averagePixels(polygon, centroid, imageData, colorSpace, estimator, (x, y) => regionAt[y * width + x] === index);
+        return {
+            id: index + 1,
+            polygon,
+            centroid,
+            area_px: area,
+            ...toColorFields(sample),
+            triangle_count: list.length,
+            neighbors: [...neighbors].sort((a, b) => a - b),
+            ...(dominant ? { palette_index: dominant[0] } : {}),
+        };
+    });
+
+    const verticesBefore = count * 3;
+    const verticesAfter = regions.reduce((sum, region) => sum + region.polygon.length, 0);
+    return {
+        ...data,
+        geometry: GeometryKind.REGIONS,
+        triangles: [],
+        regions,
+        merge: {
+            tolerance,
+            triangles: count,
+            regions: regions.length,
+            vertices_before: verticesBefore,
+            vertices_after: verticesAfter,
+            reduction: verticesBefore > 0 ? Math.round((1 - verticesAfter / verticesBefore) * 1000) / 1000 : 0,
+        },
+    };
+};
+
+// Chains the region's boundary edges (those whose twin lies outside the region)
+// into a single ring, wound the same way as the triangles after reorienting them.
+const traceOutline = (list: number[], vertices: Vec[][], keys: string[][]): Vec[] => {
+    const interior = new Set<string>();
+    const directed: [string, string][] = [];
+    const position = new Map<string, Vec>();
+
+    for (const t of list) {
+        const [a, b, c] = vertices[t];
+        const positive = (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]) > 0;
+        const order = positive ? [0, 1, 2] : [0, 2, 1];
+        for (let i = 0; i < 3; i++) {
+            const from = keys[t][order[i]];
+            const to = keys[t][order[(i + 1) % 3]];
+            position.set(from, vertices[t][order[i]]);
+            directed.push([from, to]);
+        }
+    }
+    // An edge is interior when both of its directions appear within the region
+    const seen = new Set(directed.map(([from, to]) => `${from}>${to}`));
+    for (const [from, to] of directed) {
+        if (seen.has(`${to}>${from}`)) interior.add(edgeKey(from, to));
+    }
+    const next = new Map<string, string>();
+    for (const [from, to] of directed) {
+        if (!interior.has(edgeKey(from, to))) next.set(from, to);
+    }
+
+    const start = next.keys().next().value as string;
+    const ring: Vec[] = [];
+    let current = start;
+    do {
+        ring.push(position.get(current)!);
+        current = next.get(current)!;
+    } while (current !== start && ring.length <= next.size);
+    return ring;
+};
+
+// Drops boundary vertices that lie on a straight run in every outline using
+// them (mostly points along the image border), so no T-junctions appear.
+const simplifyOutlines = (outlines: Vec[][]) => {
+    const uses = new Map<string, number>();
+    const bends = new Set<string>();
+    for (const ring of outlines) {
+        ring.forEach((p, i) => {
+            const key = vertexKey(p);
+            uses.set(key, (uses.get(key) ?? 0) + 1);
+            const prev = ring[(i + ring.length - 1) % ring.length];
+            const next = ring[(i + 1) % ring.length];
+            const cross = (p[0] - prev[0]) * (next[1] - p[1]) - (p[1] - prev[1]) * (next[0] - p[0]);
+            if (Math.abs(cross) > 1e-9) bends.add(key);
+        });
+    }
+    outlines.forEach((ring, index) => {
+        const kept = ring.filter(p => {
+            const key = vertexKey(p);
+            return bends.has(key) || (uses.get(key) ?? 0) > 2;
+        });
+        if (kept.length >= 3) outlines[index] = kept;
+    });
+};
@@ -0,0 +1,388 @@
+import { LowPolyOutput, RasterImage } from '../types';
+import { getRenderFaces } from './export';
+import { createHeightField } from './height';
+import { rasterizeTriangles } from './raster';
+
+type RGB = [number, number, number];
+type Vec3 = [number, number, number];
+
+// Where vertex heights come from: nothing (a flat plate), the image brightness,
+// the strength of its edges or a separate grayscale depth map (white = high)
+export type HeightSource = 'flat' | 'luminance' | 'edges' | 'depth';
+
+// Flat face colors (materials) or colors blended at each vertex
+export type MeshColorMode = 'face' | 'vertex';
+
+export interface MeshOptions {
+  // Longest side of the model in output units (millimetres for most slicers, metres in glTF)
+  size: number;
+  heightSource: HeightSource;
+  // Tallest relief as a fraction of size
+  depth: number;
+  invertHeight: boolean;
+  colors: MeshColorMode;
+  // Closes the relief into a solid with walls and a flat bottom this far below
+  // z = 0, as a fraction of size. 0 exports the open surface only.
+  base: number;
+}
+
+export const DEFAULT_MESH_OPTIONS: MeshOptions = {
+  size: 100,
+  heightSource: 'luminance',
+  depth: 0.08,
+  invertHeight: false,
+  colors: 'face',
+  base: 0.02,
+};
+
+export interface MeshFace {
+  indices: [number, number, number];
+  color: RGB;
+}
+
+// Indexed triangle mesh, X right and Y up with the image's bottom-left corner at
+// the origin, Z the height. Faces wind counter-clockwise seen from outside.
+export interface Mesh {
+  positions: Vec3[];
+  // Position in the source image, 0..1 with v pointing down
+  uvs: [number, number][];
+  vertexColors: RGB[];
+  faces: MeshFace[];
+}
+
+// --- Triangulation ---
+
+const cross = (o: [number, number], a: [number, number], b: [number, number]) =>
+  (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+const insideTriangle = (p: [number, number], a: [number, number], b: [number, number], c: [number, number]) =>
+  cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+
+// Ear clipping for simple polygons wound clockwise on screen (positive area in
+// image coordinates). Merged regions can be concave, so a fan is not enough.
+const triangulatePolygon = (points: [number, number][]): [number, number, number][] => {
+  if (points.length === 3) return [[0, 1, 2]];
+  const remaining = points.map((_, i) => i);
+  const triangles: [number, number, number][] = [];
+  while (remaining.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < remaining.length; i++) {
+      const prev = remaining[(i + remaining.length - 1) % remaining.length];
+      const current = remaining[i];
+      const next = remaining[(i + 1) % remaining.length];
+      const [a, b, c] = [points[prev], points[current], points[next]];
+      if (cross(a, b, c) <= 0) continue;
+      const blocked = remaining.some(j =>
+        j !== prev && j !== current && j !== next && insideTriangle(points[j], a, b, c) &&
+        // Vertices repeated at the same position (touching outlines) don't block
+        !(points[j][0] === b[0] && points[j][1] === b[1]));
+      if (blocked) continue;
+      triangles.push([prev, current, next]);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+    // Only collinear or degenerate vertices left: drop one rather than loop forever
+    if (!clipped) remaining.splice(0, 1);
+  }
+  if (cross(points[remaining[0]], points[remaining[1]], points[remaining[2]]) > 0) {
+    triangles.push([remaining[0], remaining[1], remaining[2]]);
+  }
+  return triangles;
+};
+
+const signedArea = (points: [number, number][]) => {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    sum += x1 * y2 - x2 * y1;
+  }
+  return sum / 2;
+};
+
+// --- Mesh Construction ---
+
+// `heightImage` is the source image at any resolution for luminance and edges,
+// or the depth map for 'depth'. Without one, luminance and edges fall back to
+// the low-poly rendering itself.
+export const buildMesh = (data: LowPolyOutput, options: MeshOptions, heightImage: RasterImage | null = null): Mesh => {
+  const { width, height } = data.image;
+  const longest = Math.max(width, height);
+  const scale = options.size / longest;
+
+  let heightAt: (u: number, v: number) => number = () => 0;
+  if (options.heightSource !== 'flat') {
+    if (options.heightSource === 'depth' && !heightImage) throw new Error('A depth map is needed for depth-based heights');
+    const field = createHeightField(options.heightSource === 'edges' ? 'edges' : 'luminance', heightImage ?? rasterizeTriangles(data));
+    heightAt = (u, v) => {
+      const h = field(u, v);
+      return (options.invertHeight ? 1 - h : h) * options.depth * options.size;
+    };
+  }
+
+  const positions: Vec3[] = [];
+  const uvs: [number, number][] = [];
+  const colorSums: [number, number, number, number][] = [];
+  const indexByKey = new Map<string, number>();
+  const vertexIndex = ([x, y]: [number, number]) => {
+    const key = `${x},${y}`;
+    let index = indexByKey.get(key);
+    if (index === undefined) {
+      index = positions.length;
+      indexByKey.set(key, index);
+      const u = x / width;
+      const v = y / height;
+      positions.push([x * scale, (height - y) * scale, heightAt(u, v)]);
+      uvs.push([u, v]);
+      colorSums.push([0, 0, 0, 0]);
+    }
+    return index;
+  };
+
+  const faces: MeshFace[] = [];
+  for (const face of getRenderFaces(data)) {
+    // Triangulate with positive area in image coordinates, then reverse each
+    // triangle: flipping Y turns it counter-clockwise seen from +Z
+    const points = signedArea(face.points) < 0 ? [...face.points].reverse() : face.points;
+    const colors = face.vertexColors && (points === face.points ? face.vertexColors : [...face.vertexColors].reverse());
+    const indices = points.map(vertexIndex);
+    for (const [a, b, c] of triangulatePolygon(points)) {
+      faces.push({ indices: [indices[a], indices[c], indices[b]], color: face.color });
+    }
+    // Vertex colors: the gradient's own colors where there are any, otherwise the
+    // face colors around the vertex weighted by face area
+    const weight = Math.abs(signedArea(points));
+    indices.forEach((index, k) => {
+      const color = colors ? colors[k] : face.color;
+      const sum = colorSums[index];
+      for (let c = 0; c < 3; c++) sum[c] += color[c] * weight;
+      sum[3] += weight;
+    });
+  }
+  const vertexColors = colorSums.map(([r, g, b, w]): RGB =>
+    w > 0 ? [Math.round(r / w), Math.round(g / w), Math.round(b / w)] : [128, 128, 128]);
+
+  const mesh = { positions, uvs, vertexColors, faces };
+  return options.base > 0 ? closeMesh(mesh, -options.base * options.size) : mesh;
+};
+
+const faceNormal = (a: Vec3, b: Vec3, c: Vec3): Vec3 => {
+  const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  const n: Vec3 = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+  const length = Math.hypot(n[0], n[1], n[2]) || 1;
+  return [n[0] / length, n[1] / length, n[2] / length];
+};
+
+// Turns the relief into a watertight solid: a mirrored copy of the surface at
+// z = bottom, facing down, joined to it by walls along every open edge. Mirroring
+// the top works for any outline, including holes.
+const closeMesh = (mesh: Mesh, bottom: number): Mesh => {
+  const count = mesh.positions.length;
+  const positions = [...mesh.positions, ...mesh.positions.map(([x, y]): Vec3 => [x, y, bottom])];
+  const faces: MeshFace[] = [
+    ...mesh.faces,
+    ...mesh.faces.map(({ indices: [a, b, c], color }): MeshFace => ({ indices: [a + count, c + count, b + count], color })),
+  ];
+
+  // Directed edges without a twin lie on the outline; the face they belong to is
+  // on their left, so the wall keeps the same direction to face outwards
+  const edges = new Map<string, MeshFace>();
+  for (const face of mesh.faces) {
+    const [a, b, c] = face.indices;
+    for (const [from, to] of [[a, b], [b, c], [c, a]]) edges.set(`${from},${to}`, face);
+  }
+  for (const [key, face] of edges) {
+    const [from, to] = key.split(',').map(Number);
+    if (edges.has(`${to},${from}`)) continue;
+    faces.push(
+      { indices: [from, from + count, to + count], color: face.color },
+      { indices: [from, to + count, to], color: face.color },
+    );
+  }
+
+  return {
+    positions,
+    uvs: [...mesh.uvs, ...mesh.uvs],
+    vertexColors: [...mesh.vertexColors, ...mesh.vertexColors],
+    faces,
+  };
+};
+
+// --- Wavefront OBJ ---
+
+const format = (value: number) => String(Math.round(value * 1e5) / 1e5);
+
+const colorName = (color: RGB) => `color_${color.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+
+// OBJ with a companion MTL. Face colors become one material per distinct color;
+// vertex colors use the common "v x y z r g b" extension with a single white material.
+export const toOBJ = (mesh: Mesh, colors: MeshColorMode, mtlFileName = 'model.mtl'): { obj: string; mtl: string } => {
+  const lines = ['# Low-poly mesh', `mtllib ${mtlFileName}`];
+  mesh.positions.forEach((p, i) => {
+    const color = colors === 'vertex' ? ' ' + mesh.vertexColors[i].map(c => format(c / 255)).join(' ') : '';
+    lines.push(`v ${p.map(format).join(' ')}${color}`);
+  });
+  // OBJ texture coordinates start at the bottom of the image
+  mesh.uvs.forEach(([u, v]) => lines.push(`vt ${format(u)} ${format(1 - v)}`));
+
+  const groups = new Map<string, { color: RGB; faces: MeshFace[] }>();
+  for (const face of mesh.faces) {
+    const name = colors === 'vertex' ? 'vertex_colors' : colorName(face.color);
+    if (!groups.has(name)) groups.set(name, { color: colors === 'vertex' ? [255, 255, 255] : face.color, faces: [] });
+    groups.get(name)!.faces.push(face);
+  }
+  const materials: string[] = [];
+  for (const [name, group] of groups) {
+    lines.push(`usemtl ${name}`);
+    for (const { indices } of group.faces) {
+      lines.push(`f ${indices.map(i => `${i + 1}/${i + 1}`).join(' ')}`);
+    }
+    materials.push(`newmtl ${name}`, `Kd ${group.color.map(c => format(c / 255)).join(' ')}`, 'Ka 0 0 0', 'Ks 0 0 0', 'd 1', 'illum 1', '');
+  }
+  return { obj: lines.join('\n') + '\n', mtl: materials.join('\n') };
+};
+
+// --- STL ---
+
+// Binary STL. Face colors go in the attribute bytes using the VisCAM/SolidView
+// convention (5 bits per channel, bit 15 set), which other readers ignore.
+export const toSTL = (mesh: Mesh, colors: MeshColorMode): Uint8Array => {
+  const buffer = new ArrayBuffer(84 + mesh.faces.length * 50);
+  const view = new DataView(buffer);
+  const header = new TextEncoder().encode('Low-poly mesh, VisCAM face colors');
+  new Uint8Array(buffer).set(header.subarray(0, 80));
+  view.setUint32(80, mesh.faces.length, true);
+
+  let offset = 84;
+  for (const face of mesh.faces) {
+    const corners = face.indices.map(i => mesh.positions[i]);
+    for (const value of [...faceNormal(corners[0], corners[1], corners[2]), ...corners.flat()]) {
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    }
+    const color = colors === 'vertex'
+      ? [0, 1, 2].map(c => face.indices.reduce((sum, i) => sum + mesh.vertexColors[i][c], 0) / 3)
+      : face.color;
+    const [r, g, b] = color.map(c => Math.round(c / 255 * 31));
+    view.setUint16(offset, 0x8000 | (r << 10) | (g << 5) | b, true);
+    offset += 2;
+  }
+  return new Uint8Array(buffer);
+};
+
+// --- glTF 2.0 (binary) ---
+
+// glTF colors are linear, images and our face colors sRGB
+export const toLinear = (c: number) => {
+  const s = c / 255;
+  return s <= 0.04045 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+};
+
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+
+// A single mesh whose primitives share one vertex buffer. Face colors become one
+// primitive and material per distinct color; vertex colors are stored as COLOR_0
+// on a single white material. No normals are written, so viewers shade flat,
+// which is the low-poly look. Texture coordinates refer to the source image.
+export const toGLB = (mesh: Mesh, colors: MeshColorMode): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  let byteLength = 0;
+  const bufferViews: object[] = [];
+  const accessors: object[] = [];
+  // Appends data as a new buffer view (4-byte aligned) with one accessor over it
+  const addAccessor = (data: Float32Array | Uint32Array, type: string, target: number, extra: object = {}) => {
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: bytes.length, target });
+    chunks.push(bytes);
+    byteLength += bytes.length;
+    const components = type === 'VEC3' ? 3 : type === 'VEC2' ? 2 : 1;
+    accessors.push({
+      bufferView: bufferViews.length - 1,
+      componentType: data instanceof Float32Array ? FLOAT : UNSIGNED_INT,
+      count: data.length / components,
+      type,
+      ...extra,
+    });
+    return accessors.length - 1;
+  };
+
+  // Float32 rounded, since the bounds must match the stored values
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const p of mesh.positions) {
+    for (let c = 0; c < 3; c++) {
+      min[c] = Math.min(min[c], Math.fround(p[c]));
+      max[c] = Math.max(max[c], Math.fround(p[c]));
+    }
+  }
+  const attributes: Record<string, number> = {
+    POSITION: addAccessor(Float32Array.from(mesh.positions.flat()), 'VEC3', ARRAY_BUFFER, { min, max }),
+    TEXCOORD_0: addAccessor(Float32Array.from(mesh.uvs.flat()), 'VEC2', ARRAY_BUFFER),
+  };
+  if (colors === 'vertex') {
+    attributes.COLOR_0 = addAccessor(Float32Array.from(mesh.vertexColors.flat().map(toLinear)), 'VEC3', ARRAY_BUFFER);
+  }
+
+  const groups = new Map<string, { color: RGB; indices: number[] }>();
+  for (const face of mesh.faces) {
+    const key = colors === 'vertex' ? 'white' : face.color.join(',');
+    if (!groups.has(key)) groups.set(key, { color: colors === 'vertex' ? [255, 255, 255] : face.color, indices: [] });
+    groups.get(key)!.indices.push(...face.indices);
+  }
+  const materials: object[] = [];
+  const primitives: object[] = [];
+  for (const group of groups.values()) {
+    materials.push({
+      pbrMetallicRoughness: {
+        baseColorFactor: [...group.color.map(toLinear), 1],
+        metallicFactor: 0,
+        roughnessFactor: 1,
+      },
+    });
+    primitives.push({
+      attributes,
+      indices: addAccessor(Uint32Array.from(group.indices), 'SCALAR', ELEMENT_ARRAY_BUFFER),
+      material: materials.length - 1,
+    });
+  }
+
+  const json = {
+    asset: { version: '2.0', generator: 'PolyArt low-poly generator' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0 }],
+    meshes: [{ primitives }],
+    materials,
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength }],
+  };
+
+  // Chunks are padded to 4 bytes: JSON with spaces, binary with zeros
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const jsonLength = Math.ceil(jsonBytes.length / 4) * 4;
+  const binLength = Math.ceil(byteLength / 4) * 4;
+  const glb = new Uint8Array(12 + 8 + jsonLength + 8 + binLength);
+  const view = new DataView(glb.buffer);
+  view.setUint32(0, 0x46546c67, true); // 'glTF'
+  view.setUint32(4, 2, true);
+  view.setUint32(8, glb.length, true);
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, 0x4e4f534a, true); // 'JSON'
+  glb.fill(0x20, 20, 20 + jsonLength);
+  glb.set(jsonBytes, 20);
+  const binStart = 20 + jsonLength;
+  view.setUint32(binStart, binLength, true);
+  view.setUint32(binStart + 4, 0x004e4942, true); // 'BIN\0'
+  let offset = binStart + 8;
+  for (const chunk of chunks) {
+    glb.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return glb;
+};
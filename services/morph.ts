@@ -0,0 +1,270 @@
+import { Delaunay } from 'd3-delaunay';
+import { encode as encodePng } from 'fast-png';
+import { LowPolyOutput, StrokeMode } from '../types';
+import { getRenderFaces, RenderFace, RenderStyle, DEFAULT_RENDER_STYLE, toRGB, styleFaces, getStyledPoints, getFaceStroke, toStrokeAttributes } from './export';
+import { rgbToLab, labToRgb } from './palette';
+import { rasterizeFaces } from './raster';
+import { withOutlineFaces } from './render';
+import { createZip } from './zip';
+
+type Point = [number, number];
+type Lab = [number, number, number];
+
+export type MorphEasing = 'linear' | 'ease-in-out';
+
+export interface MorphOptions {
+  // Seconds for one pass from start to end
+  duration: number;
+  fps: number;
+  easing: MorphEasing;
+  // Play back to the start after reaching the end, so loops don't jump
+  pingPong: boolean;
+  loop: boolean;
+}
+
+export const DEFAULT_MORPH_OPTIONS: MorphOptions = {
+  duration: 2,
+  fps: 24,
+  easing: 'ease-in-out',
+  pingPong: true,
+  loop: true,
+};
+
+// One polygon that turns into another. Both outlines have the same number of
+// vertices, paired by index.
+interface MorphFace {
+  from: Point[];
+  to: Point[];
+  fromColor: Lab;
+  toColor: Lab;
+}
+
+export interface Morph {
+  width: number;
+  height: number;
+  faces: MorphFace[];
+}
+
+// --- Correspondence ---
+
+const signedArea = (points: Point[]) => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [ax, ay] = points[i];
+    const [bx, by] = points[(i + 1) % points.length];
+    area += ax * by - bx * ay;
+  }
+  return area / 2;
+};
+
+// Repeats vertices, spread evenly around the outline, until there are `count`
+const resample = (points: Point[], count: number): Point[] =>
+  points.length === count ? points : Array.from({ length: count }, (_, j) => points[Math.floor((j * points.length) / count)]);
+
+// Gives both outlines the same vertex count and winding, then rotates the end
+// outline so each vertex travels the shortest total distance
+const alignOutlines = (from: Point[], to: Point[]): [Point[], Point[]] => {
+  const count = Math.max(from.length, to.length);
+  const a = resample(from, count);
+  let b = resample(to, count);
+  if (Math.sign(signedArea(a)) !== Math.sign(signedArea(b))) b = [...b].reverse();
+
+  let bestOffset = 0;
+  let bestCost = Infinity;
+  for (let offset = 0; offset < count; offset++) {
+    let cost = 0;
+    for (let i = 0; i < count && cost < bestCost; i++) {
+      const p = a[i];
+      const q = b[(i + offset) % count];
+      cost += (p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2;
+    }
+    if (cost < bestCost) {
+      bestCost = cost;
+      bestOffset = offset;
+    }
+  }
+  return [a, b.map((_, i) => b[(i + bestOffset) % count])];
+};
+
+const nearestFinder = (faces: RenderFace[]) => {
+  const delaunay = Delaunay.from(faces, face => face.centroid[0], face => face.centroid[1]);
+  let hint = 0;
+  return (point: Point) => (hint = faces.length === 1 ? 0 : delaunay.find(point[0], point[1], hint));
+};
+
+// Pairs every face of the start mesh with the end face nearest to its centroid,
+// then every end face nobody picked with its nearest start face. Faces that share
+// a partner split or fuse during the animation, so the first and last frames are
+// exactly the two meshes whatever their face counts. The end mesh is stretched
+// onto the start's frame, and gradient shading is flattened to face colors.
+export const buildMorph = (start: LowPolyOutput, end: LowPolyOutput): Morph => {
+  const { width, height } = start.image;
+  const scaleX = width / end.image.width;
+  const scaleY = height / end.image.height;
+  const startFaces = getRenderFaces(start);
+  const endFaces = getRenderFaces(end).map(face => ({
+    ...face,
+    points: face.points.map(([x, y]): Point => [x * scaleX, y * scaleY]),
+    centroid: [face.centroid[0] * scaleX, face.centroid[1] * scaleY] as Point,
+  }));
+  if (startFaces.length === 0 || endFaces.length === 0) {
+    throw new Error('Both outputs need at least one face to morph between');
+  }
+
+  const nearestEnd = nearestFinder(endFaces);
+  const nearestStart = nearestFinder(startFaces);
+  const pairs: [RenderFace, RenderFace][] = [];
+  const picked = new Set<number>();
+  for (const face of startFaces) {
+    const index = nearestEnd(face.centroid);
+    picked.add(index);
+    pairs.push([face, endFaces[index]]);
+  }
+  endFaces.forEach((face, index) => {
+    if (!picked.has(index)) pairs.push([startFaces[nearestStart(face.centroid)], face]);
+  });
+
+  const labCache = new Map<string, Lab>();
+  const toLab = (color: [number, number, number]) => {
+    const key = color.join(',');
+    if (!labCache.has(key)) labCache.set(key, rgbToLab(color));
+    return labCache.get(key)!;
+  };
+
+  return {
+    width,
+    height,
+    faces: pairs.map(([a, b]) => {
+      const [from, to] = alignOutlines(a.points, b.points);
+      return { from, to, fromColor: toLab(a.color), toColor: toLab(b.color) };
+    }),
+  };
+};
+
+// --- Timing ---
+
+// CSS cubic-bezier(x1, y1, x2, y2), solved for y at x by bisection
+const cubicBezier = (x1: number, y1: number, x2: number, y2: number) => {
+  const curve = (s: number, p1: number, p2: number) => 3 * (1 - s) * (1 - s) * s * p1 + 3 * (1 - s) * s * s * p2 + s * s * s;
+  return (x: number) => {
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 30; i++) {
+      const mid = (low + high) / 2;
+      if (curve(mid, x1, x2) < x) low = mid;
+      else high = mid;
+    }
+    return curve((low + high) / 2, y1, y2);
+  };
+};
+
+// Same control points as the SVG keySplines, so frames match the animated SVG
+const EASE_IN_OUT_SPLINE = '0.42 0 0.58 1';
+const easeInOut = cubicBezier(0.42, 0, 0.58, 1);
+
+export const easeMorph = (easing: MorphEasing, t: number) => (easing === 'linear' ? t : easeInOut(t));
+
+// Morph progress (0 = start, 1 = end) at a time in seconds
+export const getMorphProgress = (options: MorphOptions, time: number) => {
+  const period = options.pingPong ? 2 * options.duration : options.duration;
+  const local = options.loop ? ((time % period) + period) % period : Math.min(time, period);
+  const raw = Math.min(1, local / options.duration);
+  return easeMorph(options.easing, options.pingPong && local > options.duration ? 2 - local / options.duration : raw);
+};
+
+// Progress of each exported frame. A ping-pong sequence stops one frame short of
+// the start, so playing it on repeat doesn't show the first frame twice.
+export const getMorphFrameProgress = (options: MorphOptions): number[] => {
+  const steps = Math.max(1, Math.round(options.duration * options.fps));
+  const forward = Array.from({ length: steps + 1 }, (_, i) => easeMorph(options.easing, i / steps));
+  return options.pingPong ? [...forward, ...forward.slice(1, -1).reverse()] : forward;
+};
+
+// --- Rendering ---
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerpOutline = (from: Point[], to: Point[], t: number): Point[] =>
+  from.map((p, i) => [lerp(p[0], to[i][0], t), lerp(p[1], to[i][1], t)]);
+
+// Colors travel through CIELAB, which avoids the gray midpoints of RGB blends
+const lerpColor = (from: Lab, to: Lab, t: number) =>
+  labToRgb([lerp(from[0], to[0], t), lerp(from[1], to[1], t), lerp(from[2], to[2], t)]);
+
+export const getMorphFaces = (morph: Morph, progress: number): RenderFace[] =>
+  morph.faces.map((face, id) => {
+    const points = lerpOutline(face.from, face.to, progress);
+    const centroid = points.reduce<Point>((sum, p) => [sum[0] + p[0] / points.length, sum[1] + p[1] / points.length], [0, 0]);
+    return { id, points, centroid, color: lerpColor(face.fromColor, face.toColor, progress) };
+  });
+
+const formatOutline = (points: Point[]) =>
+  points.map(([x, y]) => `${Math.round(x * 100) / 100},${Math.round(y * 100) / 100}`).join(' ');
+
+// Color keyframes per pass: SMIL can only blend colors in sRGB, so the CIELAB
+// path is approximated by a few linear segments
+const COLOR_STEPS = 4;
+
+// SMIL animated SVG. Outlines move along straight lines, eased with keySplines;
+// the static attributes hold the first frame for viewers without SMIL support.
+export const toAnimatedSVGString = (morph: Morph, options: MorphOptions, style: RenderStyle = DEFAULT_RENDER_STYLE): string => {
+  const { width, height } = morph;
+  const duration = options.pingPong ? 2 * options.duration : options.duration;
+  const timing = `dur='${duration}s' repeatCount='${options.loop ? 'indefinite' : '1'}' fill='freeze'`;
+  const spline = options.easing === 'linear'
+    ? ''
+    : ` calcMode='spline' keySplines='${options.pingPong ? `${EASE_IN_OUT_SPLINE};${EASE_IN_OUT_SPLINE}` : EASE_IN_OUT_SPLINE}'`;
+  const pointTimes = options.pingPong ? '0;0.5;1' : '0;1';
+
+  const colorSteps = Array.from({ length: COLOR_STEPS + 1 }, (_, i) => i / COLOR_STEPS);
+  const colorProgress = colorSteps.map(t => easeMorph(options.easing, t));
+  const colorTimes = options.pingPong
+    ? [...colorSteps.map(t => t / 2), ...colorSteps.slice(1).map(t => 0.5 + t / 2)]
+    : colorSteps;
+  const colorPath = options.pingPong ? [...colorProgress, ...colorProgress.slice(0, -1).reverse()] : colorProgress;
+
+  let svg = `<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 ${width} ${height}'>`;
+  svg += '<g>';
+  morph.faces.forEach(face => {
+    const from = formatOutline(getStyledPoints(face.from, style));
+    const to = formatOutline(getStyledPoints(face.to, style));
+    const outlines = options.pingPong ? `${from};${to};${from}` : `${from};${to}`;
+    const startColor = lerpColor(face.fromColor, face.toColor, 0);
+    const colors = colorPath.map(t => toRGB(lerpColor(face.fromColor, face.toColor, t))).join(';');
+    const stroke = getFaceStroke(style, startColor);
+    svg += `<polygon points='${from}' fill='${toRGB(startColor)}'${toStrokeAttributes(stroke)}>`;
+    svg += `<animate attributeName='points' values='${outlines}' keyTimes='${pointTimes}'${spline} ${timing} />`;
+    svg += `<animate attributeName='fill' values='${colors}' keyTimes='${colorTimes.join(';')}' ${timing} />`;
+    // Seam strokes follow the fill
+    if (stroke && style.strokeMode === StrokeMode.MATCH) {
+      svg += `<animate attributeName='stroke' values='${colors}' keyTimes='${colorTimes.join(';')}' ${timing} />`;
+    }
+    svg += '</polygon>';
+  });
+  svg += '</g></svg>';
+  return svg;
+};
+
+// Numbered PNG frames (frame_0001.png, ...) in a ZIP archive. Frames are drawn
+// in `style` without antialiasing, and pixels between faces that are splitting
+// apart stay transparent.
+export const toMorphFramesZip = (
+  morph: Morph,
+  options: MorphOptions,
+  style: RenderStyle = DEFAULT_RENDER_STYLE,
+  onProgress?: (progress: number) => void
+): Uint8Array => {
+  const frames = getMorphFrameProgress(options);
+  const digits = Math.max(4, String(frames.length).length);
+  const entries = frames.map((progress, i) => {
+    const faces = styleFaces(getMorphFaces(morph, progress), style);
+    const raster = rasterizeFaces(withOutlineFaces(faces, style), morph.width, morph.height);
+    onProgress?.((i + 1) / frames.length);
+    const data = new Uint8Array(raster.data.buffer, raster.data.byteOffset, raster.data.length);
+    return {
+      name: `frame_${String(i + 1).padStart(digits, '0')}.png`,
+      data: encodePng({ width: raster.width, height: raster.height, data, channels: 4, depth: 8 }),
+    };
+  });
+  return createZip(entries);
+};
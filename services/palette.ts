@@ -0,0 +1,174 @@
+import { LowPolyOutput, AverageColor } from '../types';
+import { pow } from './math';
+
+type RGB = [number, number, number];
+type Lab = [number, number, number];
+
+// --- Color Helpers ---
+
+export const hexToRgb = (hex: string): RGB | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  let digits = match[1];
+  if (digits.length === 3) digits = digits.split('').map(d => d + d).join('');
+  const value = parseInt(digits, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const rgbToHex = (color: RGB): string =>
+  '#' + color.map(c => Math.min(255, Math.max(0, Math.round(c))).toString(16).padStart(2, '0')).join('');
+
+// --- CIELAB ---
+
+// sRGB to CIELAB with a D50 white point, the same constants as d3-color, but
+// with the portable pow so every engine gets the same colors
+const WHITE_X = 0.96422;
+const WHITE_Z = 0.82521;
+const T0 = 4 / 29;
+const T1 = 6 / 29;
+const T2 = 3 * T1 * T1;
+const T3 = T1 * T1 * T1;
+
+const toLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : pow((v + 0.055) / 1.055, 2.4);
+};
+// Pixel channels are whole numbers, so most conversions are a lookup
+const LINEAR = Float64Array.from({ length: 256 }, (_, c) => toLinear(c));
+const linearize = (c: number) => (Number.isInteger(c) && c >= 0 && c <= 255 ? LINEAR[c] : toLinear(c));
+
+const fromLinear = (v: number) => 255 * (v <= 0.0031308 ? 12.92 * v : 1.055 * pow(v, 1 / 2.4) - 0.055);
+
+const xyzToLab = (t: number) => (t > T3 ? pow(t, 1 / 3) : t / T2 + T0);
+const labToXyz = (t: number) => (t > T1 ? t * t * t : T2 * (t - T0));
+
+// Alpha, when the color has one, is ignored
+export const rgbToLab = (color: AverageColor): Lab => {
+  const r = linearize(color[0]);
+  const g = linearize(color[1]);
+  const b = linearize(color[2]);
+  const y = xyzToLab(0.2225045 * r + 0.7168786 * g + 0.0606169 * b);
+  // Grays have a and b of exactly 0
+  const x = r === g && g === b ? y : xyzToLab((0.4360747 * r + 0.3850649 * g + 0.1430804 * b) / WHITE_X);
+  const z = r === g && g === b ? y : xyzToLab((0.0139322 * r + 0.0971045 * g + 0.7141733 * b) / WHITE_Z);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+};
+
+export const labToRgb = (color: Lab): RGB => {
+  const fy = (color[0] + 16) / 116;
+  const x = WHITE_X * labToXyz(fy + color[1] / 500);
+  const y = labToXyz(fy);
+  const z = WHITE_Z * labToXyz(fy - color[2] / 200);
+  return [
+    fromLinear(3.1338561 * x - 1.6168667 * y - 0.4906146 * z),
+    fromLinear(-0.9787684 * x + 1.9161415 * y + 0.0334540 * z),
+    fromLinear(0.0719453 * x - 0.2289914 * y + 1.4052427 * z),
+  ].map(c => Math.min(255, Math.max(0, Math.round(c)))) as RGB;
+};
+
+export const distanceSq = (a: Lab, b: Lab) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+const nearestIndex = (color: Lab, palette: Lab[]): number => {
+  let best = 0;
+  let bestDistance = Infinity;
+  palette.forEach((entry, i) => {
+    const distance = distanceSq(color, entry);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  });
+  return best;
+};
+
+export const nearestPaletteIndex = (color: AverageColor, palette: RGB[]): number =>
+  nearestIndex(rgbToLab(color), palette.map(rgbToLab));
+
+// --- Quantization ---
+
+// Weighted k-means in CIELAB with k-means++ seeding. Weights are triangle areas,
+// so the palette follows how much of the image each color covers.
+export const kmeansPalette = (colors: AverageColor[], weights: number[], k: number, random: () => number, maxIterations = 30): RGB[] => {
+  const points = colors.map(rgbToLab);
+  if (points.length === 0) return [];
+  const count = Math.max(1, Math.min(Math.round(k), points.length));
+
+  const centers: Lab[] = [points[Math.floor(random() * points.length)]];
+  const nearest = points.map(p => distanceSq(p, centers[0]));
+  while (centers.length < count) {
+    let total = 0;
+    nearest.forEach((d, i) => total += d * weights[i]);
+    let target = random() * total;
+    let chosen = points.length - 1;
+    for (let i = 0; i < points.length; i++) {
+      target -= nearest[i] * weights[i];
+      if (target <= 0) {
+        chosen = i;
+        break;
+      }
+    }
+    const center = points[chosen];
+    centers.push(center);
+    points.forEach((p, i) => nearest[i] = Math.min(nearest[i], distanceSq(p, center)));
+  }
+
+  const assignment = new Int32Array(points.length).fill(-1);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+    points.forEach((p, i) => {
+      const index = nearestIndex(p, centers);
+      if (index !== assignment[i]) {
+        assignment[i] = index;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    points.forEach((p, i) => {
+      const sum = sums[assignment[i]];
+      const w = weights[i];
+      sum[0] += p[0] * w;
+      sum[1] += p[1] * w;
+      sum[2] += p[2] * w;
+      sum[3] += w;
+    });
+    // Empty clusters keep their previous center
+    sums.forEach((sum, c) => {
+      if (sum[3] > 0) centers[c] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+    });
+  }
+  return centers.map(labToRgb);
+};
+
+// --- Applying Palettes ---
+
+// Points every triangle (cell, region) at its nearest palette entry (CIE76 distance between
+// its measured avg_color and the entry). avg_color itself is left untouched, so
+// the mesh can be remapped to another palette later without regenerating.
+export const applyPalette = (data: LowPolyOutput, palette: RGB[]): LowPolyOutput => {
+  const labPalette = palette.map(rgbToLab);
+  const assign = <T extends { avg_color: AverageColor }>(face: T): T => ({
+    ...face,
+    palette_index: nearestIndex(rgbToLab(face.avg_color), labPalette),
+  });
+  return {
+    ...data,
+    palette: palette.map(c => [...c] as RGB),
+    triangles: data.triangles.map(assign),
+    ...(data.cells ? { cells: data.cells.map(assign) } : {}),
+    ...(data.regions ? { regions: data.regions.map(assign) } : {}),
+  };
+};
+
+export const quantizeToPalette = (data: LowPolyOutput, size: number, random: () => number): LowPolyOutput => {
+  const faces = [...data.triangles, ...(data.cells ?? []), ...(data.regions ?? [])];
+  const palette = kmeansPalette(
+    faces.map(face => face.avg_color),
+    // Partly transparent faces count for the share of them that shows
+    faces.map(face => face.area_px * ((face.avg_color[3] ?? 255) / 255)),
+    size,
+    random
+  );
+  return applyPalette(data, palette);
+};
@@ -0,0 +1,91 @@
+import { crc32 } from './zip';
+
+// Streaming PNG encoder for images too large to hold (or draw) at once. Rows are
+// pulled in bands and deflated through CompressionStream, available in browsers
+// and in Node 18+, so only one band is in memory at a time.
+
+export interface PngStreamOptions {
+  // RGB without an alpha channel, for opaque images
+  opaque: boolean;
+  // Stored as a pHYs chunk so print software picks up the intended size
+  dpi?: number;
+  onProgress?: (progress: number) => void;
+}
+
+const SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+};
+
+// `readBand(y, rows)` returns RGBA pixels for rows y .. y + rows - 1. Resolves to
+// the file as a list of parts, ready for new Blob(parts).
+export const encodePngStream = async (
+  width: number,
+  height: number,
+  bandHeight: number,
+  readBand: (y: number, rows: number) => Uint8ClampedArray | Promise<Uint8ClampedArray>,
+  { opaque, dpi, onProgress }: PngStreamOptions
+): Promise<Uint8Array[]> => {
+  const channels = opaque ? 3 : 4;
+  const header = new DataView(new ArrayBuffer(13));
+  header.setUint32(0, width);
+  header.setUint32(4, height);
+  header.setUint8(8, 8); // bit depth
+  header.setUint8(9, opaque ? 2 : 6); // truecolor, with alpha unless opaque
+  const parts = [SIGNATURE, chunk('IHDR', new Uint8Array(header.buffer))];
+  if (dpi) {
+    const phys = new DataView(new ArrayBuffer(9));
+    const perMetre = Math.round(dpi / 0.0254);
+    phys.setUint32(0, perMetre);
+    phys.setUint32(4, perMetre);
+    phys.setUint8(8, 1); // unit: metre
+    parts.push(chunk('pHYs', new Uint8Array(phys.buffer)));
+  }
+
+  // zlib format, which is exactly what IDAT holds
+  const compression = new CompressionStream('deflate');
+  const writer = compression.writable.getWriter();
+  const reader = compression.readable.getReader();
+  const reading = (async () => {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      parts.push(chunk('IDAT', value));
+    }
+  })();
+
+  const stride = width * channels;
+  for (let y = 0; y < height; y += bandHeight) {
+    const rows = Math.min(bandHeight, height - y);
+    const band = await readBand(y, rows);
+    // Each row starts with its filter type; Sub (1) stores the difference to the
+    // pixel on the left, which is zero across flat faces
+    const filtered = new Uint8Array(rows * (stride + 1));
+    for (let r = 0; r < rows; r++) {
+      const out = r * (stride + 1);
+      filtered[out] = 1;
+      for (let x = 0; x < width; x++) {
+        const src = (r * width + x) * 4;
+        const dst = out + 1 + x * channels;
+        for (let c = 0; c < channels; c++) {
+          const left = x > 0 ? band[src - 4 + c] : 0;
+          filtered[dst + c] = (band[src + c] - left) & 0xff;
+        }
+      }
+    }
+    await writer.write(filtered);
+    onProgress?.((y + rows) / height);
+  }
+  await writer.close();
+  await reading;
+
+  parts.push(chunk('IEND', new Uint8Array(0)));
+  return parts;
+};
@@ -0,0 +1,201 @@
+import { ImageFilter, ImageFilterType, RasterImage } from '../types';
+import { exp, pow } from './math';
+
+// --- Filter Chain ---
+
+// A filter added from the editor, with settings that visibly change a photo
+// without overpowering it
+export const DEFAULT_FILTERS: Record<ImageFilterType, ImageFilter> = {
+  bilateral: { type: 'bilateral', radius: 3, range: 30 },
+  median: { type: 'median', radius: 1 },
+  brightness: { type: 'brightness', amount: 0.1 },
+  contrast: { type: 'contrast', amount: 0.2 },
+  saturation: { type: 'saturation', amount: 0.2 },
+  temperature: { type: 'temperature', amount: 0.2 },
+  gamma: { type: 'gamma', gamma: 1.2 },
+  posterize: { type: 'posterize', levels: 8 },
+};
+
+export const MAX_FILTER_RADIUS = 8;
+
+// Channel shift at temperature ±1
+const TEMPERATURE_SHIFT = 40;
+
+// Runs the chain on an image at its final size. Returns `image` itself when the
+// chain is empty, so unfiltered generation is unchanged.
+export const applyFilters = (image: RasterImage, filters: ImageFilter[]): RasterImage =>
+  filters.reduce(applyFilter, image);
+
+const applyFilter = (image: RasterImage, filter: ImageFilter): RasterImage => {
+  switch (filter.type) {
+    case 'bilateral':
+      return bilateralFilter(image, filter.radius, filter.range);
+    case 'median':
+      return medianFilter(image, filter.radius);
+    case 'brightness':
+      return mapChannels(image, c => c + filter.amount * 255);
+    case 'contrast':
+      return mapChannels(image, c => (c - 128) * (1 + filter.amount) + 128);
+    case 'gamma':
+      return mapChannels(image, c => 255 * pow(c / 255, 1 / filter.gamma));
+    case 'posterize': {
+      const steps = filter.levels - 1;
+      return mapChannels(image, c => (Math.round((c / 255) * steps) * 255) / steps);
+    }
+    case 'saturation':
+      return mapPixels(image, (r, g, b, out) => {
+        const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+        out[0] = luma + (r - luma) * (1 + filter.amount);
+        out[1] = luma + (g - luma) * (1 + filter.amount);
+        out[2] = luma + (b - luma) * (1 + filter.amount);
+      });
+    case 'temperature':
+      return mapPixels(image, (r, g, b, out) => {
+        out[0] = r + filter.amount * TEMPERATURE_SHIFT;
+        out[1] = g;
+        out[2] = b - filter.amount * TEMPERATURE_SHIFT;
+      });
+  }
+};
+
+// Null when the filter is valid, otherwise what is wrong with it. Shared by the
+// output validation and the settings loader.
+export const getFilterIssue = (value: unknown): string | null => {
+  if (typeof value !== 'object' || value === null) return 'expected an object';
+  const filter = value as Record<string, unknown>;
+  const inRange = (key: string, min: number, max: number, integer = false) => {
+    const n = filter[key];
+    if (typeof n !== 'number' || !Number.isFinite(n) || n < min || n > max || (integer && !Number.isInteger(n))) {
+      return `${key} must be ${integer ? 'an integer' : 'a number'} from ${min} to ${max}, got ${JSON.stringify(n)}`;
+    }
+    return null;
+  };
+  switch (filter.type) {
+    case 'bilateral':
+      return inRange('radius', 1, MAX_FILTER_RADIUS, true) ?? inRange('range', 1, 255);
+    case 'median':
+      return inRange('radius', 1, MAX_FILTER_RADIUS, true);
+    case 'brightness':
+    case 'contrast':
+    case 'saturation':
+    case 'temperature':
+      return inRange('amount', -1, 1);
+    case 'gamma':
+      return inRange('gamma', 0.1, 10);
+    case 'posterize':
+      return inRange('levels', 2, 256, true);
+    default:
+      return `unknown filter type ${JSON.stringify(filter.type)}`;
+  }
+};
+
+// --- Color Adjustments ---
+
+// The same curve on R, G and B through a lookup table; alpha is kept
+const mapChannels = (image: RasterImage, curve: (c: number) => number): RasterImage => {
+  const table = new Uint8ClampedArray(256);
+  for (let c = 0; c < 256; c++) table[c] = curve(c);
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = table[image.data[i]];
+    data[i + 1] = table[image.data[i + 1]];
+    data[i + 2] = table[image.data[i + 2]];
+    data[i + 3] = image.data[i + 3];
+  }
+  return { width: image.width, height: image.height, data };
+};
+
+const mapPixels = (image: RasterImage, map: (r: number, g: number, b: number, out: number[]) => void): RasterImage => {
+  const data = new Uint8ClampedArray(image.data.length);
+  const out = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    map(image.data[i], image.data[i + 1], image.data[i + 2], out);
+    data[i] = out[0];
+    data[i + 1] = out[1];
+    data[i + 2] = out[2];
+    data[i + 3] = image.data[i + 3];
+  }
+  return { width: image.width, height: image.height, data };
+};
+
+// --- Smoothing ---
+
+// Weighted mean over a square window. Weights fall off with distance (sigma of
+// half the radius) and with RGB difference from the center pixel (sigma `range`),
+// so noise is smoothed while strong edges stay sharp.
+const bilateralFilter = ({ width, height, data: src }: RasterImage, radius: number, range: number): RasterImage => {
+  const size = 2 * radius + 1;
+  const spatialSigma = Math.max(0.5, radius / 2);
+  const spatial = new Float32Array(size * size);
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      spatial[(dy + radius) * size + dx + radius] = exp(-(dx * dx + dy * dy) / (2 * spatialSigma * spatialSigma));
+    }
+  }
+  // Indexed by the squared RGB distance
+  const rangeWeights = new Float32Array(3 * 255 * 255 + 1);
+  for (let d = 0; d < rangeWeights.length; d++) rangeWeights[d] = exp(-d / (2 * range * range));
+
+  const data = new Uint8ClampedArray(src.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r0 = src[i], g0 = src[i + 1], b0 = src[i + 2];
+      let r = 0, g = 0, b = 0, total = 0;
+      for (let dy = Math.max(-radius, -y); dy <= Math.min(radius, height - 1 - y); dy++) {
+        const row = (dy + radius) * size + radius;
+        for (let dx = Math.max(-radius, -x); dx <= Math.min(radius, width - 1 - x); dx++) {
+          const j = i + (dy * width + dx) * 4;
+          const dr = src[j] - r0, dg = src[j + 1] - g0, db = src[j + 2] - b0;
+          const weight = spatial[row + dx] * rangeWeights[dr * dr + dg * dg + db * db];
+          r += src[j] * weight;
+          g += src[j + 1] * weight;
+          b += src[j + 2] * weight;
+          total += weight;
+        }
+      }
+      data[i] = r / total;
+      data[i + 1] = g / total;
+      data[i + 2] = b / total;
+      data[i + 3] = src[i + 3];
+    }
+  }
+  return { width, height, data };
+};
+
+// Per-channel median over a square window, clipped at the image border. Each row
+// slides a 256-bin histogram along x and tracks the median as it moves (Huang's
+// algorithm), so the cost grows with the radius instead of the window area.
+const medianFilter = ({ width, height, data: src }: RasterImage, radius: number): RasterImage => {
+  const data = new Uint8ClampedArray(src);
+  const histogram = new Int32Array(256);
+  for (let channel = 0; channel < 3; channel++) {
+    for (let y = 0; y < height; y++) {
+      const top = Math.max(0, y - radius);
+      const bottom = Math.min(height - 1, y + radius);
+      histogram.fill(0);
+      let count = 0;
+      let median = 0;
+      // Samples below `median`
+      let below = 0;
+      const addColumn = (x: number, sign: 1 | -1) => {
+        for (let yy = top; yy <= bottom; yy++) {
+          const value = src[(yy * width + x) * 4 + channel];
+          histogram[value] += sign;
+          if (value < median) below += sign;
+        }
+        count += sign * (bottom - top + 1);
+      };
+      for (let x = 0; x < Math.min(width, radius); x++) addColumn(x, 1);
+      for (let x = 0; x < width; x++) {
+        if (x + radius < width) addColumn(x + radius, 1);
+        if (x - radius - 1 >= 0) addColumn(x - radius - 1, -1);
+        const rank = (count - 1) >> 1;
+        while (below > rank) below -= histogram[--median];
+        while (below + histogram[median] <= rank) below += histogram[median++];
+        data[(y * width + x) * 4 + channel] = median;
+      }
+    }
+  }
+  return { width, height, data };
+};
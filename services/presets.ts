@@ -0,0 +1,163 @@
+import { Settings, Sampler, ColorSpace, ColorEstimator, ShadingMode, PaletteMode, GeometryKind, StrokeMode } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { getFilterIssue } from './preprocess';
+import { hexToRgb } from './palette';
+
+export interface Preset {
+  name: string;
+  // Applied on top of DEFAULT_SETTINGS
+  settings: Partial<Settings>;
+  builtIn?: boolean;
+}
+
+// Fields tied to one particular image; presets never carry or replace them
+const IMAGE_SPECIFIC: (keyof Settings)[] = ['densityMask', 'lockedPoints'];
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    name: 'Crystal',
+    builtIn: true,
+    settings: { sampler: Sampler.EDGE_AWARE, points: 3000, edgeWeight: 0.9, snapToContours: true, shading: ShadingMode.GRADIENT },
+  },
+  {
+    name: 'Coarse',
+    builtIn: true,
+    settings: { sampler: Sampler.GRID, points: 300, paletteMode: PaletteMode.KMEANS, paletteSize: 8 },
+  },
+  {
+    name: 'Portrait',
+    builtIn: true,
+    settings: { sampler: Sampler.ADAPTIVE, points: 2500, targetError: 5, snapToContours: true, edgeBlur: 2 },
+  },
+  {
+    name: 'Landscape',
+    builtIn: true,
+    settings: { sampler: Sampler.POISSON, points: 1500, mergeRegions: true, mergeTolerance: 5 },
+  },
+];
+
+// Returns the settings with a preset applied, keeping the image-specific fields.
+// Invalid preset fields fall back to their defaults, like URL state does.
+export const applyPreset = (current: Settings, preset: Preset): Settings => {
+  const next = normalizeSettings(preset.settings);
+  for (const key of IMAGE_SPECIFIC) {
+    (next as Record<keyof Settings, unknown>)[key] = current[key];
+  }
+  return next;
+};
+
+export const toPreset = (name: string, settings: Settings): Preset => {
+  const stored: Partial<Settings> = { ...settings };
+  for (const key of IMAGE_SPECIFIC) delete stored[key];
+  return { name, settings: stored };
+};
+
+// --- Validation ---
+
+const isEnum = (values: string[]) => (value: unknown) => values.includes(value as string);
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 1;
+
+const FIELD_CHECKS: Record<keyof Settings, (value: unknown) => boolean> = {
+  maxSize: isCount,
+  points: isCount,
+  sampler: isEnum(Object.values(Sampler)),
+  seed: isNumber,
+  edgeWeight: isNumber,
+  densityMask: (value) => value === null || (
+    typeof value === 'object' &&
+    Number.isInteger((value as { width: unknown }).width) &&
+    Number.isInteger((value as { height: unknown }).height) &&
+    typeof (value as { data: unknown }).data === 'string'
+  ),
+  filters: (value) => Array.isArray(value) && value.every(filter => getFilterIssue(filter) === null),
+  minOpacity: (value) => isNumber(value) && (value as number) >= 0 && (value as number) <= 1,
+  edgeBlur: isNumber,
+  cannyLow: isNumber,
+  cannyHigh: isNumber,
+  snapToContours: isBoolean,
+  targetError: isNumber,
+  colorSpace: isEnum(Object.values(ColorSpace)),
+  colorEstimator: isEnum(Object.values(ColorEstimator)),
+  shading: isEnum(Object.values(ShadingMode)),
+  // Regions only come out of the merge pass
+  geometry: isEnum([GeometryKind.TRIANGLES, GeometryKind.VORONOI]),
+  paletteMode: isEnum(Object.values(PaletteMode)),
+  paletteSize: isCount,
+  customPalette: (value) => Array.isArray(value) && value.every(c => typeof c === 'string'),
+  mergeRegions: isBoolean,
+  mergeTolerance: (value) => isNumber(value) && (value as number) >= 0,
+  lockedPoints: (value) => Array.isArray(value) && value.every(p =>
+    Array.isArray(p) && p.length === 2 && p.every(c => isNumber(c) && c >= 0 && c <= 1)),
+  withNeighbors: isBoolean,
+  strokeMode: isEnum(Object.values(StrokeMode)),
+  strokeColor: (value) => typeof value === 'string' && hexToRgb(value) !== null,
+  strokeWidth: (value) => isNumber(value) && (value as number) >= 0,
+  gapSize: (value) => isNumber(value) && (value as number) >= 0 && (value as number) <= 0.5,
+  showPointIds: isBoolean,
+};
+
+// Builds complete Settings from untrusted input (a URL, localStorage). Unknown
+// fields are dropped and invalid ones fall back to their defaults.
+export const normalizeSettings = (raw: unknown): Settings => {
+  const settings = { ...DEFAULT_SETTINGS };
+  if (typeof raw !== 'object' || raw === null) return settings;
+  for (const key of Object.keys(FIELD_CHECKS) as (keyof Settings)[]) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (value !== undefined && FIELD_CHECKS[key](value)) {
+      (settings as Record<keyof Settings, unknown>)[key] = value;
+    }
+  }
+  return settings;
+};
+
+// --- User Presets ---
+
+const STORAGE_KEY = 'lowpoly.presets';
+
+export const loadUserPresets = (): Preset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .filter((p): p is Preset => typeof p?.name === 'string' && typeof p.settings === 'object' && p.settings !== null)
+      // Stale or hand-edited fields fall back to their defaults
+      .map(p => toPreset(p.name, normalizeSettings(p.settings)));
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: Preset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.map(p => ({ name: p.name, settings: p.settings }))));
+};
+
+// --- URL State ---
+
+const HASH_PREFIX = '#s=';
+
+// Only fields that differ from the defaults are encoded, as base64url JSON
+export const encodeSettingsHash = (settings: Settings): string => {
+  const changed: Partial<Record<keyof Settings, unknown>> = {};
+  for (const key of Object.keys(settings) as (keyof Settings)[]) {
+    if (JSON.stringify(settings[key]) !== JSON.stringify(DEFAULT_SETTINGS[key])) changed[key] = settings[key];
+  }
+  if (Object.keys(changed).length === 0) return '';
+  const bytes = new TextEncoder().encode(JSON.stringify(changed));
+  let binary = '';
+  bytes.forEach(b => binary += String.fromCharCode(b));
+  return HASH_PREFIX + btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// Null when the hash holds no (readable) settings
+export const decodeSettingsHash = (hash: string): Settings | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  try {
+    const binary = atob(hash.slice(HASH_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+    return normalizeSettings(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch {
+    return null;
+  }
+};
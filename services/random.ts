@@ -0,0 +1,55 @@
+// Identifies the generator below and how streams are seeded. Recorded in
+// LowPolyOutput.params.prng; change it whenever either changes, because the
+// same seed then produces a different mesh.
+export const PRNG_VERSION = 'sfc32-v1';
+
+// Each pipeline stage draws from its own stream, so e.g. changing the number of
+// sampled points doesn't reshuffle the palette seeding.
+export type PRNGStream = 'sampling' | 'refinement' | 'palette';
+
+// FNV-1a over the UTF-16 code units, 32-bit
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// splitmix32 finalizer, spreads nearby seeds over the whole state space
+const mix = (value: number): number => {
+  let z = value >>> 0;
+  z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+  z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+  return (z ^ (z >>> 15)) >>> 0;
+};
+
+// A seeded random number generator for deterministic results: sfc32 (Chris
+// Doty-Humphrey's small fast counting generator). It only uses 32-bit integer
+// operations, so every JS engine produces the same sequence, and it has no
+// short cycles. Returns floats in [0, 1) with 32 bits of precision.
+export const createPRNG = (seed: number, stream: PRNGStream = 'sampling') => {
+  // Seeds are integers in the UI, but accept anything finite up to 2^53
+  const value = Number.isFinite(seed) ? Math.trunc(seed) : 0;
+  const low = value >>> 0;
+  const high = Math.floor(value / 4294967296) >>> 0;
+  const streamHash = hashString(stream);
+
+  let a = mix(low ^ 0x9e3779b9);
+  let b = mix(high ^ 0x85ebca6b);
+  let c = mix(streamHash);
+  let counter = 1;
+  const next = () => {
+    const t = (((a + b) | 0) + counter) | 0;
+    counter = (counter + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return t >>> 0;
+  };
+  // Discard the first outputs while the state mixes
+  for (let i = 0; i < 12; i++) next();
+  return () => next() / 4294967296;
+};
@@ -0,0 +1,116 @@
+import { LowPolyOutput, RasterImage } from '../types';
+import { getRenderFaces, RenderFace } from './export';
+
+// --- Software Rasterization ---
+
+// Fills every face into an RGBA buffer at the output's native size, sampling at
+// pixel centers. Faces with vertex colors are shaded with exact barycentric
+// interpolation, the others (possibly concave merged regions) are scanline filled
+// with their flat color. Pixels not covered by any face stay transparent, and
+// partly transparent faces are composited over what is already drawn.
+export const rasterizeTriangles = (data: LowPolyOutput): RasterImage =>
+  rasterizeFaces(getRenderFaces(data), data.image.width, data.image.height);
+
+export const rasterizeFaces = (faces: RenderFace[], width: number, height: number): RasterImage => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+
+  for (const face of faces) fillFace(pixels, width, height, face);
+  return { width, height, data: pixels };
+};
+
+export const fillFace = (pixels: Uint8ClampedArray, width: number, height: number, face: RenderFace) => {
+  const alpha = Math.round((face.opacity ?? 1) * 255);
+  if (face.vertexColors && face.points.length === 3) {
+    fillTriangle(pixels, width, height, face.points, face.vertexColors, alpha);
+  } else {
+    fillPolygon(pixels, width, height, face.points, face.color, alpha);
+  }
+};
+
+// Source-over compositing of one pixel
+const setPixel = (pixels: Uint8ClampedArray, index: number, r: number, g: number, b: number, alpha: number) => {
+  if (alpha >= 255) {
+    pixels[index] = r;
+    pixels[index + 1] = g;
+    pixels[index + 2] = b;
+    pixels[index + 3] = 255;
+    return;
+  }
+  const below = (pixels[index + 3] * (255 - alpha)) / 255;
+  const total = alpha + below;
+  if (total === 0) return;
+  pixels[index] = (r * alpha + pixels[index] * below) / total;
+  pixels[index + 1] = (g * alpha + pixels[index + 1] * below) / total;
+  pixels[index + 2] = (b * alpha + pixels[index + 2] * below) / total;
+  pixels[index + 3] = total;
+};
+
+const fillTriangle = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  [p1, p2, p3]: [number, number][],
+  colors: [number, number, number][],
+  alpha: number
+) => {
+  const detT = (p2[1] - p3[1]) * (p1[0] - p3[0]) + (p3[0] - p2[0]) * (p1[1] - p3[1]);
+  if (detT === 0) return;
+  const [c1, c2, c3] = colors;
+
+  const minX = Math.max(0, Math.floor(Math.min(p1[0], p2[0], p3[0])));
+  const maxX = Math.min(width, Math.ceil(Math.max(p1[0], p2[0], p3[0])));
+  const minY = Math.max(0, Math.floor(Math.min(p1[1], p2[1], p3[1])));
+  const maxY = Math.min(height, Math.ceil(Math.max(p1[1], p2[1], p3[1])));
+
+  for (let y = minY; y < maxY; y++) {
+    const py = y + 0.5;
+    for (let x = minX; x < maxX; x++) {
+      const px = x + 0.5;
+      const lambda1 = ((p2[1] - p3[1]) * (px - p3[0]) + (p3[0] - p2[0]) * (py - p3[1])) / detT;
+      const lambda2 = ((p3[1] - p1[1]) * (px - p3[0]) + (p1[0] - p3[0]) * (py - p3[1])) / detT;
+      const lambda3 = 1 - lambda1 - lambda2;
+      if (lambda1 < 0 || lambda2 < 0 || lambda3 < 0) continue;
+
+      setPixel(pixels, (y * width + x) * 4,
+        lambda1 * c1[0] + lambda2 * c2[0] + lambda3 * c3[0],
+        lambda1 * c1[1] + lambda2 * c2[1] + lambda3 * c3[1],
+        lambda1 * c1[2] + lambda2 * c2[2] + lambda3 * c3[2],
+        alpha);
+    }
+  }
+};
+
+// Even-odd scanline fill; pixel centers exactly on an edge follow the half-open
+// rule on y so faces sharing an edge don't both claim a row.
+const fillPolygon = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  points: [number, number][],
+  color: [number, number, number],
+  alpha: number
+) => {
+  const minY = Math.max(0, Math.floor(Math.min(...points.map(p => p[1]))));
+  const maxY = Math.min(height, Math.ceil(Math.max(...points.map(p => p[1]))));
+
+  for (let y = minY; y < maxY; y++) {
+    const py = y + 0.5;
+    const crossings: number[] = [];
+    for (let i = 0; i < points.length; i++) {
+      const [ax, ay] = points[i];
+      const [bx, by] = points[(i + 1) % points.length];
+      if ((ay <= py) !== (by <= py)) {
+        crossings.push(ax + ((py - ay) / (by - ay)) * (bx - ax));
+      }
+    }
+    crossings.sort((a, b) => a - b);
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      // Pixel x is covered when its center x + 0.5 lies in [start, end)
+      const start = Math.max(0, Math.ceil(crossings[k] - 0.5));
+      const end = Math.min(width, Math.ceil(crossings[k + 1] - 0.5));
+      for (let x = start; x < end; x++) {
+        setPixel(pixels, (y * width + x) * 4, color[0], color[1], color[2], alpha);
+      }
+    }
+  }
+};
@@ -0,0 +1,198 @@
+import { LowPolyOutput, RasterImage, StrokeMode } from '../types';
+import { getStyledFaces, RenderFace, RenderStyle, DEFAULT_RENDER_STYLE } from './export';
+import { fillFace } from './raster';
+import { hexToRgb } from './palette';
+import { encodePngStream } from './png';
+
+// --- High-resolution Rendering ---
+
+// Renders the mesh at any size with the software rasterizer, one horizontal band
+// at a time, so output size is limited by neither canvas limits nor memory.
+// Antialiasing is done by supersampling: every sample belongs to exactly one
+// face, so adjacent faces never leave the hairline seams canvas antialiasing does.
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp';
+
+export interface RasterExportOptions {
+  format: RasterFormat;
+  // Output pixels per mesh pixel
+  scale: number;
+  // Print resolution recorded in the file; it doesn't change the pixels
+  dpi: number;
+  // Hex color, or null for transparent (PNG and WebP only)
+  background: string | null;
+  // Samples per pixel along each axis; 1 disables antialiasing
+  samples: number;
+  // JPEG and WebP quality, 0..1
+  quality: number;
+  // Stroke and gap style, as in the preview
+  style: RenderStyle;
+}
+
+export const DEFAULT_RASTER_EXPORT_OPTIONS: RasterExportOptions = {
+  format: 'png',
+  scale: 4,
+  dpi: 300,
+  background: null,
+  samples: 3,
+  quality: 0.92,
+  style: DEFAULT_RENDER_STYLE,
+};
+
+// JPEG and WebP go through the browser's encoder, which needs the whole image
+// on one canvas. Browsers refuse canvases beyond roughly these sizes, and WebP
+// itself stops at 16383 pixels per side.
+export const MAX_CANVAS_SIDE = 16383;
+export const MAX_CANVAS_AREA = 2 ** 27;
+
+// Supersampled pixels per band, about 64 MB of RGBA
+const BAND_SAMPLES = 2 ** 24;
+
+export const getExportSize = (data: LowPolyOutput, scale: number): [number, number] => [
+  Math.max(1, Math.round(data.image.width * scale)),
+  Math.max(1, Math.round(data.image.height * scale)),
+];
+
+export const fitsCanvas = ([width, height]: [number, number]) =>
+  width <= MAX_CANVAS_SIDE && height <= MAX_CANVAS_SIDE && width * height <= MAX_CANVAS_AREA;
+
+// One quad per distinct edge, extended by half the width at both ends so the
+// corners where edges meet are filled
+const getOutlineFaces = (faces: RenderFace[], style: RenderStyle): RenderFace[] => {
+  const color = hexToRgb(style.strokeColor);
+  if (!color) throw new Error(`Outline color must be a hex color, got "${style.strokeColor}"`);
+  const half = style.strokeWidth / 2;
+  const seen = new Set<string>();
+  const quads: RenderFace[] = [];
+  for (const face of faces) {
+    face.points.forEach((a, i) => {
+      const b = face.points[(i + 1) % face.points.length];
+      const key = a[0] < b[0] || (a[0] === b[0] && a[1] < b[1]) ? `${a}|${b}` : `${b}|${a}`;
+      const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+      if (seen.has(key) || length === 0) return;
+      seen.add(key);
+      const dx = ((b[0] - a[0]) / length) * half;
+      const dy = ((b[1] - a[1]) / length) * half;
+      quads.push({
+        id: -1,
+        points: [
+          [a[0] - dx + dy, a[1] - dy - dx],
+          [b[0] + dx + dy, b[1] + dy - dx],
+          [b[0] + dx - dy, b[1] + dy + dx],
+          [a[0] - dx - dy, a[1] - dy + dx],
+        ],
+        centroid: [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2],
+        color,
+      });
+    });
+  }
+  return quads;
+};
+
+// Faces followed by the quads of their outline when the style draws one, for the
+// software rasterizer. StrokeMode.MATCH needs nothing here: rasterized faces
+// leave no seams.
+export const withOutlineFaces = (faces: RenderFace[], style: RenderStyle): RenderFace[] =>
+  style.strokeMode === StrokeMode.OUTLINE && style.strokeWidth > 0 ? [...faces, ...getOutlineFaces(faces, style)] : faces;
+
+// Returns the band height and a function rendering output rows y .. y + rows - 1
+const createBandRenderer = (data: LowPolyOutput, options: RasterExportOptions) => {
+  const [width, height] = getExportSize(data, options.scale);
+  const samples = Math.max(1, Math.round(options.samples));
+  // Separate factors so the mesh fills the rounded output size exactly
+  const scaleX = (width / data.image.width) * samples;
+  const scaleY = (height / data.image.height) * samples;
+  const background = options.background ? hexToRgb(options.background) : null;
+
+  const faces = withOutlineFaces(getStyledFaces(data, options.style), options.style);
+  const bounds = faces.map(face => {
+    const ys = face.points.map(p => p[1]);
+    return [Math.min(...ys), Math.max(...ys)];
+  });
+
+  const bandHeight = Math.max(1, Math.min(height, Math.floor(BAND_SAMPLES / (width * samples * samples))));
+  const renderBand = (y: number, rows: number): Uint8ClampedArray => {
+    const sampleWidth = width * samples;
+    const sampleRows = rows * samples;
+    const buffer = new Uint8ClampedArray(sampleWidth * sampleRows * 4);
+    if (background) {
+      const pixel = new Uint8ClampedArray([background[0], background[1], background[2], 255]);
+      new Uint32Array(buffer.buffer).fill(new Uint32Array(pixel.buffer)[0]);
+    }
+    const top = y * samples;
+    // Mesh rows covered by this band
+    const minY = top / scaleY;
+    const maxY = (top + sampleRows) / scaleY;
+    faces.forEach((face, i) => {
+      if (bounds[i][1] < minY || bounds[i][0] > maxY) return;
+      fillFace(buffer, sampleWidth, sampleRows, {
+        ...face,
+        points: face.points.map(([px, py]): [number, number] => [px * scaleX, py * scaleY - top]),
+      });
+    });
+    if (samples === 1) return buffer;
+
+    // Box filter with premultiplied alpha, so transparent samples don't darken edges
+    const out = new Uint8ClampedArray(width * rows * 4);
+    for (let row = 0; row < rows; row++) {
+      for (let x = 0; x < width; x++) {
+        let r = 0, g = 0, b = 0, a = 0;
+        for (let sy = 0; sy < samples; sy++) {
+          let i = ((row * samples + sy) * sampleWidth + x * samples) * 4;
+          for (let sx = 0; sx < samples; sx++, i += 4) {
+            const alpha = buffer[i + 3];
+            r += buffer[i] * alpha;
+            g += buffer[i + 1] * alpha;
+            b += buffer[i + 2] * alpha;
+            a += alpha;
+          }
+        }
+        const o = (row * width + x) * 4;
+        if (a > 0) {
+          out[o] = r / a;
+          out[o + 1] = g / a;
+          out[o + 2] = b / a;
+          out[o + 3] = a / (samples * samples);
+        }
+      }
+    }
+    return out;
+  };
+  return { width, height, bandHeight, renderBand };
+};
+
+// Streams a PNG of any size; resolves to the file's parts for new Blob(parts)
+export const renderPng = async (data: LowPolyOutput, options: RasterExportOptions, onProgress?: (progress: number) => void) => {
+  const { width, height, bandHeight, renderBand } = createBandRenderer(data, options);
+  return encodePngStream(width, height, bandHeight, renderBand, { opaque: !!options.background, dpi: options.dpi, onProgress });
+};
+
+// The whole image in memory, for encoders that need it at once (JPEG, WebP)
+export const renderRaster = async (data: LowPolyOutput, options: RasterExportOptions, onProgress?: (progress: number) => void): Promise<RasterImage> => {
+  const { width, height, bandHeight, renderBand } = createBandRenderer(data, options);
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y += bandHeight) {
+    const rows = Math.min(bandHeight, height - y);
+    pixels.set(renderBand(y, rows), y * width * 4);
+    onProgress?.((y + rows) / height);
+    // Let the page repaint the progress between bands
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return { width, height, data: pixels };
+};
+
+// Writes the density into a JFIF header, which is where print software reads it
+// from. Browsers always write 72 dpi or none; files without JFIF are returned as is.
+export const setJpegDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const isJfif = bytes[2] === 0xff && bytes[3] === 0xe0 &&
+    String.fromCharCode(bytes[6], bytes[7], bytes[8], bytes[9]) === 'JFIF' && bytes[10] === 0;
+  if (!isJfif) return bytes;
+  const result = bytes.slice();
+  const density = Math.min(65535, Math.round(dpi));
+  result[13] = 1; // dots per inch
+  result[14] = density >> 8;
+  result[15] = density & 0xff;
+  result[16] = density >> 8;
+  result[17] = density & 0xff;
+  return result;
+};
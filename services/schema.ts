@@ -0,0 +1,360 @@
+import { LowPolyOutput, Sampler, ColorSpace, ColorEstimator, ShadingMode, PaletteMode, GeometryKind } from '../types';
+import { getFilterIssue } from './preprocess';
+
+// Version written by generateLowPolyData. Bump it together with a migration
+// from the previous version whenever the output format changes.
+export const FORMAT_VERSION = '1.3';
+
+export class SchemaError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(issues.length === 1 ? issues[0] : `${issues.length} problems:\n${issues.join('\n')}`);
+    this.name = 'SchemaError';
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+// --- Type Guards ---
+
+// Shared with the indexed format loader, which checks its input the same way
+export const isRecord = (value: unknown): value is Raw =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'number');
+
+// Vertices of a triangle that is well-formed enough to migrate
+const getVertices = (tri: unknown): number[][] | null =>
+  isRecord(tri) && Array.isArray(tri.vertices) && tri.vertices.every(isNumberArray) ? tri.vertices : null;
+
+// --- Migrations ---
+
+const edgeKey = (a: number[], b: number[]) => {
+  const [p, q] = [a.join(','), b.join(',')];
+  return p < q ? `${p}|${q}` : `${q}|${p}`;
+};
+
+// 1.0 files come from the original generator: closed 4-point vertex rings,
+// neighbors taken from the sample points rather than the triangles, and no
+// shading or geometry fields.
+const migrateFrom_1_0 = (data: Raw): Raw => {
+  const triangles = Array.isArray(data.triangles) ? data.triangles : [];
+  const migrated = triangles.map((tri: unknown) => {
+    const vertices = getVertices(tri);
+    if (!isRecord(tri) || !vertices || vertices.length !== 4) return tri;
+    const [first, , , last] = vertices;
+    const closed = first[0] === last[0] && first[1] === last[1];
+    return closed ? { ...tri, vertices: vertices.slice(0, 3) } : tri;
+  });
+
+  // Rebuild triangle adjacency from shared edges where the file had any
+  const owners = new Map<string, unknown[]>();
+  migrated.forEach(tri => {
+    const vertices = getVertices(tri);
+    if (!isRecord(tri) || !vertices || vertices.length !== 3) return;
+    for (let e = 0; e < 3; e++) {
+      const key = edgeKey(vertices[e], vertices[(e + 1) % 3]);
+      owners.set(key, [...(owners.get(key) ?? []), tri.id]);
+    }
+  });
+  const withNeighbors = migrated.map(tri => {
+    const vertices = getVertices(tri);
+    if (!isRecord(tri) || !Array.isArray(tri.neighbors) || tri.neighbors.length === 0 || vertices?.length !== 3) return tri;
+    const neighbors: unknown[] = [];
+    for (let e = 0; e < 3; e++) {
+      const other = owners.get(edgeKey(vertices[e], vertices[(e + 1) % 3]))?.find(id => id !== tri.id);
+      if (other !== undefined) neighbors.push(other);
+    }
+    return { ...tri, neighbors };
+  });
+
+  return {
+    ...data,
+    version: '1.1',
+    params: isRecord(data.params) ? { shading: ShadingMode.FLAT, ...data.params } : data.params,
+    geometry: data.geometry ?? GeometryKind.TRIANGLES,
+    triangles: withNeighbors,
+  };
+};
+
+// Before 1.2 meshes were sampled with the sin-based generator, which the
+// current one can't reproduce; the tag keeps such seeds from being reused blindly.
+const migrateFrom_1_1 = (data: Raw): Raw => ({
+  ...data,
+  version: '1.2',
+  params: isRecord(data.params) ? { prng: 'sin-v0', ...data.params } : data.params,
+});
+
+// 1.3 only added optional fields: the edited point set (points, locked_points),
+// per-face normals with lighting, params.preprocess, min_opacity and
+// color_estimator, [r, g, b, a] colors and the per-face color statistics. A 1.2
+// file is valid as it is; the new version keeps 1.2 readers from misreading them.
+const migrateFrom_1_2 = (data: Raw): Raw => ({ ...data, version: '1.3' });
+
+// Keyed by the version each step upgrades from
+const MIGRATIONS: Record<string, (data: Raw) => Raw> = {
+  '1.0': migrateFrom_1_0,
+  '1.1': migrateFrom_1_1,
+  '1.2': migrateFrom_1_2,
+};
+
+const migrate = (data: Raw): Raw => {
+  let current = data;
+  while (current.version !== FORMAT_VERSION) {
+    if (typeof current.version !== 'string') throw new SchemaError(['version: missing or not a string']);
+    const step = MIGRATIONS[current.version];
+    if (!step) throw new SchemaError([`version: unsupported format version "${current.version}" (this app reads up to ${FORMAT_VERSION})`]);
+    current = step(current);
+  }
+  return current;
+};
+
+// --- Validation ---
+
+const MAX_REPORTED_ISSUES = 50;
+
+// Collects every problem in `data` as "<path>: <message>" strings, e.g.
+// "triangles[12].vertices[1]: (1030, 20) lies outside the 1024x768 image".
+export const validateLowPolyOutput = (data: unknown): string[] => {
+  const issues: string[] = [];
+  const report = (path: string, message: string) => issues.push(`${path}: ${message}`);
+
+  const number = (path: string, value: unknown, { min = -Infinity, integer = false } = {}): value is number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      report(path, `expected a number, got ${JSON.stringify(value)}`);
+      return false;
+    }
+    if (integer && !Number.isInteger(value)) {
+      report(path, `expected an integer, got ${value}`);
+      return false;
+    }
+    if (value < min) {
+      report(path, `must be at least ${min}, got ${value}`);
+      return false;
+    }
+    return true;
+  };
+  const oneOf = (path: string, value: unknown, allowed: string[]) => {
+    if (!allowed.includes(value as string)) report(path, `must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+  };
+  const array = (path: string, value: unknown): value is unknown[] => {
+    if (Array.isArray(value)) return true;
+    report(path, 'expected an array');
+    return false;
+  };
+  const object = (path: string, value: unknown): value is Raw => {
+    if (isRecord(value)) return true;
+    report(path, 'expected an object');
+    return false;
+  };
+  // `withAlpha` also accepts an [r, g, b, a] average color
+  const color = (path: string, value: unknown, { withAlpha = false } = {}) => {
+    const lengths = withAlpha ? [3, 4] : [3];
+    if (!Array.isArray(value) || !lengths.includes(value.length) || value.some(c => typeof c !== 'number' || !Number.isInteger(c) || c < 0 || c > 255)) {
+      report(path, `expected an [r, g, b]${withAlpha ? ' or [r, g, b, a]' : ''} color with integer channels 0-255, got ${JSON.stringify(value)}`);
+    }
+  };
+  const point = (path: string, value: unknown): value is [number, number] => {
+    if (Array.isArray(value) && value.length === 2 && value.every(c => typeof c === 'number' && Number.isFinite(c))) return true;
+    report(path, `expected an [x, y] point, got ${JSON.stringify(value)}`);
+    return false;
+  };
+
+  if (!object('(root)', data)) return issues;
+
+  const image = data.image;
+  let width = Infinity;
+  let height = Infinity;
+  if (object('image', image)) {
+    if (number('image.width', image.width, { min: 1, integer: true })) width = image.width;
+    if (number('image.height', image.height, { min: 1, integer: true })) height = image.height;
+    if (typeof image.source !== 'string') report('image.source', 'expected a string');
+  }
+  // Vertices may sit exactly on the border; allow for float rounding
+  const inImage = (path: string, value: unknown) => {
+    if (!point(path, value) || !Number.isFinite(width) || !Number.isFinite(height)) return;
+    const [x, y] = value;
+    if (x < -1e-6 || y < -1e-6 || x > width + 1e-6 || y > height + 1e-6) {
+      report(path, `(${x}, ${y}) lies outside the ${width}x${height} image`);
+    }
+  };
+
+  const params = data.params;
+  if (object('params', params)) {
+    oneOf('params.sampler', params.sampler, Object.values(Sampler));
+    number('params.points', params.points, { min: 0 });
+    number('params.seed', params.seed);
+    if (typeof params.prng !== 'string') report('params.prng', 'expected a string');
+    oneOf('params.color_space', params.color_space, Object.values(ColorSpace));
+    if (params.color_estimator !== undefined) oneOf('params.color_estimator', params.color_estimator, Object.values(ColorEstimator));
+    oneOf('params.shading', params.shading, Object.values(ShadingMode));
+    if (params.palette_mode !== undefined) oneOf('params.palette_mode', params.palette_mode, Object.values(PaletteMode));
+    if (params.target_error !== undefined) number('params.target_error', params.target_error, { min: 0 });
+    if (params.density_mask !== undefined && object('params.density_mask', params.density_mask)) {
+      const { width: maskWidth, height: maskHeight, data: cells } = params.density_mask;
+      const widthValid = number('params.density_mask.width', maskWidth, { min: 1, integer: true });
+      const heightValid = number('params.density_mask.height', maskHeight, { min: 1, integer: true });
+      const sized = widthValid && heightValid;
+      if (typeof cells !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(cells)) {
+        report('params.density_mask.data', 'expected a base64 string');
+      } else if (sized && Math.floor((cells.length * 3) / 4) - (cells.match(/=+$/)?.[0].length ?? 0) !== maskWidth * maskHeight) {
+        report('params.density_mask.data', `expected ${maskWidth * maskHeight} cells for a ${maskWidth}x${maskHeight} mask`);
+      }
+    }
+    if (params.preprocess !== undefined && array('params.preprocess', params.preprocess)) {
+      params.preprocess.forEach((filter, i) => {
+        const issue = getFilterIssue(filter);
+        if (issue) report(`params.preprocess[${i}]`, issue);
+      });
+    }
+    if (params.min_opacity !== undefined && number('params.min_opacity', params.min_opacity, { min: 0 }) && params.min_opacity > 1) {
+      report('params.min_opacity', `must be at most 1, got ${params.min_opacity}`);
+    }
+    if (params.edges !== undefined && object('params.edges', params.edges)) {
+      number('params.edges.blur', params.edges.blur, { min: 0 });
+      number('params.edges.low', params.edges.low, { min: 0 });
+      number('params.edges.high', params.edges.high, { min: 0 });
+      if (typeof params.edges.snap_to_contours !== 'boolean') report('params.edges.snap_to_contours', 'expected a boolean');
+    }
+  }
+
+  let paletteSize = 0;
+  if (data.palette !== undefined && array('palette', data.palette)) {
+    data.palette.forEach((entry, i) => color(`palette[${i}]`, entry));
+    paletteSize = data.palette.length;
+  }
+
+  if (data.lighting !== undefined && object('lighting', data.lighting)) {
+    const { lighting } = data;
+    oneOf('lighting.height_source', lighting.height_source, ['luminance', 'edges']);
+    number('lighting.relief', lighting.relief, { min: 0 });
+    number('lighting.azimuth', lighting.azimuth);
+    number('lighting.elevation', lighting.elevation);
+    number('lighting.intensity', lighting.intensity, { min: 0 });
+    number('lighting.ambient', lighting.ambient, { min: 0 });
+  }
+
+  oneOf('geometry', data.geometry, Object.values(GeometryKind));
+  if (data.geometry === GeometryKind.VORONOI && data.cells === undefined) report('cells', 'required for voronoi geometry');
+  if (data.geometry === GeometryKind.REGIONS && data.regions === undefined) report('regions', 'required for regions geometry');
+
+  let pointCount = 0;
+  if (data.points !== undefined && array('points', data.points)) {
+    data.points.forEach((p, i) => inImage(`points[${i}]`, p));
+    pointCount = data.points.length;
+  }
+  if (data.locked_points !== undefined && array('locked_points', data.locked_points)) {
+    data.locked_points.forEach((index, i) => {
+      const path = `locked_points[${i}]`;
+      if (number(path, index, { min: 0, integer: true }) && index >= pointCount) {
+        report(path, `${index} is out of range for ${pointCount} points`);
+      }
+    });
+  }
+
+  // Fields shared by triangles, cells and regions; `shape` checks the outline
+  const faceList = (name: string, list: unknown, shape: (path: string, face: Raw) => void) => {
+    if (!array(name, list)) return;
+    const ids = new Set<number>();
+    list.forEach((face, i) => {
+      const path = `${name}[${i}]`;
+      if (!object(path, face)) return;
+      if (number(`${path}.id`, face.id, { min: 1, integer: true })) {
+        if (ids.has(face.id)) report(`${path}.id`, `duplicate id ${face.id}`);
+        ids.add(face.id);
+      }
+      shape(path, face);
+      point(`${path}.centroid`, face.centroid);
+      number(`${path}.area_px`, face.area_px, { min: 0 });
+      color(`${path}.avg_color`, face.avg_color, { withAlpha: true });
+      if (face.color_error !== undefined) number(`${path}.color_error`, face.color_error, { min: 0 });
+      if (face.pixel_count !== undefined) number(`${path}.pixel_count`, face.pixel_count, { min: 0, integer: true });
+      if (face.color_std !== undefined && (!Array.isArray(face.color_std) || face.color_std.length !== 3 ||
+          face.color_std.some((c: unknown) => typeof c !== 'number' || !Number.isFinite(c) || c < 0))) {
+        report(`${path}.color_std`, `expected three non-negative numbers, got ${JSON.stringify(face.color_std)}`);
+      }
+      if (face.luminance_range !== undefined) number(`${path}.luminance_range`, face.luminance_range, { min: 0 });
+      if (face.palette_index !== undefined && number(`${path}.palette_index`, face.palette_index, { min: 0, integer: true })) {
+        if (face.palette_index >= paletteSize) {
+          report(`${path}.palette_index`, `${face.palette_index} is out of range for a palette of ${paletteSize} colors`);
+        }
+      }
+      if (face.normal !== undefined) {
+        const n = face.normal;
+        if (!Array.isArray(n) || n.length !== 3 || n.some(c => typeof c !== 'number' || !Number.isFinite(c))) {
+          report(`${path}.normal`, `expected an [x, y, z] vector, got ${JSON.stringify(n)}`);
+        } else if (Math.abs(Math.hypot(n[0], n[1], n[2]) - 1) > 1e-3) {
+          report(`${path}.normal`, `expected a unit vector, got length ${Math.hypot(n[0], n[1], n[2])}`);
+        }
+      }
+    });
+    // Neighbor ids are checked once every id is known
+    list.forEach((face, i) => {
+      if (!isRecord(face) || !array(`${name}[${i}].neighbors`, face.neighbors)) return;
+      face.neighbors.forEach((id, k) => {
+        const path = `${name}[${i}].neighbors[${k}]`;
+        if (!number(path, id, { min: 1, integer: true })) return;
+        if (id === face.id) report(path, 'a face cannot neighbor itself');
+        else if (!ids.has(id)) report(path, `no ${name} entry has id ${id}`);
+      });
+    });
+  };
+
+  const polygon = (path: string, value: unknown) => {
+    if (!array(path, value)) return;
+    if (value.length < 3) report(path, `expected at least 3 points, got ${value.length}`);
+    value.forEach((p, k) => inImage(`${path}[${k}]`, p));
+  };
+
+  faceList('triangles', data.triangles, (path, tri) => {
+    if (array(`${path}.vertices`, tri.vertices)) {
+      if (tri.vertices.length !== 3) report(`${path}.vertices`, `expected 3 vertices, got ${tri.vertices.length}`);
+      tri.vertices.forEach((v, k) => inImage(`${path}.vertices[${k}]`, v));
+    }
+    if (tri.vertex_colors !== undefined && array(`${path}.vertex_colors`, tri.vertex_colors)) {
+      if (tri.vertex_colors.length !== 3) report(`${path}.vertex_colors`, `expected 3 colors, got ${tri.vertex_colors.length}`);
+      tri.vertex_colors.forEach((c, k) => color(`${path}.vertex_colors[${k}]`, c));
+    }
+  });
+  if (data.cells !== undefined) {
+    faceList('cells', data.cells, (path, cell) => {
+      inImage(`${path}.site`, cell.site);
+      polygon(`${path}.polygon`, cell.polygon);
+    });
+  }
+  if (data.regions !== undefined) {
+    faceList('regions', data.regions, (path, region) => {
+      polygon(`${path}.polygon`, region.polygon);
+      number(`${path}.triangle_count`, region.triangle_count, { min: 1, integer: true });
+    });
+  }
+
+  if (issues.length > MAX_REPORTED_ISSUES) {
+    return [...issues.slice(0, MAX_REPORTED_ISSUES), `...and ${issues.length - MAX_REPORTED_ISSUES} more`];
+  }
+  return issues;
+};
+
+// --- Loading ---
+
+// Upgrades and validates an already parsed output, e.g. one expanded from the
+// indexed format. Throws SchemaError listing every problem found.
+export const loadLowPolyOutput = (data: unknown): LowPolyOutput => {
+  if (!isRecord(data)) throw new SchemaError(['(root): expected an object']);
+
+  const migrated = migrate(data);
+  const issues = validateLowPolyOutput(migrated);
+  if (issues.length > 0) throw new SchemaError(issues);
+  return migrated as unknown as LowPolyOutput;
+};
+
+// Parses a saved output file, upgrading older format versions first.
+export const parseLowPolyOutput = (text: string): LowPolyOutput => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new SchemaError([`not valid JSON: ${e instanceof Error ? e.message : String(e)}`]);
+  }
+  return loadLowPolyOutput(data);
+};
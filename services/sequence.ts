@@ -0,0 +1,389 @@
+import { encode as encodePng } from 'fast-png';
+import { LowPolyOutput, RasterImage, Settings, GenerationProgress, GenerationStage, StrokeMode } from '../types';
+import { scaleImageData, preprocessImage, samplePoints, buildLowPolyOutput, applyPaletteMode, SampledPoints } from './lowpoly';
+import { applyPalette } from './palette';
+import { getStyledFaces, toJSONString, RenderStyle, DEFAULT_RENDER_STYLE, toRGB, getFaceStroke, toStrokeAttributes } from './export';
+import { rasterizeFaces } from './raster';
+import { withOutlineFaces } from './render';
+import { createZip } from './zip';
+import { getUniqueBaseNames } from './batch';
+
+type Point = [number, number];
+
+export type SequenceProgressCallback = (frame: number, progress: GenerationProgress) => void;
+
+// A mesh vertex followed from frame to frame
+interface TrackedPoint {
+  id: number;
+  x: number;
+  y: number;
+  // Border and locked vertices never move
+  fixed: boolean;
+}
+
+// --- Point Tracking ---
+
+// Half-size of the patch compared when following a point
+const PATCH_RADIUS = 3;
+// Mean absolute luminance difference per pixel (0..255) above which a patch no
+// longer matches anything nearby: the point is dropped and its area resampled
+const CHANGE_THRESHOLD = 18;
+// A move has to match this much better than staying put, so flat or noisy
+// areas don't drift
+const MOTION_GAIN = 0.9;
+
+const toLuminance = ({ width, height, data }: RasterImage): Float32Array => {
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luminance;
+};
+
+// Candidate displacements, nearest first, so ties keep the shortest move
+const getSearchOffsets = (radius: number): Point[] => {
+  const offsets: Point[] = [];
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) offsets.push([dx, dy]);
+  }
+  return offsets.sort((a, b) => (a[0] ** 2 + a[1] ** 2) - (b[0] ** 2 + b[1] ** 2));
+};
+
+// Block matching: the displacement whose patch in `next` best matches the patch
+// around (x, y) in `previous`, with the mean per-pixel difference of that match
+const trackPoint = (
+  previous: Float32Array,
+  next: Float32Array,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  searchRadius: number,
+  offsets: Point[]
+): { dx: number; dy: number; error: number } => {
+  const cx = Math.min(width - 1, Math.max(0, Math.round(x)));
+  const cy = Math.min(height - 1, Math.max(0, Math.round(y)));
+  const patchSize = (2 * PATCH_RADIUS + 1) ** 2;
+  // Patches away from the border are read without clamping, which is most of the work
+  const reach = PATCH_RADIUS + searchRadius;
+  const interior = cx >= reach && cy >= reach && cx < width - reach && cy < height - reach;
+  const at = (px: number, py: number) =>
+    Math.min(height - 1, Math.max(0, py)) * width + Math.min(width - 1, Math.max(0, px));
+  const cost = (dx: number, dy: number, limit: number) => {
+    let sum = 0;
+    for (let py = -PATCH_RADIUS; py <= PATCH_RADIUS && sum < limit; py++) {
+      if (interior) {
+        const from = (cy + py) * width + cx;
+        const to = from + dy * width + dx;
+        for (let px = -PATCH_RADIUS; px <= PATCH_RADIUS; px++) sum += Math.abs(previous[from + px] - next[to + px]);
+      } else {
+        for (let px = -PATCH_RADIUS; px <= PATCH_RADIUS; px++) {
+          sum += Math.abs(previous[at(cx + px, cy + py)] - next[at(cx + px + dx, cy + py + dy)]);
+        }
+      }
+    }
+    return sum;
+  };
+
+  const still = cost(0, 0, Infinity);
+  let best = { dx: 0, dy: 0, cost: still };
+  for (const [dx, dy] of offsets) {
+    const c = cost(dx, dy, best.cost);
+    if (c < best.cost) best = { dx, dy, cost: c };
+  }
+  if (best.cost >= still * MOTION_GAIN) best = { dx: 0, dy: 0, cost: still };
+  return { dx: best.dx, dy: best.dy, error: best.cost / patchSize };
+};
+
+// Spatial hash for "is there already a vertex within `radius`?"
+const createPointGrid = (radius: number) => {
+  const cells = new Map<string, Point[]>();
+  const key = (cx: number, cy: number) => `${cx},${cy}`;
+  return {
+    add: ([x, y]: Point) => {
+      const k = key(Math.floor(x / radius), Math.floor(y / radius));
+      const cell = cells.get(k);
+      if (cell) cell.push([x, y]);
+      else cells.set(k, [[x, y]]);
+    },
+    hasNear: ([x, y]: Point) => {
+      const cx = Math.floor(x / radius);
+      const cy = Math.floor(y / radius);
+      for (let j = cy - 1; j <= cy + 1; j++) {
+        for (let i = cx - 1; i <= cx + 1; i++) {
+          for (const [px, py] of cells.get(key(i, j)) ?? []) {
+            if ((px - x) ** 2 + (py - y) ** 2 < radius * radius) return true;
+          }
+        }
+      }
+      return false;
+    },
+  };
+};
+
+// Carries the previous frame's vertices onto the next one. Points follow the
+// image content; those whose patch changed beyond recognition are dropped, and
+// new ones from the regular sampler fill in only where the frame changed.
+const advancePoints = (
+  tracked: TrackedPoint[],
+  previous: RasterImage,
+  next: RasterImage,
+  settings: Settings,
+  allocateId: () => number
+): TrackedPoint[] => {
+  const { width, height } = next;
+  const previousLuminance = toLuminance(previous);
+  const nextLuminance = toLuminance(next);
+  const spacing = Math.sqrt((width * height) / Math.max(1, settings.points));
+  const searchRadius = Math.max(8, Math.round(Math.max(width, height) / 48));
+  const offsets = getSearchOffsets(searchRadius);
+  const inside = (x: number, y: number) => x > 0 && x < width && y > 0 && y < height;
+
+  // Points that stay put keep their place; moved ones must not land on another
+  // vertex, and older points win over newer ones
+  const minDistance = spacing * 0.35;
+  const grid = createPointGrid(minDistance);
+  const kept: TrackedPoint[] = [];
+  const keep = (point: TrackedPoint) => {
+    kept.push(point);
+    grid.add([point.x, point.y]);
+  };
+  tracked.filter(point => point.fixed).forEach(keep);
+  const moving = tracked.filter(point => !point.fixed).sort((a, b) => a.id - b.id);
+  const moved: TrackedPoint[] = [];
+  for (const point of moving) {
+    const { dx, dy, error } = trackPoint(previousLuminance, nextLuminance, width, height, point.x, point.y, searchRadius, offsets);
+    const x = point.x + dx;
+    const y = point.y + dy;
+    if (error > CHANGE_THRESHOLD || !inside(x, y)) continue;
+    if (dx === 0 && dy === 0) keep(point);
+    else moved.push({ ...point, x, y });
+  }
+  for (const point of moved) {
+    if (!grid.hasNear([point.x, point.y])) keep(point);
+  }
+
+  // Coarse cells of about four points each; a cell changed when its pixels did
+  const cellSize = Math.max(4, Math.round(spacing * 2));
+  const columns = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const difference = new Float64Array(columns * rows);
+  const pixelCount = new Float64Array(columns * rows);
+  const cellOf = (x: number, y: number) =>
+    Math.min(rows - 1, Math.floor(y / cellSize)) * columns + Math.min(columns - 1, Math.floor(x / cellSize));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = cellOf(x, y);
+      difference[cell] += Math.abs(nextLuminance[y * width + x] - previousLuminance[y * width + x]);
+      pixelCount[cell]++;
+    }
+  }
+  const changed = (cell: number) => difference[cell] / pixelCount[cell] > CHANGE_THRESHOLD / 2;
+
+  const previousCount = new Int32Array(columns * rows);
+  for (const point of moving) previousCount[cellOf(point.x, point.y)]++;
+  const trackedCount = new Int32Array(columns * rows);
+  for (const point of kept) {
+    if (!point.fixed) trackedCount[cellOf(point.x, point.y)]++;
+  }
+  // Where the sampler would put points on this frame; only used where it changed
+  const candidates = samplePoints(next, { ...settings, lockedPoints: [] }).points.filter(([x, y]) => inside(x, y));
+  const candidateCount = new Int32Array(columns * rows);
+  for (const [x, y] of candidates) candidateCount[cellOf(x, y)]++;
+
+  // Changed cells lose their newest points when content converged there, and
+  // take sampled points while they have fewer than the sampler would place.
+  // Cells emptied by motion are refilled whether or not they changed.
+  const limit = (cell: number) => Math.ceil(candidateCount[cell] * 1.5) + 1;
+  const result = kept.filter(point => point.fixed);
+  const perCell = new Int32Array(columns * rows);
+  for (const point of kept.filter(p => !p.fixed)) {
+    const cell = cellOf(point.x, point.y);
+    if (changed(cell) && perCell[cell] >= limit(cell)) continue;
+    perCell[cell]++;
+    result.push(point);
+  }
+  for (const [x, y] of candidates) {
+    const cell = cellOf(x, y);
+    if (!changed(cell) && !(trackedCount[cell] === 0 && previousCount[cell] > 0)) continue;
+    if (perCell[cell] >= candidateCount[cell] || grid.hasNear([x, y])) continue;
+    perCell[cell]++;
+    grid.add([x, y]);
+    result.push({ id: allocateId(), x, y, fixed: false });
+  }
+  return result;
+};
+
+// --- Stable Ids ---
+
+// Renumbers faces by the tracked vertices they are built on, so a triangle
+// keeps its id for as long as its three vertices survive. `registry` maps
+// vertex keys to ids across the whole sequence.
+const assignStableIds = (
+  output: LowPolyOutput,
+  tracked: TrackedPoint[],
+  registry: Map<string, number>
+): LowPolyOutput => {
+  const pointIds = new Map(tracked.map(point => [`${point.x},${point.y}`, point.id]));
+  const stableId = (key: string) => {
+    let id = registry.get(key);
+    if (id === undefined) {
+      id = registry.size + 1;
+      registry.set(key, id);
+    }
+    return id;
+  };
+  const keyOf = (points: Point[]) => points.map(p => pointIds.get(p.join(','))).sort((a, b) => a! - b!).join('-');
+
+  const renumbered = new Map<number, number>();
+  const triangles = output.triangles.map(tri => {
+    const id = stableId(`t${keyOf(tri.vertices)}`);
+    renumbered.set(tri.id, id);
+    return { ...tri, id };
+  });
+  const cells = output.cells?.map(cell => {
+    const id = stableId(`c${keyOf([cell.site])}`);
+    renumbered.set(cell.id, id);
+    return { ...cell, id };
+  });
+  const remap = <T extends { neighbors: number[] }>(face: T): T => ({
+    ...face,
+    neighbors: face.neighbors.map(id => renumbered.get(id)!),
+  });
+  return {
+    ...output,
+    triangles: triangles.map(remap),
+    ...(cells ? { cells: cells.map(remap) } : {}),
+  };
+};
+
+// --- Sequence Generation ---
+
+// One output per frame from a shared, evolving point set. Frames are scaled to
+// maxSize like single images and must all end up the same size. K-means
+// palettes come from the first frame, so colors don't hop between frames.
+// Region merging is skipped: merged outlines would change from frame to frame.
+export const generateSequence = (
+  frames: RasterImage[],
+  frameNames: string[],
+  settings: Settings,
+  onProgress: SequenceProgressCallback = () => {}
+): LowPolyOutput[] => {
+  if (frames.length === 0) throw new Error('A sequence needs at least one frame');
+  const scaled = frames.map((frame, f) => preprocessImage(scaleImageData(frame, settings.maxSize), settings, progress => onProgress(f, progress)));
+  const { width, height } = scaled[0];
+  if (scaled.some(frame => frame.width !== width || frame.height !== height)) {
+    throw new Error('All frames of a sequence must have the same size');
+  }
+
+  let nextPointId = 1;
+  const allocateId = () => nextPointId++;
+  const registry = new Map<string, number>();
+  const first = samplePoints(scaled[0], settings, progress => onProgress(0, progress));
+  const locked = new Set(first.lockedPoints.map(p => p.join(',')));
+  let tracked: TrackedPoint[] = first.points.map(([x, y]) => ({
+    id: allocateId(),
+    x,
+    y,
+    fixed: x <= 0 || x >= width || y <= 0 || y >= height || locked.has(`${x},${y}`),
+  }));
+
+  const outputs: LowPolyOutput[] = [];
+  let palette: [number, number, number][] | undefined;
+  for (let f = 0; f < scaled.length; f++) {
+    const report = (progress: GenerationProgress) => onProgress(f, progress);
+    if (f > 0) {
+      report({ stage: GenerationStage.SAMPLING, progress: 0 });
+      tracked = advancePoints(tracked, scaled[f - 1], scaled[f], settings, allocateId);
+      report({ stage: GenerationStage.SAMPLING, progress: 1 });
+    }
+    const sampled: SampledPoints = { ...first, points: tracked.map(point => [point.x, point.y]) };
+    const output = assignStableIds(buildLowPolyOutput(scaled[f], frameNames[f], settings, sampled, report), tracked, registry);
+    const paletted = palette ? applyPalette(output, palette) : applyPaletteMode(output, settings, report);
+    palette = paletted.palette;
+    outputs.push(paletted);
+  }
+  return outputs;
+};
+
+// --- Exports ---
+
+// Faces by id across all frames, with null where a face doesn't exist
+const collectFaceTracks = (frames: LowPolyOutput[], style: RenderStyle) => {
+  const tracks = new Map<number, ({ points: string; color: [number, number, number] } | null)[]>();
+  frames.forEach((frame, f) => {
+    for (const face of getStyledFaces(frame, style)) {
+      let track = tracks.get(face.id);
+      if (!track) {
+        track = new Array(frames.length).fill(null);
+        tracks.set(face.id, track);
+      }
+      track[f] = {
+        points: face.points.map(([x, y]) => `${Math.round(x * 100) / 100},${Math.round(y * 100) / 100}`).join(' '),
+        color: face.color,
+      };
+    }
+  });
+  return tracks;
+};
+
+// SMIL animated SVG that steps through the frames, looping. Every face id is one
+// polygon whose outline and fill change per frame and which is hidden in frames
+// without it. Gradient shading is flattened to face colors.
+export const toSequenceSVGString = (frames: LowPolyOutput[], fps: number, style: RenderStyle = DEFAULT_RENDER_STYLE): string => {
+  const { width, height } = frames[0].image;
+  const count = frames.length;
+  const timing = `dur='${count / fps}s' repeatCount='indefinite' calcMode='discrete' keyTimes='${frames.map((_, f) => f / count).join(';')}'`;
+  const animate = (attribute: string, values: string[]) =>
+    values.every(value => value === values[0]) ? '' : `<animate attributeName='${attribute}' values='${values.join(';')}' ${timing} />`;
+
+  let svg = `<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 ${width} ${height}'>`;
+  svg += '<g>';
+  for (const track of collectFaceTracks(frames, style).values()) {
+    // Frames without the face repeat a neighboring shape while hidden
+    const shown = track.find(face => face !== null)!;
+    const filled = track.map(face => face ?? shown);
+    const visibility = track.map(face => face ? 'visible' : 'hidden');
+    const fills = filled.map(face => toRGB(face.color));
+    const stroke = getFaceStroke(style, filled[0].color);
+    svg += `<polygon points='${filled[0].points}' fill='${fills[0]}'${toStrokeAttributes(stroke)}${visibility[0] === 'hidden' ? ` visibility='hidden'` : ''}>`;
+    svg += animate('points', filled.map(face => face.points));
+    svg += animate('fill', fills);
+    // Seam strokes follow the fill
+    if (stroke && style.strokeMode === StrokeMode.MATCH) svg += animate('stroke', fills);
+    svg += animate('visibility', visibility);
+    svg += '</polygon>';
+  }
+  svg += '</g></svg>';
+  return svg;
+};
+
+// Numbered PNG frames (frame_0001.png, ...) in a ZIP archive, drawn in `style`
+// without antialiasing like the morph frames
+export const toSequenceFramesZip = (
+  frames: LowPolyOutput[],
+  style: RenderStyle = DEFAULT_RENDER_STYLE,
+  onProgress?: (progress: number) => void
+): Uint8Array => {
+  const digits = Math.max(4, String(frames.length).length);
+  const entries = frames.map((frame, i) => {
+    const raster = rasterizeFaces(withOutlineFaces(getStyledFaces(frame, style), style), frame.image.width, frame.image.height);
+    onProgress?.((i + 1) / frames.length);
+    const data = new Uint8Array(raster.data.buffer, raster.data.byteOffset, raster.data.length);
+    return {
+      name: `frame_${String(i + 1).padStart(digits, '0')}.png`,
+      data: encodePng({ width: raster.width, height: raster.height, data, channels: 4, depth: 8 }),
+    };
+  });
+  return createZip(entries);
+};
+
+// Every frame's JSON, named after its source frame
+export const toSequenceJSONZip = (frames: LowPolyOutput[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const names = getUniqueBaseNames(frames.map(frame => frame.image.source));
+  return createZip(frames.map((frame, i) => ({
+    name: `${names[i]}.json`,
+    data: encoder.encode(toJSONString(frame)),
+  })));
+};
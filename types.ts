@@ -4,6 +4,7 @@ export enum Sampler {
   GRID = 'grid',
   POISSON = 'poisson',
   EDGE_AWARE = 'edge-aware',
+  ADAPTIVE = 'adaptive',
 }
 
 export enum ColorSpace {
@@ -11,30 +12,243 @@ export enum ColorSpace {
   LAB = 'lab',
 }
 
+// How a face's color is picked from the pixels it covers
+export enum ColorEstimator {
+  MEAN = 'mean',
+  // Per-channel median of the RGB values
+  MEDIAN = 'median',
+  // Mean of the most common color, binned in CIELAB
+  DOMINANT = 'dominant',
+  // The pixel under the centroid
+  CENTROID = 'centroid',
+  // Per-channel RGB mean without the darkest and lightest tenth
+  TRIMMED_MEAN = 'trimmed-mean',
+}
+
+export enum ShadingMode {
+  FLAT = 'flat',
+  GRADIENT = 'gradient',
+}
+
+export enum PaletteMode {
+  NONE = 'none',
+  KMEANS = 'kmeans',
+  CUSTOM = 'custom',
+}
+
+export enum GeometryKind {
+  TRIANGLES = 'triangles',
+  VORONOI = 'voronoi',
+  // Triangles merged into larger polygons; only produced by the merge pass
+  REGIONS = 'regions',
+}
+
+// How face edges are drawn by the preview and every 2D export
+export enum StrokeMode {
+  NONE = 'none',
+  // Stroked with the face's own color, covering the hairline seams antialiasing
+  // leaves between adjacent faces
+  MATCH = 'match',
+  OUTLINE = 'outline',
+  // Each face shrunk toward its centroid, leaving gaps like the leading of stained glass
+  GAP = 'gap',
+}
+
+// One step of the pre-processing chain (services/preprocess.ts). The chain runs
+// in order on the scaled image, before edges are detected and colors measured.
+export type ImageFilter =
+  // Edge-preserving smoothing. `radius` is in pixels; `range` is the color
+  // distance (0-255) beyond which neighbors stop being averaged in
+  | { type: 'bilateral'; radius: number; range: number }
+  | { type: 'median'; radius: number }
+  // -1..1, 0 leaves the image unchanged; temperature > 0 is warmer
+  | { type: 'brightness' | 'contrast' | 'saturation' | 'temperature'; amount: number }
+  // Above 1 brightens the midtones
+  | { type: 'gamma'; gamma: number }
+  // Levels per channel, 2..256
+  | { type: 'posterize'; levels: number };
+
+export type ImageFilterType = ImageFilter['type'];
+
+// Low-resolution grayscale map stretched over the image; see services/density.ts
+export interface DensityMask {
+  width: number;
+  height: number;
+  // Base64 of one byte per cell, row-major; 128 is neutral
+  data: string;
+}
+
 export interface Settings {
   maxSize: number;
   points: number;
   sampler: Sampler;
   seed: number;
   edgeWeight: number;
+  // Paintable per-area multiplier on the sampling density, null when unused
+  densityMask: DensityMask | null;
+  // Pre-processing applied to the scaled image, in order
+  filters: ImageFilter[];
+  // Faces whose mean alpha (0..1) is below this are dropped; images without
+  // transparency are unaffected
+  minOpacity: number;
+  // Canny edge detection: Gaussian sigma and hysteresis thresholds (0-255)
+  edgeBlur: number;
+  cannyLow: number;
+  cannyHigh: number;
+  // Place vertices along traced edge contours
+  snapToContours: boolean;
+  // Adaptive sampler stops refining once the mean triangle error drops below this
+  targetError: number;
   colorSpace: ColorSpace;
+  colorEstimator: ColorEstimator;
+  shading: ShadingMode;
+  geometry: GeometryKind;
+  paletteMode: PaletteMode;
+  // Number of k-means clusters
+  paletteSize: number;
+  // Hex colors used by PaletteMode.CUSTOM
+  customPalette: string[];
+  // Merge adjacent triangles whose colors are within mergeTolerance (CIE76 ΔE)
+  mergeRegions: boolean;
+  mergeTolerance: number;
+  // Vertices kept through regeneration, as fractions of the image width and height
+  lockedPoints: [number, number][];
   withNeighbors: boolean;
-  previewOutline: boolean;
+  strokeMode: StrokeMode;
+  // StrokeMode.OUTLINE only; the width is in mesh pixels
+  strokeColor: string;
+  strokeWidth: number;
+  // StrokeMode.GAP: fraction of each face's size given up to the gap, 0..0.5
+  gapSize: number;
   showPointIds: boolean;
 }
 
+export enum GenerationStage {
+  SCALING = 'scaling',
+  PREPROCESSING = 'preprocessing',
+  EDGE_MAP = 'edge-map',
+  SAMPLING = 'sampling',
+  TRIANGULATION = 'triangulation',
+  COLORING = 'coloring',
+  NEIGHBORS = 'neighbors',
+  PALETTE = 'palette',
+  MERGING = 'merging',
+}
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  // Completion of the current stage, from 0 to 1
+  progress: number;
+}
+
+// Plain RGBA pixel buffer. Structurally compatible with the DOM ImageData,
+// so the generator can run in a worker or outside the browser.
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
 export interface Point {
   x: number;
   y: number;
 }
 
+// Mean color of a face's pixels, channels 0-255. The fourth channel is the mean
+// alpha, present only when the pixels were not all fully opaque.
+export type AverageColor = [number, number, number, number?];
+
 export interface Triangle {
   id: number;
   vertices: [[number, number], [number, number], [number, number]];
   centroid: [number, number];
   area_px: number;
-  avg_color: [number, number, number];
+  avg_color: AverageColor;
+  // RMS distance (RGB, 0-255 units) between the triangle's pixels and avg_color.
+  // Missing in files migrated from format 1.0.
+  color_error?: number;
+  // Pixels the triangle covers, their per-channel RGB standard deviation and the
+  // spread of their luminance (0-255). Missing in files saved before they were
+  // recorded.
+  pixel_count?: number;
+  color_std?: [number, number, number];
+  luminance_range?: number;
+  // Colors sampled at each vertex, in `vertices` order (gradient shading only)
+  vertex_colors?: [[number, number, number], [number, number, number], [number, number, number]];
   neighbors: number[];
+  // Index into LowPolyOutput.palette; when set it overrides avg_color and vertex_colors for rendering
+  palette_index?: number;
+  // Unit normal of the relief used by LowPolyOutput.lighting: x right, y down,
+  // z toward the viewer
+  normal?: [number, number, number];
+}
+
+// A Voronoi region around one sampled point, clipped to the image
+export interface Cell {
+  id: number;
+  site: [number, number];
+  // Convex polygon, not closed (the last vertex connects back to the first)
+  polygon: [number, number][];
+  centroid: [number, number];
+  area_px: number;
+  avg_color: AverageColor;
+  color_error?: number;
+  pixel_count?: number;
+  color_std?: [number, number, number];
+  luminance_range?: number;
+  neighbors: number[];
+  palette_index?: number;
+  // Same as Triangle.normal, fitted to the raised polygon
+  normal?: [number, number, number];
+}
+
+// Edge-connected triangles of similar color merged into one simple polygon
+export interface Region {
+  id: number;
+  // Simple polygon, not closed; unlike cells it may be concave
+  polygon: [number, number][];
+  centroid: [number, number];
+  area_px: number;
+  // Measured over the pixels of the merged triangles like a triangle's color,
+  // with the output's color space and estimator
+  avg_color: AverageColor;
+  // Same statistics as Triangle's, over the region's pixels
+  color_error?: number;
+  pixel_count?: number;
+  color_std?: [number, number, number];
+  luminance_range?: number;
+  triangle_count: number;
+  neighbors: number[];
+  // Palette entry covering most of the region's area
+  palette_index?: number;
+  // Same as Triangle.normal, fitted to the raised polygon
+  normal?: [number, number, number];
+}
+
+// Faceted lighting drawn over the measured colors (services/lighting.ts). The
+// colors in the file stay unshaded; renderers and exporters apply the light.
+export interface Lighting {
+  // What the vertex heights behind the face normals were taken from
+  height_source: 'luminance' | 'edges';
+  // Tallest relief as a fraction of the image's longest side
+  relief: number;
+  // Where the light comes from: degrees clockwise from the top of the image,
+  // and degrees above the image plane
+  azimuth: number;
+  elevation: number;
+  intensity: number;
+  // Light that reaches every face, including those turned away from the lamp
+  ambient: number;
+}
+
+export interface MergeStats {
+  tolerance: number;
+  triangles: number;
+  regions: number;
+  // Polygon vertex counts before and after merging, and the fraction saved
+  vertices_before: number;
+  vertices_after: number;
+  reduction: number;
 }
 
 export interface LowPolyOutput {
@@ -48,7 +262,91 @@ export interface LowPolyOutput {
     sampler: Sampler;
     points: number;
     seed: number;
+    // Random generator the seed was fed to (see services/random.ts)
+    prng: string;
     color_space: ColorSpace;
+    // Only present when it isn't ColorEstimator.MEAN
+    color_estimator?: ColorEstimator;
+    shading: ShadingMode;
+    palette_mode?: PaletteMode;
+    target_error?: number;
+    density_mask?: DensityMask;
+    // Only present when the chain isn't empty
+    preprocess?: ImageFilter[];
+    // Only present when the image has transparent pixels
+    min_opacity?: number;
+    edges?: {
+      blur: number;
+      low: number;
+      high: number;
+      snap_to_contours: boolean;
+    };
   };
+  palette?: [number, number, number][];
+  lighting?: Lighting;
+  // Which polygon list holds the mesh; `triangles` is empty for Voronoi and region output
+  geometry: GeometryKind;
+  // Delaunay input points (Voronoi sites), including any vertex edits
+  points?: [number, number][];
+  // Indices into `points` of vertices locked in the editor
+  locked_points?: number[];
   triangles: Triangle[];
-}
\ No newline at end of file
+  cells?: Cell[];
+  regions?: Region[];
+  merge?: MergeStats;
+}
+
+// One face list of the indexed format (services/indexed.ts), stored as parallel
+// flat arrays. Optional arrays are left out when no face needs them.
+export interface IndexedFaceList {
+  count: number;
+  // Face ids; omitted when they run 1..count
+  ids?: Uint32Array;
+  // Polygons only: face i uses indices[offsets[i] .. offsets[i + 1]]. Triangles
+  // always use three indices each.
+  offsets?: Uint32Array;
+  // Indices into IndexedLowPolyOutput.vertices
+  indices: Uint32Array;
+  // avg_color, 3 per face. Signed, so an out-of-range channel fails validation
+  // instead of wrapping around.
+  colors: Int16Array;
+  // Alpha of avg_color, one per face; -1 where a face has none
+  alphas?: Int16Array;
+  // NaN where a face has no color_error
+  color_errors?: Float64Array;
+  // pixel_count (-1 where a face has none), color_std (3 per face) and
+  // luminance_range (NaN where a face has none)
+  pixel_counts?: Int32Array;
+  color_stds?: Float64Array;
+  luminance_ranges?: Float64Array;
+  // Triangles only, 9 per face; the mask marks faces that have them when only
+  // some do
+  vertex_colors?: Int16Array;
+  vertex_color_mask?: Uint8Array;
+  // -1 where a face has no palette_index
+  palette_indices?: Int32Array;
+  // normal, 3 per face; NaN where a face has none
+  normals?: Float64Array;
+  // Cells only: vertex index of each site
+  sites?: Uint32Array;
+  // Regions only
+  triangle_counts?: Uint32Array;
+  // Neighbor ids of face i are neighbors[neighbor_offsets[i] .. neighbor_offsets[i + 1]]
+  neighbor_offsets?: Uint32Array;
+  neighbors?: Uint32Array;
+  // Only stored when they can't be derived from the outline exactly
+  centroids?: Float64Array;
+  areas?: Float64Array;
+}
+
+// LowPolyOutput with each vertex stored once and faces referring to it by index
+export interface IndexedLowPolyOutput extends Omit<LowPolyOutput, 'points' | 'triangles' | 'cells' | 'regions'> {
+  format: 'lowpoly-indexed';
+  // Deduplicated x, y pairs
+  vertices: Float64Array;
+  // Indices into `vertices`
+  points?: Uint32Array;
+  triangles: IndexedFaceList;
+  cells?: IndexedFaceList;
+  regions?: IndexedFaceList;
+}